@@ -0,0 +1,63 @@
+'use server';
+
+import {
+    deleteMappingProfile,
+    loadMappingProfiles,
+    parseUnitConversions,
+    saveMappingProfile,
+} from '@/lib/mappingProfiles';
+import type { ColumnMapping, MappingProfile } from '@/types/quote';
+
+/**
+ * List saved mapping profiles; invalid ones are reported on the analysis, not listed
+ */
+export async function listProfiles(): Promise<MappingProfile[]> {
+    return (await loadMappingProfiles()).profiles;
+}
+
+/**
+ * Save the current (possibly hand-corrected) column mapping as a named profile
+ */
+export async function saveProfile(input: {
+    name: string;
+    headers: string[];
+    columnMapping: ColumnMapping;
+    sheetName: string | null;
+    unitConversions: string;
+    ruleSet: string | null;
+}): Promise<{ success: boolean; profile?: MappingProfile; error?: string }> {
+    const name = input.name.trim();
+    if (!name) {
+        return { success: false, error: 'Profile name is required.' };
+    }
+    if (input.headers.length === 0) {
+        return { success: false, error: 'Nothing to save: the file has no detected headers.' };
+    }
+
+    try {
+        const profile = await saveMappingProfile({
+            name,
+            headers: input.headers,
+            columnMapping: input.columnMapping,
+            sheetName: input.sheetName,
+            unitConversions: parseUnitConversions(input.unitConversions),
+            ruleSet: input.ruleSet,
+        });
+        return { success: true, profile };
+    } catch (error) {
+        console.error('Failed to save mapping profile:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to save profile.' };
+    }
+}
+
+/**
+ * Delete a saved mapping profile
+ */
+export async function deleteProfile(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        return { success: await deleteMappingProfile(id) };
+    } catch (error) {
+        console.error('Failed to delete mapping profile:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to delete profile.' };
+    }
+}
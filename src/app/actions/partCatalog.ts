@@ -0,0 +1,75 @@
+'use server';
+
+import { catalogInfo, deletePartCatalog, loadPartCatalog, parsePartCatalog, savePartCatalog } from '@/lib/partCatalog';
+import { matchRowsToCatalog } from '@/lib/catalogMatching';
+import { ADMIN_MODE, LIMITS, MAX_FILE_SIZE_BYTES, shouldEnforceLimit } from '@/lib/limits';
+import type { CatalogMatch, ParsedRow, PartCatalogInfo, RiskThresholds } from '@/types/quote';
+
+/**
+ * Details of the current part catalog, or null when none is loaded
+ */
+export async function getCatalogInfo(): Promise<PartCatalogInfo | null> {
+    const catalog = await loadPartCatalog();
+    return catalog ? catalogInfo(catalog) : null;
+}
+
+// The catalog is shared by every user of the server, so only an admin deployment may change it
+const CATALOG_LOCKED_ERROR = 'The part catalog can only be changed when the server runs with ADMIN_MODE=true.';
+
+/**
+ * Whether this server lets the part catalog be uploaded and removed
+ */
+export async function canManageCatalog(): Promise<boolean> {
+    return ADMIN_MODE;
+}
+
+/**
+ * Import an uploaded CSV/XLSX item master, replacing the current catalog
+ */
+export async function uploadCatalog(formData: FormData): Promise<{ success: boolean; catalog?: PartCatalogInfo; error?: string }> {
+    if (!ADMIN_MODE) {
+        return { success: false, error: CATALOG_LOCKED_ERROR };
+    }
+
+    const file = formData.get('file') as File | null;
+    if (!file) {
+        return { success: false, error: 'Select a catalog file to upload.' };
+    }
+    if (shouldEnforceLimit() && file.size > MAX_FILE_SIZE_BYTES) {
+        return { success: false, error: `File too large. Maximum size is ${LIMITS.MAX_FILE_SIZE_MB}MB.` };
+    }
+
+    try {
+        const catalog = parsePartCatalog(await file.arrayBuffer(), file.name);
+        await savePartCatalog(catalog);
+        return { success: true, catalog: catalogInfo(catalog) };
+    } catch (error) {
+        console.error('Failed to import part catalog:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to import catalog.' };
+    }
+}
+
+/**
+ * Remove the part catalog
+ */
+export async function deleteCatalog(): Promise<{ success: boolean; error?: string }> {
+    if (!ADMIN_MODE) {
+        return { success: false, error: CATALOG_LOCKED_ERROR };
+    }
+    return { success: await deletePartCatalog() };
+}
+
+/**
+ * Match rows against the catalog, e.g. after the part number column was re-mapped.
+ * Only the matched items travel back to the browser, never the whole catalog.
+ */
+export async function matchCatalog(
+    rows: Pick<ParsedRow, 'partNumber' | 'description'>[],
+    thresholds: Pick<RiskThresholds, 'partNumbers' | 'catalog'>
+): Promise<{ catalog: PartCatalogInfo | null; matches: (CatalogMatch | null)[] }> {
+    const catalog = await loadPartCatalog();
+    if (!catalog) {
+        return { catalog: null, matches: rows.map(() => null) };
+    }
+    return { catalog: catalogInfo(catalog), matches: matchRowsToCatalog(rows, catalog.entries, thresholds) };
+}
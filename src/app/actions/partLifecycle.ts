@@ -0,0 +1,19 @@
+'use server';
+
+import { lifecycleListInfo, loadLifecycleList } from '@/lib/partLifecycle';
+import { matchRowsToLifecycle } from '@/lib/lifecycle';
+import type { LifecycleEntry, LifecycleListInfo, ParsedRow, PartNumberRules } from '@/types/quote';
+
+/**
+ * Look rows up on the lifecycle list, e.g. after the part number column was re-mapped
+ */
+export async function matchLifecycle(
+    rows: Pick<ParsedRow, 'partNumber'>[],
+    rules: PartNumberRules
+): Promise<{ lifecycleList: LifecycleListInfo | null; entries: (LifecycleEntry | null)[] }> {
+    const { list } = await loadLifecycleList();
+    if (!list) {
+        return { lifecycleList: null, entries: rows.map(() => null) };
+    }
+    return { lifecycleList: lifecycleListInfo(list), entries: matchRowsToLifecycle(rows, list.entries, rules) };
+}
@@ -0,0 +1,19 @@
+'use server';
+
+import { loadPriceBook, priceBookInfo } from '@/lib/pricingLoader';
+import { matchRowsToPriceBook } from '@/lib/pricing';
+import type { ParsedRow, PartNumberRules, PriceBookEntry, PriceBookInfo } from '@/types/quote';
+
+/**
+ * Look rows up in the price book, e.g. after the part number column was re-mapped
+ */
+export async function matchPriceBook(
+    rows: Pick<ParsedRow, 'partNumber'>[],
+    rules: PartNumberRules
+): Promise<{ priceBook: PriceBookInfo | null; entries: (PriceBookEntry | null)[] }> {
+    const { book } = await loadPriceBook();
+    if (!book) {
+        return { priceBook: null, entries: rows.map(() => null) };
+    }
+    return { priceBook: priceBookInfo(book), entries: matchRowsToPriceBook(rows, book.entries, rules) };
+}
@@ -1,9 +1,23 @@
 'use server';
 
-import { parseExcelBuffer, rowsToMarkdown, parseQuantity, parsePrice } from '@/lib/excelParser';
+import { parseExcelBuffer, rowsToMarkdown } from '@/lib/excelParser';
 import { analyzeAllRisks } from '@/lib/riskDetector';
+import { buildSummary, detectFileCurrency, mapSheetRows, termsColumns, validateSheetMappings, withCatalogMatches, withLifecycleEntries, withPriceBookEntries, type ReportedAssessments } from '@/lib/quoteBuilder';
+import { resolveHierarchy } from '@/lib/bomHierarchy';
+import { MAPPABLE_FIELDS, fallbackColumnMapping, withQuantityBreaks } from '@/lib/columnMapping';
+import { fieldConfidenceSchema } from '@/lib/schemas';
 import { LIMITS, MAX_FILE_SIZE_BYTES, shouldEnforceLimit, getEffectiveLimit } from '@/lib/limits';
-import type { QuoteAnalysis, ParsedRow, ColumnMapping } from '@/types/quote';
+import { findMatchingProfile } from '@/lib/mappingProfiles';
+import { DEFAULT_RULE_SET } from '@/lib/riskRules';
+import { getRiskRuleSet } from '@/lib/riskRuleLoader';
+import { uniqueRiskIds } from '@/lib/riskIds';
+import { catalogInfo, loadPartCatalog } from '@/lib/partCatalog';
+import { matchRowsToCatalog } from '@/lib/catalogMatching';
+import { lifecycleListInfo, loadLifecycleList, type PartLifecycleList } from '@/lib/partLifecycle';
+import { matchRowsToLifecycle } from '@/lib/lifecycle';
+import { loadPriceBook, loadPricingConfig, priceBookInfo, type PriceBook } from '@/lib/pricingLoader';
+import { DEFAULT_PRICING_CONFIG, matchRowsToPriceBook, withPricing } from '@/lib/pricing';
+import type { QuoteAnalysis, ColumnMapping, MappingProfile, MappingSource, PartCatalog, PricingConfig, RiskFlag, RiskRuleSet, SheetInfo } from '@/types/quote';
 import { createOpenAI } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
@@ -14,10 +28,17 @@ const columnMappingSchema = z.object({
     quantity: z.string().nullable().describe('Column name for quantities'),
     description: z.string().nullable().describe('Column name for descriptions'),
     unitPrice: z.string().nullable().describe('Column name for unit prices'),
+    extendedPrice: z.string().nullable().describe('Column name for extended prices / line totals'),
+    currency: z.string().nullable().describe('Column name for currency codes'),
     unitOfMeasure: z.string().nullable().describe('Column name for units of measure'),
+    manufacturer: z.string().nullable().describe('Column name for manufacturers / brands'),
+    leadTime: z.string().nullable().describe('Column name for lead times'),
+    moq: z.string().nullable().describe('Column name for minimum order quantities'),
+    packMultiple: z.string().nullable().describe('Column name for pack / order multiples'),
     notes: z.string().nullable().describe('Column name for notes/comments'),
     terms: z.string().nullable().describe('Column name for terms/conditions'),
     headerRow: z.number().describe('Row number where headers are located (1-indexed)'),
+    fieldConfidence: z.array(fieldConfidenceSchema).describe('Confidence and rationale for each mapped field'),
 });
 
 /**
@@ -28,39 +49,12 @@ export async function processExcelFile(formData: FormData): Promise<QuoteAnalysi
     const file = formData.get('file') as File | null;
 
     if (!file) {
-        return {
-            success: false,
-            fileName: '',
-            processedAt: new Date().toISOString(),
-            columnMapping: {
-                partNumber: null,
-                quantity: null,
-                description: null,
-                unitPrice: null,
-                unitOfMeasure: null,
-                notes: null,
-                terms: null,
-                headerRow: 1,
-            },
-            rows: [],
-            risks: [{
-                id: 'error-no-file',
-                type: 'general',
-                level: 'critical',
-                title: 'No File Provided',
-                description: 'Please upload an Excel file to analyze.',
-                recommendation: 'Select a .xlsx, .xls, or .csv file to upload.',
-            }],
-            summary: {
-                totalRows: 0,
-                validRows: 0,
-                totalRisks: 1,
-                criticalRisks: 1,
-                highRisks: 0,
-                mediumRisks: 0,
-                lowRisks: 0,
-            },
-        };
+        return errorResult('', {
+            id: 'error-no-file',
+            title: 'No File Provided',
+            description: 'Please upload an Excel file to analyze.',
+            recommendation: 'Select a .xlsx, .xls, or .csv file to upload.',
+        });
     }
 
     try {
@@ -74,112 +68,115 @@ export async function processExcelFile(formData: FormData): Promise<QuoteAnalysi
         // Convert file to ArrayBuffer (in-memory only - zero data retention)
         const buffer = await file.arrayBuffer();
 
-        // Parse Excel file
-        const parseResult = parseExcelBuffer(buffer);
+        // Sheets the user chose to leave out of the analysis
+        const excludedSheets = parseSheetList(formData.get('excludedSheets'));
+
+        // Parse Excel file (all sheets)
+        const parseResult = parseExcelBuffer(buffer, { excludedSheets });
 
         if (!parseResult.success) {
-            return {
-                success: false,
-                fileName: file.name,
-                processedAt: new Date().toISOString(),
-                columnMapping: {
-                    partNumber: null,
-                    quantity: null,
-                    description: null,
-                    unitPrice: null,
-                    unitOfMeasure: null,
-                    notes: null,
-                    terms: null,
-                    headerRow: 1,
-                },
-                rows: [],
-                risks: [{
-                    id: 'error-parse',
-                    type: 'general',
-                    level: 'critical',
-                    title: 'Parse Error',
-                    description: parseResult.error || 'Failed to parse Excel file.',
-                    recommendation: 'Ensure the file is a valid Excel document (.xlsx, .xls) or CSV.',
-                }],
-                summary: {
-                    totalRows: 0,
-                    validRows: 0,
-                    totalRisks: 1,
-                    criticalRisks: 1,
-                    highRisks: 0,
-                    mediumRisks: 0,
-                    lowRisks: 0,
-                },
-            };
+            return errorResult(file.name, {
+                id: 'error-parse',
+                title: 'Parse Error',
+                description: parseResult.error || 'Failed to parse Excel file.',
+                recommendation: 'Ensure the file is a valid Excel document (.xlsx, .xls) or CSV.',
+            }, parseResult);
         }
 
-        // Use AI to map columns (if API key is available)
-        let columnMapping: ColumnMapping;
+        // Each line-item sheet is mapped on its own: sheets of one workbook often name the same column differently
+        const lineItemSheets = parseResult.sheets.filter(sh => sh.included && sh.kind === 'line_items');
+        const primarySheet = lineItemSheets[0];
 
-        const apiKey = process.env.OPENAI_API_KEY;
+        // Known customer templates reuse their saved profile for the primary sheet - no AI call needed
+        const { profile, warning: profileWarning } = await findProfileSafely(primarySheet?.headers ?? parseResult.headers, primarySheet?.name ?? null);
 
-        if (apiKey && parseResult.headers.length > 0) {
-            const openai = createOpenAI({ apiKey });
-
-            const markdownTable = rowsToMarkdown(
-                parseResult.headers,
-                parseResult.rows.slice(0, 5) as Record<string, unknown>[]
-            );
-
-            try {
-                const result = await generateObject({
-                    model: openai('gpt-4o'),
-                    schema: columnMappingSchema,
-                    prompt: `Analyze this Excel data and map columns to a standard quote format.
-
-Available columns: ${parseResult.headers.join(', ')}
-
-Sample data:
-${markdownTable}
+        const apiKey = process.env.OPENAI_API_KEY;
+        const openai = apiKey ? createOpenAI({ apiKey }) : null;
 
-Map these columns to the following fields (use exact column names from the list, or null if not found):
-- partNumber: Column containing part numbers, SKUs, item codes, or product IDs
-- quantity: Column containing quantities, amounts, or order quantities
-- description: Column containing item descriptions, names, or titles
-- unitPrice: Column containing prices, costs, or unit prices
-- unitOfMeasure: Column containing units like each, box, kg, meter, etc.
-- notes: Column containing notes, comments, remarks, or specifications
-- terms: Column containing terms, conditions, shipping info, or delivery terms
+        const sheetColumns = await Promise.all(lineItemSheets.map(async sheet => {
+            const sampleRows = parseResult.rows.filter(row => row.sheetName === sheet.name).slice(0, 5).map(row => row.data);
+            const { columnMapping: mapping, mappingSource, reported } = sheet === primarySheet && profile
+                ? profileColumnMapping(profile)
+                : await mapSheetColumns(openai, sheet, sampleRows);
 
-Also identify the header row number (usually 1).`,
-                });
+            // The detector, not the model, is the source of truth for the header row; a profile keeps the one it was saved with
+            let columnMapping: ColumnMapping = mappingSource === 'profile' ? mapping : { ...mapping, headerRow: sheet.headerRow };
 
-                columnMapping = result.object as ColumnMapping;
-            } catch (aiError) {
-                console.error('AI mapping failed, using fallback:', aiError);
-                columnMapping = fallbackColumnMapping(parseResult.headers);
+            // Quantity-break columns ("Qty 100", "Qty 1000") are found from the headers; a profile keeps its own
+            if (mappingSource !== 'profile') {
+                columnMapping = withQuantityBreaks(columnMapping, sheet.headers);
             }
-        } else {
-            columnMapping = fallbackColumnMapping(parseResult.headers);
-        }
+            return { sheetName: sheet.name, columnMapping, mappingSource, reported };
+        }));
+
+        // Check each mapping against its sheet's real headers and data before trusting it
+        const validation = validateSheetMappings(
+            parseResult.sheets,
+            parseResult.rows,
+            Object.fromEntries(sheetColumns.map(({ sheetName, columnMapping, reported }) => [sheetName, { columnMapping, reported }]))
+        );
+        const primaryMapping = primarySheet ? validation.sheetMappings[primarySheet.name] : null;
+        const columnMapping = primaryMapping?.columnMapping ?? fallbackColumnMapping(parseResult.headers);
+        const mappingSource = sheetColumns[0]?.mappingSource ?? 'fallback';
 
         // Parse rows using the column mapping
         // Apply row limit
         const maxRows = getEffectiveLimit(LIMITS.MAX_ROWS);
-        const rowsToProcess = (parseResult.rows as Record<string, unknown>[]).slice(0, maxRows);
+        const rowsToProcess = parseResult.rows.slice(0, maxRows);
         const wasLimited = parseResult.rows.length > maxRows;
 
-        const parsedRows: ParsedRow[] = rowsToProcess.map((row, index) => {
-            return {
-                rowNumber: index + 2, // 1-indexed, accounting for header row
-                partNumber: String(row[columnMapping.partNumber || ''] ?? ''),
-                quantity: parseQuantity(row[columnMapping.quantity || '']),
-                description: String(row[columnMapping.description || ''] ?? ''),
-                unitPrice: parsePrice(row[columnMapping.unitPrice || '']),
-                unitOfMeasure: String(row[columnMapping.unitOfMeasure || ''] ?? ''),
-                notes: String(row[columnMapping.notes || ''] ?? ''),
-                // Ensure rawData is a plain object safely
-                rawData: JSON.parse(JSON.stringify(row)),
-            };
+        const mappedRows = mapSheetRows(rowsToProcess, validation.sheetMappings, {
+            rawText: parseResult.rawText,
+            unitConversions: profile?.unitConversions,
         });
 
-        // Run risk detection
-        const risks = analyzeAllRisks(parseResult.rawText, parsedRows);
+        // Indented BOMs: level, parent and rolled-up quantity per row
+        const { rows: bomRows, bom } = resolveHierarchy(rowsToProcess, mappedRows);
+
+        // Run risk detection with the profile's rule set (or the default one)
+        const { ruleSet, warning: ruleWarning } = await loadRuleSetSafely(profile?.ruleSet ?? null);
+
+        // Look line items up in the local part catalog; the catalog itself stays on the server
+        const { catalog, warning: catalogWarning } = await loadCatalogSafely();
+        const catalogRows = catalog
+            ? withCatalogMatches(bomRows, matchRowsToCatalog(bomRows, catalog.entries, ruleSet.thresholds))
+            : bomRows;
+
+        // Discontinued and end-of-life parts, from the lifecycle list
+        const { list: lifecycleList, warning: lifecycleWarning } = await loadLifecycleSafely();
+        const lifecycleRows = lifecycleList
+            ? withLifecycleEntries(catalogRows, matchRowsToLifecycle(catalogRows, lifecycleList.entries, ruleSet.thresholds.partNumbers))
+            : catalogRows;
+
+        // Cost from the price book, then sell prices from the pricing rules for the default customer tier
+        const { book: priceBook, warning: priceBookWarning } = await loadPriceBookSafely();
+        const { config: pricing, warning: pricingWarning } = await loadPricingConfigSafely();
+        const costedRows = priceBook
+            ? withPriceBookEntries(lifecycleRows, matchRowsToPriceBook(lifecycleRows, priceBook.entries, ruleSet.thresholds.partNumbers))
+            : lifecycleRows;
+        const parsedRows = withPricing(costedRows, pricing, pricing.defaultTier);
+
+        const currency = detectFileCurrency(parsedRows, columnMapping, parseResult.rawText);
+        const risks = uniqueRiskIds([...validation.risks, ...analyzeAllRisks(parseResult.rawText, parseResult.cells, parsedRows, ruleSet, termsColumns(validation.sheetMappings))]);
+
+        if (ruleWarning) {
+            risks.unshift(ruleWarning);
+        }
+        if (profileWarning) {
+            risks.unshift(profileWarning);
+        }
+        if (catalogWarning) {
+            risks.unshift(catalogWarning);
+        }
+        if (lifecycleWarning) {
+            risks.unshift(lifecycleWarning);
+        }
+        if (priceBookWarning) {
+            risks.unshift(priceBookWarning);
+        }
+        if (pricingWarning) {
+            risks.unshift(pricingWarning);
+        }
 
         // Add warning if rows were limited
         if (wasLimited && shouldEnforceLimit()) {
@@ -193,89 +190,347 @@ Also identify the header row number (usually 1).`,
             });
         }
 
-        // Calculate summary
-        const validRows = parsedRows.filter(r => r.partNumber && r.partNumber.trim() !== '').length;
-
-        const summary = {
-            totalRows: parsedRows.length,
-            validRows,
-            totalRisks: risks.length,
-            criticalRisks: risks.filter(r => r.level === 'critical').length,
-            highRisks: risks.filter(r => r.level === 'high').length,
-            mediumRisks: risks.filter(r => r.level === 'medium').length,
-            lowRisks: risks.filter(r => r.level === 'low').length,
-        };
+        // Warn when the workbook has content but nothing that looks like a BOM
+        if (lineItemSheets.length === 0) {
+            risks.unshift({
+                id: 'warning-no-line-items',
+                type: 'general',
+                level: 'high',
+                title: 'No Line-Item Sheet Detected',
+                description: `None of the included sheets (${parseResult.sheets.filter(sh => sh.included).map(sh => sh.name).join(', ') || 'none'}) look like a line-item table.`,
+                recommendation: 'Check the sheet selection, or confirm with the customer which sheet holds the BOM.',
+            });
+        }
+
+        // Calculate summary and deal score
+        const summary = buildSummary(parsedRows, risks, {}, ruleSet.thresholds.dealScore);
 
         return {
             success: true,
             fileName: file.name,
             processedAt: new Date().toISOString(),
             columnMapping,
+            mappingSource,
+            mappingAssessment: primaryMapping?.mappingAssessment ?? [],
+            sheetMappings: validation.sheetMappings,
+            mappingProfile: profile
+                ? { id: profile.id, name: profile.name, unitConversions: profile.unitConversions }
+                : null,
+            headers: parseResult.headers,
+            rawText: parseResult.rawText,
+            cells: parseResult.cells,
+            currency,
+            sheets: parseResult.sheets,
             rows: parsedRows,
+            bom,
+            catalog: catalog ? catalogInfo(catalog) : null,
+            lifecycleList: lifecycleList ? lifecycleListInfo(lifecycleList) : null,
+            priceBook: priceBook ? priceBookInfo(priceBook) : null,
+            pricing,
+            customerTier: pricing.defaultTier,
+            riskRules: ruleSet,
             risks,
+            reviews: {},
             summary,
         };
 
     } catch (error) {
         console.error('Processing error:', error);
+        return errorResult(file.name, {
+            id: 'error-processing',
+            title: 'Processing Error',
+            description: error instanceof Error ? error.message : 'An unexpected error occurred.',
+            recommendation: 'Please try again or contact support if the issue persists.',
+        });
+    }
+}
+
+/**
+ * Failed analysis: no rows, and a single critical risk saying why; whatever was parsed is kept
+ */
+function errorResult(
+    fileName: string,
+    error: Pick<RiskFlag, 'id' | 'title' | 'description' | 'recommendation'>,
+    parsed: Pick<QuoteAnalysis, 'headers' | 'rawText' | 'cells' | 'sheets'> = { headers: [], rawText: '', cells: [], sheets: [] }
+): QuoteAnalysis {
+    return {
+        success: false,
+        fileName,
+        processedAt: new Date().toISOString(),
+        columnMapping: fallbackColumnMapping([]),
+        mappingSource: 'fallback',
+        mappingAssessment: [],
+        sheetMappings: {},
+        mappingProfile: null,
+        headers: parsed.headers,
+        rawText: parsed.rawText,
+        cells: parsed.cells,
+        currency: null,
+        sheets: parsed.sheets,
+        rows: [],
+        bom: null,
+        catalog: null,
+        lifecycleList: null,
+        priceBook: null,
+        pricing: DEFAULT_PRICING_CONFIG,
+        customerTier: null,
+        riskRules: DEFAULT_RULE_SET,
+        risks: [{ ...error, type: 'general', level: 'critical' }],
+        reviews: {},
+        summary: {
+            totalRows: 0,
+            validRows: 0,
+            totalRisks: 1,
+            criticalRisks: 1,
+            highRisks: 0,
+            mediumRisks: 0,
+            lowRisks: 0,
+            reviewedRisks: 0,
+            dealScore: null,
+        },
+    };
+}
+
+interface SheetColumns {
+    columnMapping: ColumnMapping;
+    mappingSource: MappingSource;
+    reported: ReportedAssessments;
+}
+
+/**
+ * The column mapping saved in a profile
+ */
+function profileColumnMapping(profile: MappingProfile): SheetColumns {
+    return {
+        // Fields added after the profile was saved stay unmapped
+        columnMapping: { ...fallbackColumnMapping([]), ...profile.columnMapping },
+        mappingSource: 'profile',
+        reported: Object.fromEntries(
+            MAPPABLE_FIELDS.map(({ field }) => [field, { confidence: 1, rationale: `Saved in profile "${profile.name}".`, source: 'user' as const }])
+        ),
+    };
+}
+
+/**
+ * Map one sheet's columns with AI (if an API key is available), falling back to header keywords
+ */
+async function mapSheetColumns(
+    openai: ReturnType<typeof createOpenAI> | null,
+    sheet: SheetInfo,
+    sampleRows: Record<string, unknown>[]
+): Promise<SheetColumns> {
+    if (!openai || sheet.headers.length === 0) {
+        return { columnMapping: fallbackColumnMapping(sheet.headers), mappingSource: 'fallback', reported: {} };
+    }
+
+    const markdownTable = rowsToMarkdown(sheet.headers, sampleRows);
+
+    try {
+        const result = await generateObject({
+            model: openai('gpt-4o'),
+            schema: columnMappingSchema,
+            prompt: `Analyze this Excel data and map columns to a standard quote format.
+
+Sheet: ${sheet.name}
+Available columns: ${sheet.headers.join(', ')}
+
+Sample data:
+${markdownTable}
+
+Map these columns to the following fields (use exact column names from the list, or null if not found):
+- partNumber: Column containing part numbers, SKUs, item codes, or product IDs
+- quantity: Column containing quantities, amounts, or order quantities
+- description: Column containing item descriptions, names, or titles
+- unitPrice: Column containing prices, costs, or unit prices (price for ONE unit)
+- extendedPrice: Column containing extended prices or line totals (quantity × unit price), e.g. "Ext. Price", "Line Total"
+- currency: Column containing currency codes or symbols (USD, EUR, €)
+- unitOfMeasure: Column containing units like each, box, kg, meter, etc.
+- manufacturer: Column containing manufacturer, brand, or make
+- leadTime: Column containing lead times or delivery times (e.g. "4 weeks", "Stock")
+- moq: Column containing minimum order quantities (e.g. "MOQ", "Min Order Qty")
+- packMultiple: Column containing pack or order multiples the item is sold in (e.g. "SPQ", "Order Multiple", "Pack Qty")
+- notes: Column containing notes, comments, remarks, or specifications
+- terms: Column containing terms, conditions, shipping info, or delivery terms
+
+For every field you map, add a fieldConfidence entry with a confidence between 0 and 1 and a one-sentence rationale
+based on the header name and the sample values (e.g. "Header says Qty and all samples are integers").
+Use a low confidence when the header is ambiguous or the values do not look like the field.
+
+The header row has already been detected at row ${sheet.headerRow}; return it as headerRow.`,
+        });
+
+        const { fieldConfidence, ...mapping } = result.object;
         return {
-            success: false,
-            fileName: file.name,
-            processedAt: new Date().toISOString(),
-            columnMapping: {
-                partNumber: null,
-                quantity: null,
-                description: null,
-                unitPrice: null,
-                unitOfMeasure: null,
-                notes: null,
-                terms: null,
-                headerRow: 1,
-            },
-            rows: [],
-            risks: [{
-                id: 'error-processing',
+            columnMapping: { ...mapping, quantityBreaks: [] },
+            mappingSource: 'ai',
+            reported: Object.fromEntries(
+                fieldConfidence.map(({ field, confidence, rationale }) => [field, { confidence, rationale, source: 'ai' as const }])
+            ),
+        };
+    } catch (aiError) {
+        console.error(`AI mapping of sheet "${sheet.name}" failed, using fallback:`, aiError);
+        return { columnMapping: fallbackColumnMapping(sheet.headers), mappingSource: 'fallback', reported: {} };
+    }
+}
+
+/**
+ * Look up a saved mapping profile; a broken profile store must never block processing,
+ * and invalid profiles become a warning on the analysis
+ */
+async function findProfileSafely(headers: string[], sheetName: string | null): Promise<{ profile: MappingProfile | null; warning: RiskFlag | null }> {
+    if (headers.length === 0) return { profile: null, warning: null };
+    try {
+        const { profile, errors } = await findMatchingProfile(headers, sheetName);
+        return {
+            profile,
+            warning: errors.length > 0
+                ? {
+                    id: 'warning-mapping-profiles',
+                    type: 'general',
+                    level: 'low',
+                    title: 'Mapping Profiles Not Fully Loaded',
+                    description: errors.join(' '),
+                    recommendation: 'Fix or remove the invalid entries in the mapping profiles file. Saving and deleting profiles is disabled until then.',
+                }
+                : null,
+        };
+    } catch (error) {
+        console.error('Mapping profile lookup failed, continuing without profile:', error);
+        return { profile: null, warning: null };
+    }
+}
+
+/**
+ * Load the part catalog; a broken catalog file must never block processing and becomes a warning
+ */
+async function loadCatalogSafely(): Promise<{ catalog: PartCatalog | null; warning: RiskFlag | null }> {
+    try {
+        return { catalog: await loadPartCatalog(), warning: null };
+    } catch (error) {
+        console.error('Part catalog loading failed, continuing without catalog:', error);
+        return {
+            catalog: null,
+            warning: {
+                id: 'warning-part-catalog',
                 type: 'general',
-                level: 'critical',
-                title: 'Processing Error',
-                description: error instanceof Error ? error.message : 'An unexpected error occurred.',
-                recommendation: 'Please try again or contact support if the issue persists.',
-            }],
-            summary: {
-                totalRows: 0,
-                validRows: 0,
-                totalRisks: 1,
-                criticalRisks: 1,
-                highRisks: 0,
-                mediumRisks: 0,
-                lowRisks: 0,
+                level: 'medium',
+                title: 'Part Catalog Not Applied',
+                description: error instanceof Error ? error.message : String(error),
+                recommendation: 'Import the item master again. Line items were not checked against the catalog.',
             },
         };
     }
 }
 
 /**
- * Fallback column mapping using common header patterns
+ * Load the risk rule set; broken rule files are reported as a warning, never fatal
  */
-function fallbackColumnMapping(headers: string[]): ColumnMapping {
-    const lowerHeaders = headers.map(h => h.toLowerCase());
+async function loadRuleSetSafely(name: string | null): Promise<{ ruleSet: RiskRuleSet; warning: RiskFlag | null }> {
+    try {
+        const { ruleSet, errors } = await getRiskRuleSet(name);
+        return {
+            ruleSet,
+            warning: errors.length > 0
+                ? {
+                    id: 'warning-risk-rules',
+                    type: 'general',
+                    level: 'medium',
+                    title: 'Risk Rules Not Fully Applied',
+                    description: errors.map(e => e.file === '-' ? e.message : `${e.file}: ${e.message}`).join(' '),
+                    recommendation: `Fix the rule files listed above. This analysis used the "${ruleSet.name}" rule set.`,
+                }
+                : null,
+        };
+    } catch (error) {
+        console.error('Risk rule loading failed, using built-in rules:', error);
+        return { ruleSet: DEFAULT_RULE_SET, warning: null };
+    }
+}
 
-    const findColumn = (patterns: string[]): string | null => {
-        for (const pattern of patterns) {
-            const index = lowerHeaders.findIndex(h => h.includes(pattern));
-            if (index !== -1) return headers[index];
-        }
-        return null;
-    };
+/**
+ * Load the lifecycle list; problems become a warning on the analysis rather than blocking it
+ */
+async function loadLifecycleSafely(): Promise<{ list: PartLifecycleList | null; warning: RiskFlag | null }> {
+    try {
+        const { list, errors } = await loadLifecycleList();
+        return {
+            list,
+            warning: errors.length > 0
+                ? {
+                    id: 'warning-lifecycle-list',
+                    type: 'general',
+                    level: 'medium',
+                    title: 'Lifecycle List Not Fully Applied',
+                    description: errors.join(' '),
+                    recommendation: 'Fix the lifecycle list file. Parts missing from it were not checked for end of life.',
+                }
+                : null,
+        };
+    } catch (error) {
+        console.error('Lifecycle list loading failed, continuing without it:', error);
+        return { list: null, warning: null };
+    }
+}
 
-    return {
-        partNumber: findColumn(['part', 'sku', 'item', 'product', 'code', 'p/n', 'pn', 'number']),
-        quantity: findColumn(['qty', 'quantity', 'amount', 'count', 'units', 'order']),
-        description: findColumn(['description', 'desc', 'name', 'title', 'product name']),
-        unitPrice: findColumn(['price', 'cost', 'unit price', 'rate', 'amount']),
-        unitOfMeasure: findColumn(['uom', 'unit', 'measure', 'um']),
-        notes: findColumn(['notes', 'comment', 'remark', 'spec', 'specification']),
-        terms: findColumn(['terms', 'condition', 'shipping', 'delivery', 'incoterm']),
-        headerRow: 1,
-    };
+/**
+ * Load the price book; problems become a warning on the analysis rather than blocking it
+ */
+async function loadPriceBookSafely(): Promise<{ book: PriceBook | null; warning: RiskFlag | null }> {
+    try {
+        const { book, errors } = await loadPriceBook();
+        return {
+            book,
+            warning: errors.length > 0
+                ? {
+                    id: 'warning-price-book',
+                    type: 'general',
+                    level: 'medium',
+                    title: 'Price Book Not Fully Applied',
+                    description: errors.join(' '),
+                    recommendation: 'Fix the price book file. Parts missing from it were not priced.',
+                }
+                : null,
+        };
+    } catch (error) {
+        console.error('Price book loading failed, continuing without it:', error);
+        return { book: null, warning: null };
+    }
+}
+
+/**
+ * Load the pricing rules; a broken rules file is reported and the default margin applies
+ */
+async function loadPricingConfigSafely(): Promise<{ config: PricingConfig; warning: RiskFlag | null }> {
+    try {
+        const { config, errors } = await loadPricingConfig();
+        return {
+            config,
+            warning: errors.length > 0
+                ? {
+                    id: 'warning-pricing-rules',
+                    type: 'general',
+                    level: 'medium',
+                    title: 'Pricing Rules Not Applied',
+                    description: errors.join(' '),
+                    recommendation: `Fix the pricing rules file. This analysis priced every part at the default ${config.defaultMarginPercent}% margin.`,
+                }
+                : null,
+        };
+    } catch (error) {
+        console.error('Pricing rules loading failed, using the default margin:', error);
+        return { config: DEFAULT_PRICING_CONFIG, warning: null };
+    }
+}
+
+/**
+ * Read a JSON-encoded list of sheet names from form data
+ */
+function parseSheetList(value: FormDataEntryValue | null): string[] {
+    if (typeof value !== 'string' || value === '') return [];
+    try {
+        const parsed: unknown = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === 'string') : [];
+    } catch {
+        return [];
+    }
 }
@@ -0,0 +1,22 @@
+'use server';
+
+import { loadRiskRuleSets } from '@/lib/riskRuleLoader';
+
+/**
+ * List the available risk rule sets (for assigning one to a mapping profile)
+ */
+export async function listRuleSets(): Promise<{
+    ruleSets: { name: string; description?: string; ruleCount: number }[];
+    errors: { file: string; message: string }[];
+}> {
+    try {
+        const { ruleSets, errors } = await loadRiskRuleSets();
+        return {
+            ruleSets: ruleSets.map(set => ({ name: set.name, description: set.description, ruleCount: set.rules.length })),
+            errors,
+        };
+    } catch (error) {
+        console.error('Failed to load risk rule sets:', error);
+        return { ruleSets: [], errors: [{ file: '-', message: 'Rule sets could not be loaded.' }] };
+    }
+}
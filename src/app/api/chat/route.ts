@@ -3,7 +3,15 @@ import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { z } from 'zod';
 import { storeFixedRows, applyQuantityFixes, findMissingQuantities } from '@/lib/excelExport';
 import { LIMITS, shouldEnforceLimit, getEffectiveLimit } from '@/lib/limits';
-import type { ParsedRow, ColumnMapping } from '@/types/quote';
+import { LIFECYCLE_STATUS_LABELS } from '@/lib/lifecycle';
+import { withCatalogMatches, withDerivedValues, withLifecycleEntries, withPriceBookEntries } from '@/lib/quoteBuilder';
+import { matchCatalog } from '@/app/actions/partCatalog';
+import { matchLifecycle } from '@/app/actions/partLifecycle';
+import { matchPriceBook } from '@/app/actions/priceBook';
+import { findOrderQuantityIssues } from '@/lib/orderQuantities';
+import { DEFAULT_PRICING_CONFIG, quoteTotals } from '@/lib/pricing';
+import { formatRowRefs, rowKey, rowKeys, sameRow } from '@/lib/rowRefs';
+import type { ParsedRow, PricingConfig, RiskFlag, RowRef, SheetInfo } from '@/types/quote';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -20,13 +28,18 @@ You have access to the user's uploaded BOM analysis (summary, risks, rows) relat
 2. **Be Helpful but controlled:** If the file has risks, explain them clearly. You may PROPOSE a fix, but do NOT execute the 'fix_missing_quantities' or other modification tools unless the user explicitly asks you to (e.g., "fix it", "yes", "go ahead").
 3. **Tool Usage:** You CAN now fix issues and generate download links. When the user asks to fix or modify data:
    - Use 'fix_missing_quantities' to fix rows with missing quantity values
+   - Use 'fix_order_quantities' to round quantities below the MOQ or outside pack multiples up to the quoted quantity
    - Use 'update_cell_value' to change a specific cell value (e.g., change quantity from 3 to 4)
    - Use 'delete_rows' to remove specific rows (e.g. "remove row 5 and 6")
+   - Rows are named by sheet and row number (the 'sheetName' and 'rowNumber' fields): workbooks with several line-item sheets have a "row 5" on each
    - Use 'clear_column' to clear all data in a specific column (e.g. "clear the Unit Price column", "remove the quantity column", "delete the notes column")
+   - Use 'replace_obsolete_parts' to swap NRND, last-time-buy or obsolete parts for the successor named in the row's 'lifecycle' field
    - Use 'generate_corrected_download' to create a download link for the corrected file
 4. **Role:** Act as a senior Sales Engineer—strategic, precise, and helpful.
 5. **Reference Resolution:** If the user gives a COMMAND like "fix it" or "remove that row", look at the context to infer intent. However, if the user asks a QUESTION like "what is the issue?", ONLY explain the issue. Do NOT fix it until they say so.
 6. **Command Override:** If the user asks to "remove" or "delete" a column, you MUST use the 'clear_column' tool. Do NOT say "I cannot remove the column". Just clear the data and say "Removed data from [column name] column". this is the expected behavior for this application.
+7. **End-of-Life Parts:** Rows with a 'lifecycle' field are on the lifecycle list. When one is obsolete, NRND or last-time-buy and has a 'replacement', PROPOSE the successor part and explain why; only call 'replace_obsolete_parts' once the user agrees.
+8. **Risk IDs:** Every risk has a stable 'id' (e.g. "incoterm-3fa92c1e"): the detector name followed by a hash of its evidence. Quote the id when you refer to a specific risk so the user can find it in the risk panel and report, and match reviews to risks by id.
 
 
 **Analysis Categories:**
@@ -34,6 +47,31 @@ You have access to the user's uploaded BOM analysis (summary, risks, rows) relat
 - **Risk Assessment**: Incoterms, LDs, UoM conflicts.
 - **Strategy**: Pricing & Margins.`;
 
+// Rows are named by sheet and row number; row numbers repeat across line-item sheets
+const rowRefSchema = z.object({
+    sheetName: z.string().describe('The sheet of the row (from the sheetName field in the data)'),
+    rowNumber: z.number().describe('The row number (from the rowNumber field in the data)'),
+});
+
+// Part catalog and price book data (list prices, costs, …) never leaves the server for the AI provider,
+// nor do row prices and margins, which give the cost away; only quote totals are sent
+function withoutCatalogData(row: ParsedRow): ParsedRow {
+    return {
+        ...row,
+        catalogMatch: null,
+        cost: null,
+        pricing: null,
+        quantityTiers: row.quantityTiers.map(tier => ({ ...tier, pricing: null })),
+    };
+}
+
+// Margin risks quote each row's sell price and margin; the AI gets the rows, not the figures
+function withoutMarginData(risk: RiskFlag): RiskFlag {
+    return risk.type === 'margin' && risk.id.startsWith('margin-')
+        ? { ...risk, description: `${risk.title}: ${formatRowRefs(risk.affectedRows ?? [])}`, extractedValue: undefined }
+        : risk;
+}
+
 export async function POST(req: Request) {
     const { messages, analysis } = await req.json();
 
@@ -74,25 +112,33 @@ export async function POST(req: Request) {
 
     // Store current state for this request
     let currentRows: ParsedRow[] = analysis?.rows ?? [];
-    const currentColumnMapping: ColumnMapping = analysis?.columnMapping ?? {
-        partNumber: null,
-        quantity: null,
-        description: null,
-        unitPrice: null,
-        unitOfMeasure: null,
-        notes: null,
-        terms: null,
-        headerRow: 1,
+    const currentRisks: RiskFlag[] = analysis?.risks ?? [];
+    const pricing: PricingConfig = analysis?.pricing ?? DEFAULT_PRICING_CONFIG;
+    const customerTier: string | null = analysis?.customerTier ?? null;
+    const appliedRemediations: Array<RowRef & { quantity: number; reason: string }> = [];
+
+    // Look edited or swapped parts up on the lifecycle list, in the price book and in the part catalog
+    const withPartLookups = async (rows: ParsedRow[]): Promise<ParsedRow[]> => {
+        const thresholds = analysis.riskRules.thresholds;
+        const [{ entries: lifecycles }, { entries: costs }, { matches }] = await Promise.all([
+            matchLifecycle(rows, thresholds.partNumbers),
+            matchPriceBook(rows, thresholds.partNumbers),
+            matchCatalog(rows, thresholds),
+        ]);
+        return withCatalogMatches(withPriceBookEntries(withLifecycleEntries(rows, lifecycles), costs), matches);
     };
-    const appliedRemediations: Array<{ rowNumber: number; quantity: number; reason: string }> = [];
 
     const contextPart = analysis ? `
 \n=== CURRENT FILE ANALYSIS ===
 File Name: "${analysis.fileName}"
 Summary: ${JSON.stringify(analysis.summary)}
-Risk Assessment: ${JSON.stringify(analysis.risks)}
-Valid Rows (First 50): ${JSON.stringify(analysis.rows?.slice(0, 50) ?? [])}
+Sheets: ${JSON.stringify((analysis.sheets ?? []).map((sheet: SheetInfo) => ({ name: sheet.name, kind: sheet.kind, included: sheet.included, rowCount: sheet.rowCount })))}
+Risk Assessment: ${JSON.stringify((analysis.risks ?? []).map(withoutMarginData))}
+Risk Reviews (acknowledged/waived/resolved risks; all others are open): ${JSON.stringify(Object.values(analysis.reviews ?? {}))}
+Valid Rows (First 50): ${JSON.stringify((analysis.rows ?? []).slice(0, 50).map(withoutCatalogData))}
 Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? []))}
+Rows Below MOQ or Not in Pack Multiples (requested → quoted quantity): ${JSON.stringify(findOrderQuantityIssues(analysis.rows ?? []).map(issue => ({ sheetName: issue.row.sheetName, rowNumber: issue.row.rowNumber, requested: issue.requested, quoted: issue.quoted })))}
+Quote Totals per Currency (customer tier "${customerTier ?? 'none'}"): ${JSON.stringify(quoteTotals(analysis.rows ?? []).map(({ currency, sell, pricedRows }) => ({ currency, sell, pricedRows })))}
 (Note: Only first 50 rows included for brevity. Ask user if specific details needed for others.)
 === END ANALYSIS ===
 ` : '';
@@ -109,21 +155,22 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
             description: 'Fix rows that have missing or null quantity values. Returns the number of rows fixed and the changes made. Call this when the user asks to fix missing quantities or data issues.',
             inputSchema: z.object({
                 defaultQuantity: z.number().default(1).describe('Default quantity value to use for missing entries'),
-                affectedRowNumbers: z.array(z.number()).optional().describe('Specific row numbers to fix. If not provided, all rows with missing quantities will be fixed.'),
+                affectedRows: z.array(rowRefSchema).optional().describe('Specific rows to fix. If not provided, all rows with missing quantities will be fixed.'),
             }),
-            execute: async ({ defaultQuantity, affectedRowNumbers }) => {
-                const missingRows = affectedRowNumbers ?? findMissingQuantities(currentRows);
+            execute: async ({ defaultQuantity, affectedRows }) => {
+                const missingRows = affectedRows ?? findMissingQuantities(currentRows);
 
                 // Create fixes
-                const fixes = missingRows.map(rowNum => ({
-                    rowNumber: rowNum,
+                const fixes = missingRows.map(({ sheetName, rowNumber }) => ({
+                    sheetName,
+                    rowNumber,
                     quantity: defaultQuantity,
                     reason: `Auto-fixed: Set missing quantity to ${defaultQuantity}`,
                 }));
 
                 // Apply fixes
                 const { fixedRows, remediations } = applyQuantityFixes(currentRows, fixes);
-                currentRows = fixedRows;
+                currentRows = withDerivedValues(fixedRows, pricing, customerTier);
                 appliedRemediations.push(...fixes);
 
                 console.log(`Fixed ${remediations.length} rows with missing quantities`);
@@ -131,9 +178,9 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
                 // Generate download for this modification
                 const downloadResult = storeFixedRows(
                     currentRows,
-                    currentColumnMapping,
                     analysis?.fileName ?? 'corrected_data.xlsx',
                     fixes.map(fix => ({
+                        sheetName: fix.sheetName,
                         rowNumber: fix.rowNumber,
                         field: 'quantity' as const,
                         oldValue: null,
@@ -153,6 +200,54 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
             },
         }),
 
+        fix_order_quantities: tool({
+            description: 'Round requested quantities that are below the minimum order quantity (MOQ) or not a whole number of packs up to the quoted quantity. Returns the rows changed. Call this when the user asks to fix MOQ or pack multiple issues.',
+            inputSchema: z.object({
+                affectedRows: z.array(rowRefSchema).optional().describe('Specific rows to fix. If not provided, all rows below MOQ or outside pack multiples will be fixed.'),
+            }),
+            execute: async ({ affectedRows }) => {
+                const issues = findOrderQuantityIssues(currentRows)
+                    .filter(issue => !affectedRows || affectedRows.some(ref => sameRow(ref, issue.row)));
+
+                // Create fixes
+                const fixes = issues.map(issue => ({
+                    sheetName: issue.row.sheetName,
+                    rowNumber: issue.row.rowNumber,
+                    quantity: issue.quoted,
+                    reason: `Auto-fixed: Rounded quantity ${issue.requested} up to ${issue.quoted} (${[
+                        issue.rules.moq !== null ? `MOQ ${issue.rules.moq}` : '',
+                        issue.rules.packMultiple !== null ? `pack multiple ${issue.rules.packMultiple}` : '',
+                    ].filter(Boolean).join(', ')})`,
+                }));
+
+                // Apply fixes
+                const { fixedRows, remediations } = applyQuantityFixes(currentRows, fixes);
+                currentRows = withDerivedValues(fixedRows, pricing, customerTier);
+                appliedRemediations.push(...fixes);
+
+                console.log(`Rounded up ${remediations.length} quantities to MOQ / pack multiples`);
+
+                // Generate download for this modification
+                const downloadResult = storeFixedRows(
+                    currentRows,
+                    analysis?.fileName ?? 'corrected_data.xlsx',
+                    remediations
+                );
+
+                return {
+                    success: true,
+                    fixedCount: remediations.length,
+                    affectedRows: fixes.map(({ sheetName, rowNumber }) => ({ sheetName, rowNumber })),
+                    quantities: fixes.map(({ sheetName, rowNumber, quantity }) => ({ sheetName, rowNumber, quantity })),
+                    message: remediations.length > 0
+                        ? `Rounded ${remediations.length} quantities up to the MOQ or the next full pack.`
+                        : 'No quantities are below the MOQ or outside pack multiples.',
+                    downloadUrl: `/api/download/${downloadResult.token}`,
+                    fileName: downloadResult.fileName,
+                };
+            },
+        }),
+
         generate_corrected_download: tool({
             description: 'Generate a corrected Excel file with all applied fixes and return a download link. Call this after fixing data issues when the user wants to download the corrected file.',
             inputSchema: z.object({
@@ -162,9 +257,9 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
                 // Store the corrected data and get download token
                 const downloadResult = storeFixedRows(
                     currentRows,
-                    currentColumnMapping,
                     analysis?.fileName ?? 'corrected_data.xlsx',
                     appliedRemediations.map(fix => ({
+                        sheetName: fix.sheetName,
                         rowNumber: fix.rowNumber,
                         field: 'quantity' as const,
                         oldValue: null,
@@ -188,24 +283,25 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
         update_cell_value: tool({
             description: 'Update a specific cell value in a row. Use this to change existing values like quantity, unit price, description, or notes. For example: change quantity from 3 to 4 in row 2.',
             inputSchema: z.object({
+                sheetName: z.string().describe('The sheet of the row to update (from the sheetName field in the data)'),
                 rowNumber: z.number().describe('The row number to update (from the rowNumber field in the data)'),
-                field: z.enum(['quantity', 'unitPrice', 'description', 'notes', 'partNumber', 'unitOfMeasure']).describe('The field/column to update'),
+                field: z.enum(['quantity', 'unitPrice', 'extendedPrice', 'description', 'notes', 'partNumber', 'unitOfMeasure', 'manufacturer', 'leadTime']).describe('The field/column to update'),
                 newValue: z.union([z.string(), z.number()]).describe('The new value to set'),
             }),
-            execute: async ({ rowNumber, field, newValue }) => {
-                const rowIndex = currentRows.findIndex(r => r.rowNumber === rowNumber);
+            execute: async ({ sheetName, rowNumber, field, newValue }) => {
+                const rowIndex = currentRows.findIndex(r => sameRow(r, { sheetName, rowNumber }));
 
                 if (rowIndex === -1) {
                     return {
                         success: false,
-                        message: `Row ${rowNumber} not found in the data.`,
+                        message: `Row ${rowNumber} of sheet "${sheetName}" not found in the data.`,
                     };
                 }
 
                 const oldValue = currentRows[rowIndex][field];
 
                 // Update the value based on field type
-                if (field === 'quantity' || field === 'unitPrice') {
+                if (field === 'quantity' || field === 'unitPrice' || field === 'extendedPrice') {
                     currentRows[rowIndex] = {
                         ...currentRows[rowIndex],
                         [field]: typeof newValue === 'number' ? newValue : parseFloat(String(newValue)),
@@ -217,21 +313,30 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
                     };
                 }
 
+                // The catalog match, lifecycle entry and cost belong to the old part; the catalog match to the old description too
+                if (field === 'partNumber' || field === 'description') {
+                    [currentRows[rowIndex]] = await withPartLookups([currentRows[rowIndex]]);
+                }
+
+                // Rolled-up BOM, base and quoted quantities and prices follow the edit
+                currentRows = withDerivedValues(currentRows, pricing, customerTier);
+
                 // Track the remediation
                 appliedRemediations.push({
+                    sheetName,
                     rowNumber,
                     quantity: field === 'quantity' ? (typeof newValue === 'number' ? newValue : parseFloat(String(newValue))) : 0,
                     reason: `Updated ${field} from ${oldValue} to ${newValue}`,
                 });
 
-                console.log(`Updated row ${rowNumber}: ${field} = ${newValue}`);
+                console.log(`Updated ${sheetName} row ${rowNumber}: ${field} = ${newValue}`);
 
                 // Generate download for this modification
                 const downloadResult = storeFixedRows(
                     currentRows,
-                    currentColumnMapping,
                     analysis?.fileName ?? 'corrected_data.xlsx',
                     [{
+                        sheetName,
                         rowNumber,
                         field: field as 'quantity' | 'unitPrice' | 'description',
                         oldValue,
@@ -242,11 +347,12 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
 
                 return {
                     success: true,
+                    sheetName,
                     rowNumber,
                     field,
                     oldValue,
                     newValue,
-                    message: `Updated ${field} in row ${rowNumber} from ${oldValue} to ${newValue}.`,
+                    message: `Updated ${field} in row ${rowNumber} of sheet "${sheetName}" from ${oldValue} to ${newValue}.`,
                     downloadUrl: `/api/download/${downloadResult.token}`,
                     fileName: downloadResult.fileName,
                 };
@@ -256,31 +362,34 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
         delete_rows: tool({
             description: 'Delete specific rows from the data. Use this when the user wants to remove items.',
             inputSchema: z.object({
-                rowNumbers: z.array(z.number()).describe('The list of row numbers to delete'),
+                rows: z.array(rowRefSchema).describe('The rows to delete'),
             }),
-            execute: async ({ rowNumbers }) => {
+            execute: async ({ rows }) => {
                 const originalCount = currentRows.length;
-                currentRows = currentRows.filter(r => !rowNumbers.includes(r.rowNumber));
+                const deleted = rowKeys(rows);
+                // Components of a deleted assembly count as top level again
+                currentRows = withDerivedValues(currentRows.filter(r => !deleted.has(rowKey(r))), pricing, customerTier);
                 const deletedCount = originalCount - currentRows.length;
 
                 // Track remediation (generic reason)
-                rowNumbers.forEach(rowNum => {
+                rows.forEach(({ sheetName, rowNumber }) => {
                     appliedRemediations.push({
-                        rowNumber: rowNum,
+                        sheetName,
+                        rowNumber,
                         quantity: 0,
                         reason: 'Row deleted by user request',
                     });
                 });
 
-                console.log(`Deleted ${deletedCount} rows: ${rowNumbers.join(', ')}`);
+                console.log(`Deleted ${deletedCount} rows: ${formatRowRefs(rows)}`);
 
                 // Generate download for this modification
                 const downloadResult = storeFixedRows(
                     currentRows,
-                    currentColumnMapping,
                     analysis?.fileName ?? 'corrected_data.xlsx',
-                    rowNumbers.map(rn => ({
-                        rowNumber: rn,
+                    rows.map(({ sheetName, rowNumber }) => ({
+                        sheetName,
+                        rowNumber,
                         field: 'quantity' as const,
                         oldValue: 'ROW',
                         newValue: 'DELETED',
@@ -291,7 +400,7 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
                 return {
                     success: true,
                     deletedCount,
-                    rowNumbers,
+                    rows,
                     message: `Deleted ${deletedCount} rows from the data.`,
                     downloadUrl: `/api/download/${downloadResult.token}`,
                     fileName: downloadResult.fileName,
@@ -299,28 +408,114 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
             },
         }),
 
+        replace_obsolete_parts: tool({
+            description: 'Replace NRND, last-time-buy or obsolete parts with the successor part from the lifecycle list (the "replacement" in the row\'s "lifecycle" field). Call this only after the user agreed to the swap.',
+            inputSchema: z.object({
+                rows: z.array(rowRefSchema).optional().describe('Rows to update. If not provided, every row with a listed successor is updated.'),
+            }),
+            execute: async ({ rows }) => {
+                const swaps = currentRows
+                    .filter(row => row.lifecycle && row.lifecycle.status !== 'active' && row.lifecycle.replacement
+                        && (!rows || rows.some(ref => sameRow(ref, row))))
+                    .map(row => ({ row, lifecycle: row.lifecycle!, newPartNumber: row.lifecycle!.replacement! }));
+
+                if (swaps.length === 0) {
+                    return {
+                        success: false,
+                        message: rows
+                            ? `None of rows ${formatRowRefs(rows)} has a successor part on the lifecycle list.`
+                            : 'No row has a successor part on the lifecycle list.',
+                    };
+                }
+
+                // Look the successors up like any other part: they may be end-of-life themselves
+                const successors = await withPartLookups(swaps.map(({ row, newPartNumber }) => ({ ...row, partNumber: newPartNumber })));
+
+                const replacements = swaps.map(({ row, lifecycle, newPartNumber }, i) => {
+                    const successorLifecycle = successors[i].lifecycle;
+                    const endOfLife = successorLifecycle !== null && successorLifecycle.status !== 'active';
+                    return {
+                        sheetName: row.sheetName,
+                        rowNumber: row.rowNumber,
+                        oldPartNumber: row.partNumber,
+                        newPartNumber,
+                        // The lifecycle risk the swap resolves, so the browser can record it as reviewed;
+                        // a successor that is end-of-life as well leaves it open
+                        riskId: endOfLife
+                            ? null
+                            : currentRisks.find(risk => risk.type === 'lifecycle' && risk.affectedRows?.some(ref => sameRow(ref, row)))?.id ?? null,
+                        successorStatus: successorLifecycle?.status ?? null,
+                        reason: `Replaced ${LIFECYCLE_STATUS_LABELS[lifecycle.status]} part ${row.partNumber} with successor ${newPartNumber}`,
+                    };
+                });
+
+                currentRows = withDerivedValues(currentRows.map(row => {
+                    const index = swaps.findIndex(swap => sameRow(swap.row, row));
+                    return index !== -1 ? successors[index] : row;
+                }), pricing, customerTier);
+
+                // Track the remediations
+                replacements.forEach(({ sheetName, rowNumber, reason }) => {
+                    appliedRemediations.push({ sheetName, rowNumber, quantity: 0, reason });
+                });
+
+                console.log(`Replaced ${replacements.length} end-of-life parts`);
+
+                // Generate download for this modification
+                const downloadResult = storeFixedRows(
+                    currentRows,
+                    analysis?.fileName ?? 'corrected_data.xlsx',
+                    replacements.map(r => ({
+                        sheetName: r.sheetName,
+                        rowNumber: r.rowNumber,
+                        field: 'partNumber' as const,
+                        oldValue: r.oldPartNumber,
+                        newValue: r.newPartNumber,
+                        reason: r.reason,
+                    }))
+                );
+
+                const endOfLifeSuccessors = replacements.flatMap(r => r.successorStatus && r.successorStatus !== 'active'
+                    ? [`${r.newPartNumber} (${LIFECYCLE_STATUS_LABELS[r.successorStatus]})`]
+                    : []);
+                const stillEndOfLife = endOfLifeSuccessors.length > 0
+                    ? ` These successors are end-of-life as well, so their lifecycle risks stay open: ${endOfLifeSuccessors.join(', ')}.`
+                    : '';
+
+                return {
+                    success: true,
+                    replacements,
+                    affectedRows: replacements.map(({ sheetName, rowNumber }) => ({ sheetName, rowNumber })),
+                    message: `Replaced ${replacements.length} end-of-life part${replacements.length > 1 ? 's' : ''} with ${replacements.length > 1 ? 'their successors' : 'its successor'}: ${replacements.map(r => `${r.oldPartNumber} → ${r.newPartNumber}`).join(', ')}.` + stillEndOfLife,
+                    downloadUrl: `/api/download/${downloadResult.token}`,
+                    fileName: downloadResult.fileName,
+                };
+            },
+        }),
+
         clear_column: tool({
             description: 'Clear all data in a specific column. Use this when a column contains incorrect or irrelevant data (e.g. "clear the notes column"). Also use this if the user asks to "remove" or "delete" a column, as we cannot remove the column itself but we can clear its values.',
             inputSchema: z.object({
-                field: z.enum(['quantity', 'unitPrice', 'description', 'notes', 'partNumber', 'unitOfMeasure']).describe('The field/column to clear'),
+                field: z.enum(['quantity', 'unitPrice', 'extendedPrice', 'description', 'notes', 'partNumber', 'unitOfMeasure', 'manufacturer', 'leadTime']).describe('The field/column to clear'),
             }),
             execute: async ({ field }) => {
                 let affectedCount = 0;
-                currentRows = currentRows.map(row => {
+                currentRows = withDerivedValues(currentRows.map(row => {
                     if (row[field] !== null && row[field] !== '') {
                         affectedCount++;
                         return {
                             ...row,
-                            [field]: field === 'quantity' || field === 'unitPrice' ? null : '',
+                            [field]: field === 'quantity' || field === 'unitPrice' || field === 'extendedPrice' ? null : '',
                         };
                     }
                     return row;
-                });
+                }), pricing, customerTier);
 
                 // Track remediation (just one entry to represent the action)
                 if (affectedCount > 0) {
                     appliedRemediations.push({
-                        rowNumber: 0, // 0 represents global/bulk action
+                        sheetName: '', // no sheet and row 0 represent global/bulk action
+                        rowNumber: 0,
                         quantity: 0,
                         reason: `Cleared column: ${field}`,
                     });
@@ -331,9 +526,9 @@ Missing Quantity Rows: ${JSON.stringify(findMissingQuantities(analysis.rows ?? [
                 // Generate download for this modification
                 const downloadResult = storeFixedRows(
                     currentRows,
-                    currentColumnMapping,
                     analysis?.fileName ?? 'corrected_data.xlsx',
                     [{
+                        sheetName: '',
                         rowNumber: 0,
                         field: field as 'quantity' | 'unitPrice' | 'description',
                         oldValue: 'ALL',
@@ -16,7 +16,7 @@ export async function GET(
         );
     }
 
-    const buffer = generateExcelBuffer(data.rows, data.columnMapping);
+    const buffer = generateExcelBuffer(data.rows);
 
     return new NextResponse(buffer, {
         headers: {
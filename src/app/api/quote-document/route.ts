@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { buildQuoteDocument, renderQuoteHtml } from '@/lib/quoteDocument';
+import { loadQuoteDocumentSettings, loadQuoteTemplate } from '@/lib/quoteDocumentLoader';
+import { renderQuotePdf } from '@/lib/quotePdf';
+import { z } from 'zod';
+import { quoteDocumentDetailsSchema, quoteDocumentRowSchema } from '@/lib/schemas';
+import type { QuoteDocumentFormat } from '@/types/quote';
+
+/**
+ * Render the analyzed rows as a customer-facing quotation, as HTML or PDF
+ */
+export async function POST(req: Request) {
+    const { format, rows, currency, details } = await req.json() as {
+        format: QuoteDocumentFormat;
+        rows: unknown;
+        currency: string | null;
+        details: unknown;
+    };
+
+    if (format !== 'html' && format !== 'pdf') {
+        return NextResponse.json({ error: `Unknown document format "${format}".` }, { status: 400 });
+    }
+    if (!Array.isArray(rows) || rows.length === 0) {
+        return NextResponse.json({ error: 'There are no line items to quote.' }, { status: 400 });
+    }
+
+    const parsedRows = z.array(quoteDocumentRowSchema).safeParse(rows);
+    if (!parsedRows.success) {
+        const problems = parsedRows.error.issues.map(issue => `rows.${issue.path.join('.')}: ${issue.message}`).join('; ');
+        return NextResponse.json({ error: `Invalid line items: ${problems}` }, { status: 400 });
+    }
+
+    const parsedDetails = quoteDocumentDetailsSchema.safeParse(details ?? {});
+    if (!parsedDetails.success) {
+        const problems = parsedDetails.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        return NextResponse.json({ error: `Invalid quote details: ${problems}` }, { status: 400 });
+    }
+
+    // A customer must never get a quote with the placeholder company or layout, so broken files stop here
+    const [{ settings, errors: settingsErrors }, { template, errors: templateErrors }] = await Promise.all([
+        loadQuoteDocumentSettings(),
+        format === 'html' ? loadQuoteTemplate() : Promise.resolve({ template: '', errors: [] }),
+    ]);
+    const errors = [...settingsErrors, ...templateErrors];
+    if (errors.length > 0) {
+        return NextResponse.json({ error: errors.join(' ') }, { status: 500 });
+    }
+
+    const quote = buildQuoteDocument(parsedRows.data, parsedDetails.data, settings, new Date(), currency ?? null);
+    const fileName = `Quotation_${quote.quoteNumber.replace(/[^\w.-]+/g, '_')}.${format}`;
+    const headers = {
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Quote-Number': encodeURIComponent(quote.quoteNumber),
+    };
+
+    if (format === 'pdf') {
+        return new NextResponse(Buffer.from(renderQuotePdf(quote)), {
+            headers: { ...headers, 'Content-Type': 'application/pdf' },
+        });
+    }
+    return new NextResponse(renderQuoteHtml(quote, template), {
+        headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' },
+    });
+}
@@ -2,30 +2,93 @@
 
 import { useState, useCallback } from 'react';
 import FileUpload from '@/components/FileUpload';
-import ResultsTable from '@/components/ResultsTable';
+import ResultsTable, { type TableHighlight } from '@/components/ResultsTable';
 import RiskPanel from '@/components/RiskPanel';
 import ExportButtons from '@/components/ExportButtons';
+import SheetSelector from '@/components/SheetSelector';
+import MappingProfileBar from '@/components/MappingProfileBar';
+import ColumnMappingEditor from '@/components/ColumnMappingEditor';
+import QuoteDocumentPanel from '@/components/QuoteDocumentPanel';
 import AICopilot from '@/components/AICopilot';
+import PartCatalogBar from '@/components/PartCatalogBar';
+import PricingSummary from '@/components/PricingSummary';
 import { processExcelFile } from './actions/processExcel';
-import type { QuoteAnalysis } from '@/types/quote';
+import { matchCatalog } from './actions/partCatalog';
+import { matchLifecycle } from './actions/partLifecycle';
+import { matchPriceBook } from './actions/priceBook';
+import { applyCatalogMatches, applyCustomerTier, applyLifecycleEntries, applyPriceBookEntries, applyRiskReviews, applyRowEdits, primarySheetName, remapAnalysis, reviewRisk } from '@/lib/quoteBuilder';
+import { rowKeys, rowKey, sameRow } from '@/lib/rowRefs';
+import type { QuoteAnalysis, MappableField, RiskFlag, RiskReview, RowRef } from '@/types/quote';
+
+// A successor part the AI copilot swapped in, with the lifecycle risk it may resolve
+type PartReplacement = RowRef & { newPartNumber: string; riskId: string | null; reason: string };
+
+// Look the rows up in the part catalog on the server, which never sends the catalog itself
+async function withCatalogLookups(analysis: QuoteAnalysis): Promise<QuoteAnalysis> {
+  const { catalog, matches } = await matchCatalog(
+    analysis.rows.map(({ partNumber, description }) => ({ partNumber, description })),
+    analysis.riskRules.thresholds
+  );
+  return applyCatalogMatches(analysis, catalog, matches);
+}
+
+// Look the rows up on the lifecycle list on the server
+async function withLifecycleLookups(analysis: QuoteAnalysis): Promise<QuoteAnalysis> {
+  const { lifecycleList, entries } = await matchLifecycle(
+    analysis.rows.map(({ partNumber }) => ({ partNumber })),
+    analysis.riskRules.thresholds.partNumbers
+  );
+  return applyLifecycleEntries(analysis, lifecycleList, entries);
+}
+
+// Look the rows up in the price book on the server
+async function withPriceBookLookups(analysis: QuoteAnalysis): Promise<QuoteAnalysis> {
+  const { priceBook, entries } = await matchPriceBook(
+    analysis.rows.map(({ partNumber }) => ({ partNumber })),
+    analysis.riskRules.thresholds.partNumbers
+  );
+  return applyPriceBookEntries(analysis, priceBook, entries);
+}
 
+// Write successor part numbers into the rows' source cells too, so re-mapping keeps them;
+// the lookups made for the old part numbers are dropped
+function withSuccessorParts(analysis: QuoteAnalysis, replacements: PartReplacement[]): QuoteAnalysis {
+  return remapAnalysis({
+    ...analysis,
+    rows: analysis.rows.map(row => {
+      const replacement = replacements.find(r => sameRow(r, row));
+      const column = analysis.sheetMappings[row.sheetName]?.columnMapping.partNumber;
+      if (!replacement || !column) return row;
+      return { ...row, rawData: { ...row.rawData, [column]: replacement.newPartNumber } };
+    }),
+  });
+}
 
 export default function Home() {
   const [analysis, setAnalysis] = useState<QuoteAnalysis | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [selectedRisk, setSelectedRisk] = useState<RiskFlag | null>(null);
+  // Line-item sheet shown in the mapping editor; null for the primary sheet
+  const [mappingSheet, setMappingSheet] = useState<string | null>(null);
+
+  // Reviews from a previous run of the same file carry over: risk ids are stable
+  const runAnalysis = useCallback(async (file: File, excludedSheets: string[], reviews: Record<string, RiskReview> = {}) => {
     setIsProcessing(true);
     setError(null);
     setAnalysis(null);
+    setSelectedRisk(null);
+    setMappingSheet(null);
 
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('excludedSheets', JSON.stringify(excludedSheets));
 
       const result = await processExcelFile(formData);
-      setAnalysis(result);
+      setAnalysis(result.success ? applyRiskReviews(result, reviews) : result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -33,28 +96,164 @@ export default function Home() {
     }
   }, []);
 
+  const handleFileSelect = useCallback(async (file: File) => {
+    setCurrentFile(file);
+    await runAnalysis(file, []);
+  }, [runAnalysis]);
+
+  // Re-run the analysis on the same file with a different sheet selection
+  const handleToggleSheet = useCallback(async (sheetName: string, included: boolean) => {
+    if (!currentFile || !analysis) return;
+
+    const excludedSheets = analysis.sheets
+      .filter(sheet => (sheet.name === sheetName ? !included : !sheet.included))
+      .map(sheet => sheet.name);
+
+    await runAnalysis(currentFile, excludedSheets, analysis.reviews);
+  }, [currentFile, analysis, runAnalysis]);
+
+  // Server lookups after a re-map or a catalog change; dropped if the analysis changed meanwhile
+  const refreshLookups = useCallback(async (current: QuoteAnalysis, lookups: { catalog: boolean; lifecycle: boolean; priceBook: boolean }) => {
+    try {
+      let next = current;
+      if (lookups.lifecycle) next = await withLifecycleLookups(next);
+      if (lookups.priceBook) next = await withPriceBookLookups(next);
+      if (lookups.catalog) next = await withCatalogLookups(next);
+      setAnalysis(prev => (prev === current ? next : prev));
+    } catch (err) {
+      console.error('Part catalog / lifecycle / price book matching failed:', err);
+    }
+  }, []);
+
+  // Re-derive rows from rawData and re-run risk detection when a mapping is edited;
+  // rows whose part number or description changed are looked up in the catalog again,
+  // and a new part number column is checked against the lifecycle list and the price book
+  const editedSheet = analysis
+    ? (mappingSheet !== null && analysis.sheetMappings[mappingSheet] ? mappingSheet : primarySheetName(analysis.sheets))
+    : null;
+  const editedMapping = analysis && editedSheet !== null ? analysis.sheetMappings[editedSheet] : undefined;
+
+  const handleMappingChange = useCallback(async (field: MappableField, header: string | null) => {
+    if (!analysis || editedSheet === null || !editedMapping) return;
+
+    const remapped = remapAnalysis(analysis, {
+      sheetName: editedSheet,
+      columnMapping: { ...editedMapping.columnMapping, [field]: header },
+    });
+    setAnalysis(remapped);
+
+    const lifecycle = remapped.lifecycleList !== null && field === 'partNumber';
+    const priceBook = remapped.priceBook !== null && field === 'partNumber';
+    const catalog = remapped.catalog !== null
+      && remapped.rows.some(row => row.catalogMatch === null && (row.partNumber.trim() || row.description.trim()));
+    if (lifecycle || priceBook || catalog) {
+      await refreshLookups(remapped, { catalog, lifecycle, priceBook });
+    }
+  }, [analysis, editedSheet, editedMapping, refreshLookups]);
+
+  // Quantity-break columns only change quantities, so rows are re-derived without new lookups
+  const handleQuantityBreaksChange = useCallback((quantityBreaks: string[]) => {
+    if (editedSheet === null) return;
+    setAnalysis(prev => (prev?.sheetMappings[editedSheet]
+      ? remapAnalysis(prev, { sheetName: editedSheet, columnMapping: { ...prev.sheetMappings[editedSheet].columnMapping, quantityBreaks } })
+      : prev));
+  }, [editedSheet]);
+
+  // A new (or removed) part catalog applies to the current analysis straight away
+  const handleCatalogChange = useCallback(async () => {
+    if (analysis?.success) {
+      await refreshLookups(analysis, { catalog: true, lifecycle: false, priceBook: false });
+    }
+  }, [analysis, refreshLookups]);
+
+  // Reprice for another customer tier
+  const handleTierChange = useCallback((tier: string | null) => {
+    setAnalysis(prev => (prev ? applyCustomerTier(prev, tier) : prev));
+  }, []);
+
+  // Acknowledge, waive or resolve a risk (null reopens it)
+  const handleReviewRisk = useCallback((riskId: string, review: Omit<RiskReview, 'riskId'> | null) => {
+    setAnalysis(prev => (prev ? reviewRisk(prev, riskId, review) : prev));
+  }, []);
+
+  // Clicking a risk highlights its source cell (or first affected row); clicking again clears it
+  const handleSelectRisk = useCallback((risk: RiskFlag) => {
+    setSelectedRisk(prev => (prev?.id === risk.id ? null : risk));
+  }, []);
+
+  const highlight: TableHighlight | null = selectedRisk?.source
+    ? {
+      sheetName: selectedRisk.source.sheetName,
+      rowNumber: selectedRisk.source.rowNumber,
+      header: selectedRisk.source.header,
+      label: selectedRisk.source.cellRef,
+    }
+    : selectedRisk?.affectedRows?.length
+      ? { ...selectedRisk.affectedRows[0], header: null, label: `${selectedRisk.affectedRows[0].sheetName} row ${selectedRisk.affectedRows[0].rowNumber}` }
+      : null;
+
+  // Swap in successor (or edited) parts and look them up; a row's lifecycle risk is resolved only
+  // when its successor is not on the lifecycle list as end-of-life itself
+  const handleReplaceParts = useCallback(async (replacements: PartReplacement[]) => {
+    if (!analysis) return;
+
+    const swapped = withSuccessorParts(analysis, replacements);
+    setAnalysis(swapped);
+
+    try {
+      const next = await withCatalogLookups(await withPriceBookLookups(await withLifecycleLookups(swapped)));
+
+      const reviews = { ...next.reviews };
+      const reviewedAt = new Date().toISOString();
+      replacements.forEach(({ riskId, reason, ...ref }) => {
+        const row = next.rows.find(r => sameRow(r, ref));
+        if (riskId && row && (!row.lifecycle || row.lifecycle.status === 'active')) {
+          reviews[riskId] = { riskId, status: 'resolved', reviewer: 'AI Copilot', justification: reason, reviewedAt };
+        }
+      });
+
+      setAnalysis(prev => (prev === swapped ? applyRiskReviews(next, reviews) : prev));
+    } catch (err) {
+      console.error('Part catalog / lifecycle / price book matching failed:', err);
+    }
+  }, [analysis]);
+
   // Handle data updates from AI tool calls
   const handleDataUpdate = useCallback((event: {
-    type: 'update_cell' | 'fix_quantities' | 'delete_rows' | 'clear_column';
-    rowNumber?: number;
+    type: 'update_cell' | 'fix_quantities' | 'set_quantities' | 'delete_rows' | 'clear_column' | 'replace_parts';
+    row?: RowRef;
     field?: string;
     newValue?: unknown;
-    affectedRows?: number[];
-    rowNumbers?: number[];
+    affectedRows?: RowRef[];
+    rows?: RowRef[];
     defaultQuantity?: number;
+    quantities?: (RowRef & { quantity: number })[];
+    replacements?: PartReplacement[];
   }) => {
     console.log('handleDataUpdate received event:', event);
 
+    if (event.type === 'replace_parts' && event.replacements) {
+      void handleReplaceParts(event.replacements);
+      return;
+    }
+
+    // An edited part number is looked up again like a successor part; it resolves no risk
+    if (event.type === 'update_cell' && event.row && event.field === 'partNumber') {
+      void handleReplaceParts([{ ...event.row, newPartNumber: String(event.newValue), riskId: null, reason: `Part number set to ${event.newValue}` }]);
+      return;
+    }
+
 
     setAnalysis(prev => {
       if (!prev) return prev;
 
-      const updatedRows = [...prev.rows];
+      let updatedRows = [...prev.rows];
 
-      if (event.type === 'update_cell' && event.rowNumber && event.field) {
-        console.log(`[page.tsx] Processing update_cell for row ${event.rowNumber}, field ${event.field}, value ${event.newValue}`);
-        const rowIndex = updatedRows.findIndex(r => r.rowNumber === event.rowNumber);
-        console.log(`[page.tsx] Found row index: ${rowIndex} for rowNumber ${event.rowNumber} (type: ${typeof event.rowNumber})`);
+      if (event.type === 'update_cell' && event.row && event.field) {
+        const target = event.row;
+        console.log(`[page.tsx] Processing update_cell for ${target.sheetName} row ${target.rowNumber}, field ${event.field}, value ${event.newValue}`);
+        const rowIndex = updatedRows.findIndex(r => sameRow(r, target));
+        console.log(`[page.tsx] Found row index: ${rowIndex} for ${rowKey(target)}`);
 
         if (rowIndex !== -1) {
           updatedRows[rowIndex] = {
@@ -63,13 +262,13 @@ export default function Home() {
           };
           console.log('[page.tsx] Updated row:', updatedRows[rowIndex]);
         } else {
-          console.warn(`[page.tsx] Row ${event.rowNumber} not found! Available rows:`, updatedRows.map(r => r.rowNumber).slice(0, 10));
+          console.warn(`[page.tsx] Row ${rowKey(target)} not found! Available rows:`, updatedRows.map(rowKey).slice(0, 10));
         }
       } else if (event.type === 'fix_quantities' && event.affectedRows) {
         console.log('Processing fix_quantities for rows:', event.affectedRows);
-        event.affectedRows.forEach(rowNum => {
-          const rowIndex = updatedRows.findIndex(r => r.rowNumber === rowNum);
-          console.log(`Checking row ${rowNum}, found index: ${rowIndex}`);
+        event.affectedRows.forEach(ref => {
+          const rowIndex = updatedRows.findIndex(r => sameRow(r, ref));
+          console.log(`Checking row ${rowKey(ref)}, found index: ${rowIndex}`);
           if (rowIndex !== -1) {
             console.log('Updating row before:', updatedRows[rowIndex]);
             updatedRows[rowIndex] = {
@@ -78,21 +277,23 @@ export default function Home() {
             };
             console.log('Updating row after:', updatedRows[rowIndex]);
           } else {
-            console.log('Row not found for number:', rowNum, 'Available rows:', updatedRows.map(r => r.rowNumber));
+            console.log('Row not found:', rowKey(ref), 'Available rows:', updatedRows.map(rowKey));
           }
         });
-      } else if (event.type === 'delete_rows' && event.rowNumbers) {
-        console.log('[page.tsx] Processing delete_rows for:', event.rowNumbers);
+      } else if (event.type === 'set_quantities' && event.quantities) {
+        event.quantities.forEach(({ quantity, ...ref }) => {
+          const rowIndex = updatedRows.findIndex(r => sameRow(r, ref));
+          if (rowIndex !== -1) {
+            updatedRows[rowIndex] = { ...updatedRows[rowIndex], quantity };
+          }
+        });
+      } else if (event.type === 'delete_rows' && event.rows) {
+        console.log('[page.tsx] Processing delete_rows for:', event.rows);
         // Filter out rows that are in the deletion list
         const initialCount = updatedRows.length;
-        const rowsToDelete = new Set(event.rowNumbers);
-        const filteredRows = updatedRows.filter(r => !rowsToDelete.has(r.rowNumber));
-        console.log(`[page.tsx] Deleted ${initialCount - filteredRows.length} rows. New count: ${filteredRows.length}`);
-
-        return {
-          ...prev,
-          rows: filteredRows,
-        };
+        const rowsToDelete = rowKeys(event.rows);
+        updatedRows = updatedRows.filter(r => !rowsToDelete.has(rowKey(r)));
+        console.log(`[page.tsx] Deleted ${initialCount - updatedRows.length} rows. New count: ${updatedRows.length}`);
       } else if (event.type === 'clear_column' && event.field) {
         console.log('[page.tsx] Processing clear_column for:', event.field);
         // Clear data in the specified field for all rows
@@ -107,12 +308,10 @@ export default function Home() {
         });
       }
 
-      return {
-        ...prev,
-        rows: updatedRows,
-      };
+      // Derived values, risks and the deal score follow the edit
+      return applyRowEdits(prev, updatedRows);
     });
-  }, []); // Empty dependency array - we use functional update so we don't need analysis
+  }, [handleReplaceParts]); // Other edits use functional updates so they don't need analysis
 
   const getRiskStatusClass = () => {
     if (!analysis) return '';
@@ -148,6 +347,7 @@ export default function Home() {
         {/* Upload Section */}
         <section className="upload-section">
           <FileUpload onFileSelect={handleFileSelect} isProcessing={isProcessing} />
+          <PartCatalogBar onCatalogChange={handleCatalogChange} />
         </section>
 
         {error && (
@@ -195,30 +395,56 @@ export default function Home() {
                   </div>
                   <div className="card-content">
                     <span className="card-value">{analysis.summary.totalRisks}</span>
-                    <span className="card-label">Risks Detected</span>
+                    <span className="card-label">
+                      Open Risks
+                      {analysis.summary.reviewedRisks > 0 && ` (${analysis.summary.reviewedRisks} reviewed)`}
+                    </span>
                   </div>
                 </div>
               </div>
             )}
 
+            {/* Sheet Selection */}
+            {analysis && analysis.success && (
+              <SheetSelector
+                sheets={analysis.sheets}
+                onToggleSheet={handleToggleSheet}
+                isProcessing={isProcessing}
+              />
+            )}
+
             {/* Column Mapping Info */}
             {analysis && analysis.success && analysis.columnMapping && (
               <div className="mapping-info">
-                <h4>🧠 AI Column Mapping</h4>
+                <h4>
+                  🧠 AI Column Mapping
+                  <span className="mapping-header-row">Header row {analysis.columnMapping.headerRow}</span>
+                </h4>
                 <div className="mapping-grid">
                   {Object.entries(analysis.columnMapping)
-                    .filter(([key, value]) => value && key !== 'headerRow')
+                    .filter(([key, value]) => key !== 'headerRow' && (Array.isArray(value) ? value.length > 0 : value))
                     .map(([key, value]) => (
                       <div key={key} className="mapping-item">
                         <span className="mapping-key">{formatKey(key)}</span>
                         <span className="mapping-arrow">→</span>
-                        <span className="mapping-value">{value}</span>
+                        <span className="mapping-value">{Array.isArray(value) ? value.join(', ') : value}</span>
                       </div>
                     ))}
                 </div>
+                <MappingProfileBar analysis={analysis} />
               </div>
             )}
 
+            {/* Quote Pricing */}
+            {analysis && analysis.success && (
+              <PricingSummary analysis={analysis} onTierChange={handleTierChange} />
+            )}
+
+            {/* Quote Document - a new file starts with an empty form */}
+            {analysis && analysis.success && (
+              <QuoteDocumentPanel key={analysis.processedAt} analysis={analysis} />
+            )}
+
             {/* Export Buttons */}
             {analysis && analysis.success && (
               <ExportButtons analysis={analysis} />
@@ -226,14 +452,37 @@ export default function Home() {
 
             {/* Stacked Results: Table then Risks */}
             <div className="results-stacked">
-              <ResultsTable
-                rows={analysis?.rows ?? []}
-                isLoading={isProcessing}
-              />
+              <div className={analysis?.success ? 'table-with-mapping' : undefined}>
+                <ResultsTable
+                  rows={analysis?.rows ?? []}
+                  isLoading={isProcessing}
+                  sheetMappings={analysis?.sheetMappings}
+                  highlight={highlight}
+                  minMarginPercent={analysis?.riskRules.thresholds.margins.minPercent}
+                />
+                {analysis && analysis.success && editedSheet !== null && editedMapping && (
+                  <ColumnMappingEditor
+                    sheetNames={Object.keys(analysis.sheetMappings)}
+                    sheetName={editedSheet}
+                    onSheetChange={setMappingSheet}
+                    headers={analysis.sheets.find(sheet => sheet.name === editedSheet)?.headers ?? []}
+                    columnMapping={editedMapping.columnMapping}
+                    rows={analysis.rows.filter(row => row.sheetName === editedSheet)}
+                    assessments={editedMapping.mappingAssessment}
+                    risks={analysis.risks}
+                    onMappingChange={handleMappingChange}
+                    onQuantityBreaksChange={handleQuantityBreaksChange}
+                  />
+                )}
+              </div>
               <RiskPanel
                 risks={analysis?.risks ?? []}
                 summary={analysis?.summary}
                 isLoading={isProcessing}
+                reviews={analysis?.reviews}
+                selectedRiskId={selectedRisk?.id ?? null}
+                onSelectRisk={handleSelectRisk}
+                onReviewRisk={handleReviewRisk}
               />
             </div>
           </div>
@@ -2,16 +2,28 @@
 
 import { useChat } from '@ai-sdk/react';
 import { useState, useRef, useEffect, useMemo } from 'react';
-import type { QuoteAnalysis } from '@/types/quote';
+import { formatRowRefs } from '@/lib/rowRefs';
+import type { QuoteAnalysis, RowRef } from '@/types/quote';
+
+interface PartReplacement {
+    sheetName: string;
+    rowNumber: number;
+    oldPartNumber: string;
+    newPartNumber: string;
+    riskId: string | null;
+    reason: string;
+}
 
 interface DataUpdateEvent {
-    type: 'update_cell' | 'fix_quantities' | 'delete_rows' | 'clear_column';
-    rowNumber?: number;
+    type: 'update_cell' | 'fix_quantities' | 'set_quantities' | 'delete_rows' | 'clear_column' | 'replace_parts';
+    row?: RowRef; // For update_cell
     field?: string;
     newValue?: unknown;
-    affectedRows?: number[];
-    rowNumbers?: number[]; // For delete_rows
+    affectedRows?: RowRef[];
+    rows?: RowRef[]; // For delete_rows
     defaultQuantity?: number;
+    quantities?: (RowRef & { quantity: number })[]; // For set_quantities
+    replacements?: PartReplacement[]; // For replace_parts
 }
 
 interface AICopilotProps {
@@ -27,18 +39,23 @@ interface ToolResult {
         fileName?: string;
         remediationsCount?: number;
         fixedCount?: number;
-        affectedRows?: number[];
+        affectedRows?: RowRef[];
         message?: string;
         // For update_cell_value
+        sheetName?: string;
         rowNumber?: number;
         field?: string;
         oldValue?: unknown;
         newValue?: unknown;
         // For delete_rows
         deletedCount?: number;
-        rowNumbers?: number[];
+        rows?: RowRef[];
         // For clear_column
         affectedCount?: number;
+        // For fix_order_quantities
+        quantities?: (RowRef & { quantity: number })[];
+        // For replace_obsolete_parts
+        replacements?: PartReplacement[];
     };
 }
 
@@ -194,10 +211,10 @@ export default function AICopilot({ analysis, onDataUpdate }: AICopilotProps) {
         toolResults.forEach(({ toolName, result }) => {
             console.log('[AICopilot] Processing tool result:', toolName, result);
             if (result?.success) {
-                if (toolName === 'update_cell_value' && result.rowNumber && result.field) {
+                if (toolName === 'update_cell_value' && result.sheetName !== undefined && result.rowNumber && result.field) {
                     const updateEvent: DataUpdateEvent = {
                         type: 'update_cell',
-                        rowNumber: result.rowNumber,
+                        row: { sheetName: result.sheetName, rowNumber: result.rowNumber },
                         field: result.field,
                         newValue: result.newValue,
                     };
@@ -209,16 +226,26 @@ export default function AICopilot({ analysis, onDataUpdate }: AICopilotProps) {
                         affectedRows: result.affectedRows,
                         defaultQuantity: 1, // Default value used
                     });
-                } else if (toolName === 'delete_rows' && result.rowNumbers) {
+                } else if (toolName === 'fix_order_quantities' && result.quantities) {
+                    onDataUpdate({
+                        type: 'set_quantities',
+                        quantities: result.quantities,
+                    });
+                } else if (toolName === 'delete_rows' && result.rows) {
                     onDataUpdate({
                         type: 'delete_rows',
-                        rowNumbers: result.rowNumbers,
+                        rows: result.rows,
                     });
                 } else if (toolName === 'clear_column' && result.field) {
                     onDataUpdate({
                         type: 'clear_column',
                         field: result.field,
                     });
+                } else if (toolName === 'replace_obsolete_parts' && result.replacements) {
+                    onDataUpdate({
+                        type: 'replace_parts',
+                        replacements: result.replacements,
+                    });
                 }
             }
         });
@@ -262,7 +289,7 @@ export default function AICopilot({ analysis, onDataUpdate }: AICopilotProps) {
                     <p className="tool-result-message">
                         Fixed {result.fixedCount} rows with missing quantities.
                         {result.affectedRows && result.affectedRows.length > 0 && (
-                            <span className="affected-rows"> (Rows: {result.affectedRows.slice(0, 5).join(', ')}{result.affectedRows.length > 5 ? '...' : ''})</span>
+                            <span className="affected-rows"> (Rows: {formatRowRefs(result.affectedRows, 5)})</span>
                         )}
                     </p>
                     {result.downloadUrl && (
@@ -283,9 +310,40 @@ export default function AICopilot({ analysis, onDataUpdate }: AICopilotProps) {
             );
         }
 
+        if (toolName === 'fix_order_quantities' && result?.success) {
+            return (
+                <div key={toolName} className="tool-result fix-result">
+                    <div className="tool-result-header">
+                        <span className="tool-icon">📦</span>
+                        <span>Quantities Rounded Up</span>
+                    </div>
+                    <p className="tool-result-message">
+                        {result.message}
+                        {result.affectedRows && result.affectedRows.length > 0 && (
+                            <span className="affected-rows"> (Rows: {formatRowRefs(result.affectedRows, 5)})</span>
+                        )}
+                    </p>
+                    {result.downloadUrl && result.fixedCount !== 0 && (
+                        <a
+                            href={result.downloadUrl}
+                            download={result.fileName}
+                            className="download-button"
+                        >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="18" height="18">
+                                <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4" />
+                                <polyline points="7,10 12,15 17,10" />
+                                <line x1="12" y1="15" x2="12" y2="3" />
+                            </svg>
+                            Download {result.fileName}
+                        </a>
+                    )}
+                </div>
+            );
+        }
+
         if (toolName === 'update_cell_value' && result?.success) {
             return (
-                <div key={`${toolName}-${result.rowNumber}`} className="tool-result fix-result">
+                <div key={`${toolName}-${result.sheetName}-${result.rowNumber}`} className="tool-result fix-result">
                     <div className="tool-result-header">
                         <span className="tool-icon">✏️</span>
                         <span>Cell Updated</span>
@@ -339,6 +397,34 @@ export default function AICopilot({ analysis, onDataUpdate }: AICopilotProps) {
             );
         }
 
+        if (toolName === 'replace_obsolete_parts' && result?.success) {
+            return (
+                <div key={toolName} className="tool-result fix-result">
+                    <div className="tool-result-header">
+                        <span className="tool-icon">♻️</span>
+                        <span>Parts Replaced</span>
+                    </div>
+                    <p className="tool-result-message">
+                        {result.message}
+                    </p>
+                    {result.downloadUrl && (
+                        <a
+                            href={result.downloadUrl}
+                            download={result.fileName}
+                            className="download-button"
+                        >
+                            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="18" height="18">
+                                <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4" />
+                                <polyline points="7,10 12,15 17,10" />
+                                <line x1="12" y1="15" x2="12" y2="3" />
+                            </svg>
+                            Download {result.fileName}
+                        </a>
+                    )}
+                </div>
+            );
+        }
+
         if (toolName === 'clear_column' && result?.success) {
             return (
                 <div key={toolName} className="tool-result fix-result">
@@ -0,0 +1,139 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MAPPABLE_FIELDS, confidenceLevel, estimateMappingConfidence, sampleColumnValues } from '@/lib/columnMapping';
+import type { ColumnMapping, FieldAssessment, MappableField, ParsedRow, RiskFlag } from '@/types/quote';
+
+interface ColumnMappingEditorProps {
+    // Line-item sheets are mapped one at a time
+    sheetNames: string[];
+    sheetName: string;
+    onSheetChange: (sheetName: string) => void;
+    headers: string[];
+    columnMapping: ColumnMapping;
+    rows: ParsedRow[];
+    assessments: FieldAssessment[];
+    risks: RiskFlag[];
+    onMappingChange: (field: MappableField, header: string | null) => void;
+    onQuantityBreaksChange: (headers: string[]) => void;
+}
+
+export default function ColumnMappingEditor({
+    headers,
+    columnMapping,
+    rows,
+    assessments,
+    risks,
+    onMappingChange,
+    onQuantityBreaksChange,
+    sheetNames,
+    sheetName,
+    onSheetChange,
+}: ColumnMappingEditorProps) {
+    // Source values come from rawData so samples do not change as the mapping does
+    const sourceRows = useMemo(() => rows.map(row => row.rawData), [rows]);
+
+    // Columns named by a mapping risk (shared, wrong type, empty) are highlighted
+    const problemColumns = useMemo(() => new Map(
+        risks
+            .filter(risk => risk.type === 'mapping' && risk.extractedValue)
+            .map(risk => [risk.extractedValue as string, risk.title])
+    ), [risks]);
+
+    if (headers.length === 0) {
+        return null;
+    }
+
+    // Break columns keep the file's column order
+    const toggleQuantityBreak = (header: string, checked: boolean) => {
+        const selected = new Set(columnMapping.quantityBreaks);
+        if (checked) selected.add(header);
+        else selected.delete(header);
+        onQuantityBreaksChange(headers.filter(h => selected.has(h)));
+    };
+
+    return (
+        <div className="mapping-editor">
+            <div className="mapping-editor-header">
+                <h3>🧭 Column Mapping</h3>
+                {sheetNames.length > 1 && (
+                    <select
+                        className="mapping-editor-sheet"
+                        value={sheetName}
+                        onChange={(e) => onSheetChange(e.target.value)}
+                        aria-label="Sheet to map"
+                    >
+                        {sheetNames.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                )}
+                <span className="mapping-editor-hint">Changes re-parse rows instantly</span>
+            </div>
+
+            <div className="mapping-editor-fields">
+                {MAPPABLE_FIELDS.map(({ field, label }) => {
+                    const header = columnMapping[field];
+                    const assessment = assessments.find(a => a.field === field && a.header === header);
+                    const confidence = assessment?.confidence ?? estimateMappingConfidence(field, header, sourceRows);
+                    const level = confidenceLevel(confidence);
+                    const samples = header ? sampleColumnValues(sourceRows, header) : [];
+                    const problem = header ? problemColumns.get(header) : undefined;
+
+                    return (
+                        <div key={field} className={`mapping-field${problem ? ' mapping-field-conflict' : ''}`}>
+                            <div className="mapping-field-top">
+                                <label htmlFor={`mapping-${field}`}>{label}</label>
+                                {header && (
+                                    <span
+                                        className={`confidence-badge confidence-${level}`}
+                                        title={assessment?.rationale ?? `Estimated fit: ${Math.round(confidence * 100)}%`}
+                                    >
+                                        {Math.round(confidence * 100)}%
+                                    </span>
+                                )}
+                            </div>
+                            <select
+                                id={`mapping-${field}`}
+                                value={header ?? ''}
+                                onChange={(e) => onMappingChange(field, e.target.value || null)}
+                            >
+                                <option value="">— Not mapped —</option>
+                                {headers.map(h => (
+                                    <option key={h} value={h}>{h}</option>
+                                ))}
+                            </select>
+                            {problem && <div className="mapping-conflict">⚠️ {problem}</div>}
+                            {samples.length > 0 && (
+                                <div className="mapping-samples" title={samples.join(' · ')}>
+                                    {samples.join(' · ')}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                <div className="mapping-field">
+                    <div className="mapping-field-top">
+                        <span>Quantity Breaks</span>
+                        {columnMapping.quantityBreaks.length > 0 && (
+                            <span className="mapping-break-count">{columnMapping.quantityBreaks.length} columns</span>
+                        )}
+                    </div>
+                    <div className="mapping-breaks">
+                        {headers.map(h => (
+                            <label key={h} className="mapping-break">
+                                <input
+                                    type="checkbox"
+                                    checked={columnMapping.quantityBreaks.includes(h)}
+                                    onChange={(e) => toggleQuantityBreak(h, e.target.checked)}
+                                />
+                                {h}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,7 @@
 'use client';
 
+import { formatExpectedRange } from '@/lib/riskDetector';
+import { formatRowRefs } from '@/lib/rowRefs';
 import type { QuoteAnalysis, ParsedRow } from '@/types/quote';
 
 interface ExportButtonsProps {
@@ -12,15 +14,31 @@ export default function ExportButtons({ analysis }: ExportButtonsProps) {
     }
 
     const exportToCSV = () => {
-        const headers = ['Row', 'Part Number', 'Description', 'Quantity', 'UoM', 'Unit Price', 'Notes'];
+        // Sheets may name their break columns differently
+        const breakHeaders = [...new Set(analysis.rows.flatMap(row => row.quantityTiers.map(tier => tier.header)))];
+        const headers = [
+            'Sheet', 'Row', 'Part Number', 'Manufacturer', 'Description', 'Quantity', 'Quoted Qty', 'UoM', 'Unit Price', 'Extended Price', 'Currency', 'Lead Time', 'Notes', 'Sell Price', 'Extended Sell', 'Margin %', 'Sell Currency',
+            ...breakHeaders.map(header => `"Sell Price @ ${header.replace(/"/g, '""')}"`),
+        ];
         const rows = analysis.rows.map(row => [
+            `"${(row.sheetName || '').replace(/"/g, '""')}"`,
             row.rowNumber,
             row.partNumber,
+            `"${(row.manufacturer || '').replace(/"/g, '""')}"`,
             `"${(row.description || '').replace(/"/g, '""')}"`,
             row.quantity ?? '',
+            row.quotedQuantity ?? '',
             row.unitOfMeasure,
             row.unitPrice ?? '',
+            row.extendedPrice ?? '',
+            row.currency ?? '',
+            `"${(row.leadTime || '').replace(/"/g, '""')}"`,
             `"${(row.notes || '').replace(/"/g, '""')}"`,
+            row.pricing?.sellPrice ?? '',
+            row.pricing?.extendedSell ?? '',
+            row.pricing?.marginPercent ?? '',
+            row.pricing?.currency ?? '',
+            ...breakHeaders.map(header => row.quantityTiers.find(tier => tier.header === header)?.pricing?.sellPrice ?? ''),
         ]);
 
         const csvContent = [
@@ -37,8 +55,13 @@ export default function ExportButtons({ analysis }: ExportButtonsProps) {
             processedAt: analysis.processedAt,
             summary: analysis.summary,
             columnMapping: analysis.columnMapping,
+            sheetMappings: analysis.sheetMappings,
+            currency: analysis.currency,
+            sheets: analysis.sheets,
             rows: analysis.rows,
+            bom: analysis.bom,
             risks: analysis.risks,
+            reviews: Object.values(analysis.reviews),
         };
 
         const jsonContent = JSON.stringify(exportData, null, 2);
@@ -108,6 +131,7 @@ function generateRiskReport(analysis: QuoteAnalysis): string {
         '',
         `File: ${analysis.fileName}`,
         `Processed: ${new Date(analysis.processedAt).toLocaleString()}`,
+        `Sheets Analyzed: ${analysis.sheets.filter(s => s.included).map(s => `${s.name} (${s.kind})`).join(', ') || 'none'}`,
         '',
         '───────────────────────────────────────────────────────────────',
         '                          SUMMARY                               ',
@@ -115,15 +139,27 @@ function generateRiskReport(analysis: QuoteAnalysis): string {
         '',
         `Total Line Items: ${analysis.summary.totalRows}`,
         `Valid Line Items: ${analysis.summary.validRows}`,
+        `Currency: ${analysis.currency ?? 'Not stated'}`,
         '',
-        `Total Risks Detected: ${analysis.summary.totalRisks}`,
+        `Total Risks Detected: ${analysis.risks.length}`,
+        `Open Risks: ${analysis.summary.totalRisks}`,
         `  • Critical: ${analysis.summary.criticalRisks}`,
         `  • High: ${analysis.summary.highRisks}`,
         `  • Medium: ${analysis.summary.mediumRisks}`,
         `  • Low: ${analysis.summary.lowRisks}`,
+        `Reviewed (acknowledged / waived / resolved): ${analysis.summary.reviewedRisks}`,
         '',
     ];
 
+    const dealScore = analysis.summary.dealScore;
+    if (dealScore) {
+        lines.push(`Deal Risk Score: ${dealScore.score} / 100 — ${dealScore.recommendation.toUpperCase()}`);
+        for (const factor of dealScore.factors) {
+            lines.push(`  • ${factor.label}: +${factor.points} (${factor.detail})`);
+        }
+        lines.push('');
+    }
+
     if (analysis.risks.length > 0) {
         lines.push('───────────────────────────────────────────────────────────────');
         lines.push('                      RISK DETAILS                             ');
@@ -131,16 +167,29 @@ function generateRiskReport(analysis: QuoteAnalysis): string {
         lines.push('');
 
         for (const risk of analysis.risks) {
+            const review = analysis.reviews[risk.id];
             lines.push(`[${risk.level.toUpperCase()}] ${risk.title}`);
+            lines.push(`ID: ${risk.id}`);
             lines.push(`Type: ${risk.type}`);
+            lines.push(`Status: ${review ? review.status.toUpperCase() : 'OPEN'}`);
             lines.push(`Description: ${risk.description}`);
             if (risk.extractedValue) {
                 lines.push(`Detected Value: ${risk.extractedValue}`);
             }
             if (risk.affectedRows && risk.affectedRows.length > 0) {
-                lines.push(`Affected Rows: ${risk.affectedRows.join(', ')}`);
+                lines.push(`Affected Rows: ${formatRowRefs(risk.affectedRows)}`);
+            }
+            if (risk.expectedRange) {
+                lines.push(`Expected Range: ${formatExpectedRange(risk.expectedRange)}`);
+            }
+            if (risk.source) {
+                lines.push(`Source: ${risk.source.cellRef} — "${risk.source.snippet}"`);
             }
             lines.push(`Recommendation: ${risk.recommendation}`);
+            if (review) {
+                lines.push(`Reviewed By: ${review.reviewer} on ${new Date(review.reviewedAt).toLocaleString()}`);
+                lines.push(`Justification: ${review.justification}`);
+            }
             lines.push('');
         }
     }
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { listProfiles, saveProfile, deleteProfile } from '@/app/actions/mappingProfiles';
+import { listRuleSets } from '@/app/actions/riskRules';
+import type { QuoteAnalysis, MappingProfile, MappingSource } from '@/types/quote';
+
+interface MappingProfileBarProps {
+    analysis: QuoteAnalysis;
+}
+
+const SOURCE_LABELS: Record<MappingSource, string> = {
+    profile: '📁 Saved profile',
+    ai: '🧠 AI mapping',
+    fallback: '🔤 Keyword fallback',
+};
+
+export default function MappingProfileBar({ analysis }: MappingProfileBarProps) {
+    const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+    const [name, setName] = useState('');
+    const [unitConversions, setUnitConversions] = useState('');
+    const [ruleSetNames, setRuleSetNames] = useState<string[]>([]);
+    const [ruleSet, setRuleSet] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const refreshProfiles = useCallback(() => {
+        return listProfiles()
+            .then(setProfiles)
+            .catch(error => console.error('Failed to load mapping profiles:', error));
+    }, []);
+
+    useEffect(() => {
+        refreshProfiles();
+    }, [refreshProfiles]);
+
+    useEffect(() => {
+        listRuleSets()
+            .then(result => setRuleSetNames(result.ruleSets.map(set => set.name)))
+            .catch(error => console.error('Failed to load risk rule sets:', error));
+    }, []);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setMessage(null);
+
+        // Profiles are saved for the primary line-item sheet and matched against its headers
+        const primarySheet = analysis.sheets.find(sheet => sheet.included && sheet.kind === 'line_items');
+        const result = await saveProfile({
+            name,
+            headers: primarySheet?.headers ?? analysis.headers,
+            columnMapping: analysis.columnMapping,
+            sheetName: primarySheet?.name ?? null,
+            unitConversions,
+            ruleSet: ruleSet || null,
+        });
+
+        setIsSaving(false);
+        if (result.success) {
+            setMessage(`Saved profile "${result.profile?.name}". Files with the same headers will use it automatically.`);
+            setName('');
+            setUnitConversions('');
+            setRuleSet('');
+            await refreshProfiles();
+        } else {
+            setMessage(result.error ?? 'Failed to save profile.');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        const result = await deleteProfile(id);
+        if (result.error) {
+            setMessage(result.error);
+        }
+        await refreshProfiles();
+    };
+
+    return (
+        <div className="mapping-profiles">
+            <div className="mapping-source">
+                <span className={`mapping-source-badge source-${analysis.mappingSource}`}>
+                    {SOURCE_LABELS[analysis.mappingSource]}
+                </span>
+                {analysis.mappingProfile && (
+                    <span className="mapping-profile-name">{analysis.mappingProfile.name}</span>
+                )}
+                <span className="mapping-rule-set" title={analysis.riskRules.description}>
+                    Rules: {analysis.riskRules.name}
+                </span>
+            </div>
+
+            <form className="profile-save-form" onSubmit={handleSave}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Profile name (e.g. ACME weekly RFQ)"
+                />
+                <input
+                    type="text"
+                    value={unitConversions}
+                    onChange={(e) => setUnitConversions(e.target.value)}
+                    placeholder="Unit conversions (e.g. BX=100 EA)"
+                />
+                {ruleSetNames.length > 0 && (
+                    <select value={ruleSet} onChange={(e) => setRuleSet(e.target.value)} title="Risk rule set for this template">
+                        <option value="">Default risk rules</option>
+                        {ruleSetNames.map(setName => (
+                            <option key={setName} value={setName}>{setName}</option>
+                        ))}
+                    </select>
+                )}
+                <button type="submit" disabled={isSaving || !name.trim()}>
+                    {isSaving ? 'Saving...' : 'Save Mapping as Profile'}
+                </button>
+            </form>
+
+            {message && <p className="profile-message">{message}</p>}
+
+            {profiles.length > 0 && (
+                <div className="profile-list">
+                    {profiles.map(profile => (
+                        <div key={profile.id} className="profile-item">
+                            <span className="profile-item-name">{profile.name}</span>
+                            <span className="profile-item-meta">
+                                {profile.headers.length} columns{profile.ruleSet ? ` · rules: ${profile.ruleSet}` : ''} · updated {new Date(profile.updatedAt).toLocaleDateString()}
+                            </span>
+                            <button type="button" onClick={() => handleDelete(profile.id)} title="Delete profile">
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
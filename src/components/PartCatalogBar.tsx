@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { canManageCatalog, deleteCatalog, getCatalogInfo, uploadCatalog } from '@/app/actions/partCatalog';
+import type { PartCatalogInfo } from '@/types/quote';
+
+interface PartCatalogBarProps {
+    onCatalogChange: (catalog: PartCatalogInfo | null) => void;
+}
+
+export default function PartCatalogBar({ onCatalogChange }: PartCatalogBarProps) {
+    const [catalog, setCatalog] = useState<PartCatalogInfo | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    // Uploading and removing is limited to admin deployments
+    const [canManage, setCanManage] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        getCatalogInfo()
+            .then(setCatalog)
+            .catch(error => console.error('Failed to load part catalog:', error));
+        canManageCatalog()
+            .then(setCanManage)
+            .catch(error => console.error('Failed to check catalog permissions:', error));
+    }, []);
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsUploading(true);
+        setMessage(null);
+
+        const formData = new FormData();
+        formData.append('file', file);
+        const result = await uploadCatalog(formData);
+
+        setIsUploading(false);
+        if (result.success && result.catalog) {
+            setCatalog(result.catalog);
+            setMessage(`Imported ${result.catalog.partCount.toLocaleString()} parts from ${result.catalog.fileName}.`);
+            onCatalogChange(result.catalog);
+        } else {
+            setMessage(result.error ?? 'Failed to import catalog.');
+        }
+    };
+
+    const handleRemove = async () => {
+        const result = await deleteCatalog();
+        if (result.error) {
+            setMessage(result.error);
+            return;
+        }
+        setCatalog(null);
+        setMessage(null);
+        onCatalogChange(null);
+    };
+
+    return (
+        <div className="part-catalog-bar">
+            <span className="part-catalog-label">📚 Part Catalog</span>
+            {catalog ? (
+                <span className="part-catalog-info" title={`Imported ${new Date(catalog.importedAt).toLocaleString()}`}>
+                    {catalog.fileName} · {catalog.partCount.toLocaleString()} parts
+                </span>
+            ) : (
+                <span className="part-catalog-info empty">None loaded — line items are not checked against an item master</span>
+            )}
+            {canManage && (
+                <button type="button" onClick={() => inputRef.current?.click()} disabled={isUploading}>
+                    {isUploading ? 'Importing...' : catalog ? 'Replace' : 'Upload CSV/XLSX'}
+                </button>
+            )}
+            {canManage && catalog && (
+                <button type="button" onClick={handleRemove} title="Remove catalog">
+                    ✕
+                </button>
+            )}
+            <input ref={inputRef} type="file" accept=".xlsx,.xls,.csv" hidden onChange={handleUpload} />
+            {message && <p className="part-catalog-message">{message}</p>}
+        </div>
+    );
+}
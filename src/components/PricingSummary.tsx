@@ -0,0 +1,76 @@
+'use client';
+
+import { quoteTotals } from '@/lib/pricing';
+import type { QuoteAnalysis } from '@/types/quote';
+
+interface PricingSummaryProps {
+    analysis: QuoteAnalysis;
+    onTierChange: (tier: string | null) => void;
+}
+
+export default function PricingSummary({ analysis, onTierChange }: PricingSummaryProps) {
+    const { pricing, customerTier, priceBook, rows } = analysis;
+    // Nothing is priced without a price book
+    if (!priceBook) {
+        return null;
+    }
+
+    const totals = quoteTotals(rows);
+    const pricedRows = rows.filter(row => row.pricing !== null).length;
+
+    return (
+        <div className="pricing-summary">
+            <h4>
+                💰 Quote Pricing
+                <span className="pricing-source" title={`Pricing rules "${pricing.name}"`}>
+                    {priceBook.fileName} · {priceBook.partCount.toLocaleString()} parts
+                </span>
+            </h4>
+            <div className="pricing-row">
+                {pricing.tiers.length > 0 && (
+                    <label className="pricing-tier">
+                        Customer tier
+                        <select
+                            value={customerTier ?? ''}
+                            onChange={(e) => onTierChange(e.target.value || null)}
+                        >
+                            <option value="">No tier</option>
+                            {pricing.tiers.map(tier => (
+                                <option key={tier} value={tier}>{tier}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {totals.length > 0 ? (
+                    totals.map(total => (
+                        <div key={total.currency ?? '-'} className="pricing-total">
+                            <span className="pricing-total-value">{formatMoney(total.sell, total.currency)}</span>
+                            {total.marginPercent !== null && (
+                                <span className={`pricing-margin ${total.marginPercent < analysis.riskRules.thresholds.margins.minPercent ? 'below-minimum' : ''}`}>
+                                    {total.marginPercent.toFixed(1)}% margin
+                                </span>
+                            )}
+                        </div>
+                    ))
+                ) : (
+                    <span className="pricing-empty">No line item could be priced</span>
+                )}
+                <span className="pricing-coverage">
+                    {pricedRows} of {rows.length} rows priced
+                </span>
+            </div>
+        </div>
+    );
+}
+
+function formatMoney(value: number, currency: string | null): string {
+    if (currency) {
+        try {
+            return value.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 2 });
+        } catch {
+            // Unknown ISO code - fall through to the plain format with the code appended
+            return `${value.toLocaleString(undefined, { minimumFractionDigits: 2 })} ${currency}`;
+        }
+    }
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2 });
+}
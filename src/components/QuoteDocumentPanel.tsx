@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { EMPTY_QUOTE_DOCUMENT_DETAILS } from '@/lib/quoteDocument';
+import type { QuoteAnalysis, QuoteDocumentDetails, QuoteDocumentFormat } from '@/types/quote';
+
+interface QuoteDocumentPanelProps {
+    analysis: QuoteAnalysis;
+}
+
+// Text fields of the form; the address and notes take several lines
+const FIELDS: { key: keyof QuoteDocumentDetails; label: string; placeholder: string; multiline?: boolean; type?: string }[] = [
+    { key: 'customerName', label: 'Customer', placeholder: 'Company name' },
+    { key: 'customerReference', label: 'Customer reference', placeholder: 'RFQ or enquiry number' },
+    { key: 'customerAddress', label: 'Customer address', placeholder: 'Street, city, country', multiline: true },
+    { key: 'quoteNumber', label: 'Quote number', placeholder: 'Generated' },
+    { key: 'validUntil', label: 'Valid until', placeholder: '', type: 'date' },
+    { key: 'incoterm', label: 'Incoterm', placeholder: 'Our standard, e.g. FCA Hamburg' },
+    { key: 'paymentTerms', label: 'Payment terms', placeholder: 'Our standard, e.g. Net 30' },
+    { key: 'notes', label: 'Notes', placeholder: 'Shown above the terms and conditions', multiline: true },
+];
+
+export default function QuoteDocumentPanel({ analysis }: QuoteDocumentPanelProps) {
+    const [details, setDetails] = useState<QuoteDocumentDetails>(EMPTY_QUOTE_DOCUMENT_DETAILS);
+    const [generating, setGenerating] = useState<QuoteDocumentFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (key: keyof QuoteDocumentDetails, value: string) => {
+        setDetails(prev => ({ ...prev, [key]: value }));
+    };
+
+    const download = async (format: QuoteDocumentFormat) => {
+        setGenerating(format);
+        setError(null);
+        try {
+            const response = await fetch('/api/quote-document', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ format, rows: analysis.rows, currency: analysis.currency, details }),
+            });
+            if (!response.ok) {
+                const body = await response.json().catch(() => null) as { error?: string } | null;
+                throw new Error(body?.error ?? `The document could not be generated (${response.status}).`);
+            }
+
+            // Keep a generated quote number, so the HTML and the PDF of one quote match
+            const quoteNumber = response.headers.get('X-Quote-Number');
+            if (quoteNumber && !details.quoteNumber.trim()) {
+                update('quoteNumber', decodeURIComponent(quoteNumber));
+            }
+
+            const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+                ?? `Quotation.${format}`;
+            const url = URL.createObjectURL(await response.blob());
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = fileName;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setGenerating(null);
+        }
+    };
+
+    return (
+        <div className="quote-document">
+            <h4>
+                📄 Quote Document
+                <span className="quote-document-hint">Empty fields use the standard terms from the quote settings</span>
+            </h4>
+            <div className="quote-document-fields">
+                {FIELDS.map(({ key, label, placeholder, multiline, type }) => (
+                    <label key={key} className={`quote-document-field${multiline ? ' wide' : ''}`}>
+                        {label}
+                        {multiline ? (
+                            <textarea
+                                rows={2}
+                                value={details[key]}
+                                placeholder={placeholder}
+                                onChange={(e) => update(key, e.target.value)}
+                            />
+                        ) : (
+                            <input
+                                type={type ?? 'text'}
+                                value={details[key]}
+                                placeholder={placeholder}
+                                onChange={(e) => update(key, e.target.value)}
+                            />
+                        )}
+                    </label>
+                ))}
+            </div>
+            <div className="quote-document-actions">
+                <button type="button" className="export-btn" onClick={() => download('html')} disabled={generating !== null}>
+                    {generating === 'html' ? 'Generating…' : 'Download HTML'}
+                </button>
+                <button type="button" className="export-btn" onClick={() => download('pdf')} disabled={generating !== null}>
+                    {generating === 'pdf' ? 'Generating…' : 'Download PDF'}
+                </button>
+                {error && <span className="quote-document-error">⚠️ {error}</span>}
+                <span className="quote-document-hint">The HTML follows your quote template; the PDF has a fixed layout</span>
+            </div>
+        </div>
+    );
+}
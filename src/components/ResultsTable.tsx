@@ -1,14 +1,84 @@
 'use client';
 
-import type { ParsedRow } from '@/types/quote';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { LIFECYCLE_STATUS_LABELS } from '@/lib/lifecycle';
+import { rowKey } from '@/lib/rowRefs';
+import type { CatalogMatch, CatalogMatchMethod, ColumnMapping, MappableField, ParsedRow, SheetMapping } from '@/types/quote';
+
+// Source location of the risk selected in the risk panel
+export interface TableHighlight {
+    sheetName: string;
+    rowNumber: number;
+    header: string | null;
+    label: string;
+}
 
 interface ResultsTableProps {
     rows: ParsedRow[];
     isLoading?: boolean;
+    // Column mapping of each line-item sheet, to find the highlighted cell's field
+    sheetMappings?: Record<string, SheetMapping>;
+    highlight?: TableHighlight | null;
+    // Sell price margins below this are marked
+    minMarginPercent?: number;
 }
 
-export default function ResultsTable({ rows, isLoading }: ResultsTableProps) {
+export default function ResultsTable({ rows, isLoading, sheetMappings, highlight, minMarginPercent = 0 }: ResultsTableProps) {
     console.log('ResultsTable rendering with rows:', rows.length, 'Row 2 qty:', rows.find(r => r.rowNumber === 2)?.quantity);
+    // Collapsed assemblies in an indented BOM, keyed like the table rows
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const isTree = rows.some(row => row.level !== null);
+    const rowByKey = useMemo(() => new Map(rows.map(row => [rowKey(row), row])), [rows]);
+    const assemblies = useMemo(() => new Set(
+        rows.filter(row => row.parentRowNumber !== null).map(row => `${row.sheetName}-${row.parentRowNumber}`)
+    ), [rows]);
+
+    const highlightedRow = useMemo(() => highlight
+        ? rows.find(row => row.rowNumber === highlight.rowNumber && row.sheetName === highlight.sheetName)
+        : undefined, [rows, highlight]);
+
+    // A row is hidden when any of its ancestors is collapsed, unless it is the highlighted row's ancestor
+    const visibleRows = useMemo(() => {
+        if (!isTree || collapsed.size === 0) return rows;
+
+        const revealed = new Set<string>();
+        let ancestor = highlightedRow && highlightedRow.parentRowNumber !== null
+            ? rowByKey.get(`${highlightedRow.sheetName}-${highlightedRow.parentRowNumber}`)
+            : undefined;
+        while (ancestor) {
+            revealed.add(rowKey(ancestor));
+            ancestor = ancestor.parentRowNumber !== null ? rowByKey.get(`${ancestor.sheetName}-${ancestor.parentRowNumber}`) : undefined;
+        }
+
+        return rows.filter(row => {
+            let parent = row.parentRowNumber !== null ? rowByKey.get(`${row.sheetName}-${row.parentRowNumber}`) : undefined;
+            while (parent) {
+                if (collapsed.has(rowKey(parent)) && !revealed.has(rowKey(parent))) return false;
+                parent = parent.parentRowNumber !== null ? rowByKey.get(`${parent.sheetName}-${parent.parentRowNumber}`) : undefined;
+            }
+            return true;
+        });
+    }, [rows, rowByKey, collapsed, isTree, highlightedRow]);
+
+    // Bring the highlighted row into view when a risk is selected
+    useEffect(() => {
+        scrollRef.current?.querySelector('.row-highlight')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [highlightedRow]);
+
+    const toggleAssembly = (key: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
     if (isLoading) {
         return (
             <div className="results-table-container">
@@ -34,38 +104,108 @@ export default function ResultsTable({ rows, isLoading }: ResultsTableProps) {
         );
     }
 
+    // The mapped field whose column holds the highlighted cell
+    const columnMapping = highlightedRow ? sheetMappings?.[highlightedRow.sheetName]?.columnMapping : undefined;
+    const highlightedField = highlight?.header && columnMapping
+        ? (Object.keys(columnMapping) as (keyof ColumnMapping)[])
+            .find(key => key !== 'headerRow' && columnMapping[key] === highlight.header) as MappableField | undefined
+        : undefined;
+    const cellClass = (row: ParsedRow, field: MappableField, base: string) =>
+        row === highlightedRow && field === highlightedField ? `${base} cell-highlight` : base;
+
+    // Only show sheet provenance when line items came from more than one sheet
+    const showSheet = new Set(rows.map(row => row.sheetName)).size > 1;
+
+    // Optional columns appear only when the file provided them
+    const showExtended = rows.some(row => row.extendedPrice !== null);
+    const showManufacturer = rows.some(row => row.manufacturer);
+    const showLeadTime = rows.some(row => row.leadTime);
+    const showCatalog = rows.some(row => row.catalogMatch !== null);
+    const showPricing = rows.some(row => row.pricing !== null);
+    const showQuantityTiers = rows.some(row => row.quantityTiers.length > 0);
+
     return (
         <div className="results-table-container">
             <div className="table-header">
                 <h3>📋 Parsed Line Items</h3>
+                {isTree && (
+                    <div className="tree-controls">
+                        <button type="button" onClick={() => setCollapsed(new Set())}>Expand all</button>
+                        <button type="button" onClick={() => setCollapsed(new Set(assemblies))}>Collapse all</button>
+                    </div>
+                )}
+                {highlight && !highlightedRow && (
+                    <span className="highlight-note">📍 {highlight.label} is outside the line-item table</span>
+                )}
                 <span className="row-count">{rows.length} items</span>
             </div>
 
-            <div className="table-scroll">
+            <div className="table-scroll" ref={scrollRef}>
                 <table className="results-table">
                     <thead>
                         <tr>
                             <th>#</th>
+                            {showSheet && <th>Sheet</th>}
                             <th>Part Number</th>
+                            {showManufacturer && <th>Manufacturer</th>}
                             <th>Description</th>
                             <th>Qty</th>
+                            {isTree && <th title="Quantity × parent assembly quantities">Total Qty</th>}
                             <th>UoM</th>
                             <th>Unit Price</th>
+                            {showExtended && <th>Ext. Price</th>}
+                            {showPricing && <th title="Sell price from the price book cost and the pricing rules">Sell Price</th>}
+                            {showPricing && <th title="Sell price × quoted quantity">Ext. Sell</th>}
+                            {showQuantityTiers && <th title="Sell price at each quantity break">Qty Breaks</th>}
+                            {showLeadTime && <th>Lead Time</th>}
                             <th>Notes</th>
+                            {showCatalog && <th>Catalog</th>}
                         </tr>
                     </thead>
                     <tbody>
-                        {rows.map((row, index) => (
+                        {visibleRows.map((row, index) => (
                             <tr
-                                key={row.rowNumber}
-                                className={`table-row ${!row.partNumber ? 'row-warning' : ''}`}
+                                key={rowKey(row)}
+                                className={`table-row ${!row.partNumber ? 'row-warning' : ''} ${row === highlightedRow ? 'row-highlight' : ''}`}
                                 style={{ animationDelay: `${index * 30}ms` }}
                             >
                                 <td className="row-number">{row.rowNumber}</td>
-                                <td className="part-number">
+                                {showSheet && <td className="sheet-name">{row.sheetName}</td>}
+                                <td
+                                    className={cellClass(row, 'partNumber', 'part-number')}
+                                    style={isTree ? { paddingLeft: `${0.75 + (row.level ?? 0) * 1.25}rem` } : undefined}
+                                >
+                                    {isTree && (
+                                        assemblies.has(rowKey(row)) ? (
+                                            <button
+                                                type="button"
+                                                className="tree-toggle"
+                                                onClick={() => toggleAssembly(rowKey(row))}
+                                                aria-label={collapsed.has(rowKey(row)) ? 'Expand assembly' : 'Collapse assembly'}
+                                            >
+                                                {collapsed.has(rowKey(row)) ? '▸' : '▾'}
+                                            </button>
+                                        ) : (
+                                            <span className="tree-leaf" />
+                                        )
+                                    )}
                                     {row.partNumber || <span className="empty-cell">—</span>}
+                                    {row.lifecycle && row.lifecycle.status !== 'active' && (
+                                        <span
+                                            className={`lifecycle-badge lifecycle-${row.lifecycle.status}`}
+                                            title={[row.lifecycle.lastTimeBuyDate && `Last-time buy by ${row.lifecycle.lastTimeBuyDate}`, row.lifecycle.note].filter(Boolean).join(' · ') || undefined}
+                                        >
+                                            {LIFECYCLE_STATUS_LABELS[row.lifecycle.status]}
+                                            {row.lifecycle.replacement && <> → <strong>{row.lifecycle.replacement}</strong></>}
+                                        </span>
+                                    )}
                                 </td>
-                                <td className="description">
+                                {showManufacturer && (
+                                    <td className={cellClass(row, 'manufacturer', 'manufacturer')}>
+                                        {row.manufacturer || <span className="empty-cell">—</span>}
+                                    </td>
+                                )}
+                                <td className={cellClass(row, 'description', 'description')}>
                                     {row.description ? (
                                         <span title={row.description}>
                                             {row.description.length > 50
@@ -76,24 +216,100 @@ export default function ResultsTable({ rows, isLoading }: ResultsTableProps) {
                                         <span className="empty-cell">—</span>
                                     )}
                                 </td>
-                                <td className="quantity">
+                                <td className={cellClass(row, 'quantity', 'quantity')}>
                                     {row.quantity !== null ? (
                                         row.quantity.toLocaleString()
                                     ) : (
                                         <span className="empty-cell">—</span>
                                     )}
+                                    {row.quotedQuantity !== null && row.quantity !== null && row.quotedQuantity !== row.quantity && (
+                                        <span className="quoted-quantity" title="Quoted quantity, rounded up to the MOQ and full packs">
+                                            → {row.quotedQuantity.toLocaleString()} quoted
+                                        </span>
+                                    )}
                                 </td>
-                                <td className="uom">
+                                {isTree && (
+                                    <td className="quantity">
+                                        {row.rolledUpQuantity !== null ? (
+                                            row.rolledUpQuantity.toLocaleString()
+                                        ) : (
+                                            <span className="empty-cell">—</span>
+                                        )}
+                                    </td>
+                                )}
+                                <td className={cellClass(row, 'unitOfMeasure', 'uom')}>
                                     {row.unitOfMeasure || <span className="empty-cell">—</span>}
+                                    {row.baseQuantity !== null && row.quantity !== null && row.baseQuantity !== row.quantity && (
+                                        <span className="base-quantity" title="Quantity in base units">
+                                            = {row.baseQuantity.toLocaleString()} {row.baseUnit}
+                                        </span>
+                                    )}
                                 </td>
-                                <td className="price">
+                                <td className={cellClass(row, 'unitPrice', 'price')}>
                                     {row.unitPrice !== null ? (
-                                        `$${row.unitPrice.toLocaleString(undefined, { minimumFractionDigits: 2 })}`
+                                        formatPrice(row.unitPrice, row.currency)
                                     ) : (
                                         <span className="empty-cell">—</span>
                                     )}
                                 </td>
-                                <td className="notes">
+                                {showExtended && (
+                                    <td className={cellClass(row, 'extendedPrice', 'price')}>
+                                        {row.extendedPrice !== null ? (
+                                            formatPrice(row.extendedPrice, row.currency)
+                                        ) : (
+                                            <span className="empty-cell">—</span>
+                                        )}
+                                    </td>
+                                )}
+                                {showPricing && (
+                                    <td className="price">
+                                        {row.pricing ? (
+                                            <>
+                                                {formatPrice(row.pricing.sellPrice, row.pricing.currency)}
+                                                <span
+                                                    className={`sell-margin ${row.pricing.marginPercent < minMarginPercent ? 'below-minimum' : ''}`}
+                                                    title={row.pricing.ruleId ? `Pricing rule ${row.pricing.ruleId}` : 'Default margin'}
+                                                >
+                                                    {row.pricing.marginPercent.toFixed(1)}% margin
+                                                </span>
+                                            </>
+                                        ) : (
+                                            <span className="empty-cell">—</span>
+                                        )}
+                                    </td>
+                                )}
+                                {showPricing && (
+                                    <td className="price">
+                                        {row.pricing?.extendedSell !== null && row.pricing?.extendedSell !== undefined ? (
+                                            formatPrice(row.pricing.extendedSell, row.pricing.currency)
+                                        ) : (
+                                            <span className="empty-cell">—</span>
+                                        )}
+                                    </td>
+                                )}
+                                {showQuantityTiers && (
+                                    <td className="quantity-tiers">
+                                        {row.quantityTiers.length > 0 ? (
+                                            row.quantityTiers.map(tier => (
+                                                <div key={tier.header} className="quantity-tier" title={tier.header}>
+                                                    <span className="quantity-tier-quantity">
+                                                        {tier.quantity.toLocaleString()}
+                                                        {tier.quotedQuantity !== tier.quantity && ` → ${tier.quotedQuantity.toLocaleString()}`}
+                                                    </span>
+                                                    {tier.pricing ? formatPrice(tier.pricing.sellPrice, tier.pricing.currency) : '—'}
+                                                </div>
+                                            ))
+                                        ) : (
+                                            <span className="empty-cell">—</span>
+                                        )}
+                                    </td>
+                                )}
+                                {showLeadTime && (
+                                    <td className={cellClass(row, 'leadTime', 'lead-time')}>
+                                        {row.leadTime || <span className="empty-cell">—</span>}
+                                    </td>
+                                )}
+                                <td className={cellClass(row, 'notes', 'notes')}>
                                     {row.notes ? (
                                         <span title={row.notes}>
                                             {row.notes.length > 30
@@ -104,6 +320,11 @@ export default function ResultsTable({ rows, isLoading }: ResultsTableProps) {
                                         <span className="empty-cell">—</span>
                                     )}
                                 </td>
+                                {showCatalog && (
+                                    <td className="catalog">
+                                        <CatalogCell row={row} match={row.catalogMatch} />
+                                    </td>
+                                )}
                             </tr>
                         ))}
                     </tbody>
@@ -112,3 +333,61 @@ export default function ResultsTable({ rows, isLoading }: ResultsTableProps) {
         </div>
     );
 }
+
+const MATCH_LABELS: Record<CatalogMatchMethod, string> = {
+    exact: 'Exact',
+    normalized: 'Normalized',
+    fuzzy: 'Fuzzy',
+    description: 'By description',
+};
+
+function CatalogCell({ row, match }: { row: ParsedRow; match: CatalogMatch | null }) {
+    if (!match) {
+        return <span className="empty-cell">—</span>;
+    }
+    if (!match.entry || !match.method) {
+        return <span className="catalog-badge catalog-unknown">Not in catalog</span>;
+    }
+
+    const { entry } = match;
+    const details = [
+        entry.listPrice !== null ? formatPrice(entry.listPrice, entry.currency) : null,
+        entry.unitOfMeasure || null,
+        entry.moq !== null ? `MOQ ${entry.moq.toLocaleString()}` : null,
+        entry.packMultiple !== null ? `×${entry.packMultiple.toLocaleString()}` : null,
+        entry.leadTime || null,
+        entry.lifecycleStatus || null,
+    ].filter(Boolean);
+
+    return (
+        <>
+            <span
+                className={`catalog-badge catalog-${match.method}`}
+                title={match.descriptionSimilarity !== null ? `Description ${Math.round(match.descriptionSimilarity * 100)}% similar` : undefined}
+            >
+                {MATCH_LABELS[match.method]} · {Math.round(match.confidence * 100)}%
+            </span>
+            {entry.partNumber !== row.partNumber.trim() && (
+                <span className="catalog-part">{entry.partNumber}</span>
+            )}
+            {entry.description && (
+                <span className="catalog-description" title={entry.description}>
+                    {entry.description.length > 40 ? entry.description.substring(0, 40) + '...' : entry.description}
+                </span>
+            )}
+            {details.length > 0 && <span className="catalog-details">{details.join(' · ')}</span>}
+        </>
+    );
+}
+
+function formatPrice(value: number, currency: string | null): string {
+    if (currency) {
+        try {
+            return value.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 2 });
+        } catch {
+            // Unknown ISO code - fall through to the plain format with the code appended
+            return `${value.toLocaleString(undefined, { minimumFractionDigits: 2 })} ${currency}`;
+        }
+    }
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2 });
+}
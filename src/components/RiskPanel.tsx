@@ -1,6 +1,12 @@
 'use client';
 
-import type { RiskFlag, RiskLevel } from '@/types/quote';
+import { useState } from 'react';
+import { RISK_TYPE_LABELS } from '@/lib/schemas';
+import { formatExpectedRange } from '@/lib/riskDetector';
+import { formatRowRefs } from '@/lib/rowRefs';
+import type { DealScore, RiskFlag, RiskLevel, RiskReview, RiskStatus } from '@/types/quote';
+
+type ReviewDraft = Omit<RiskReview, 'riskId' | 'reviewedAt'>;
 
 interface RiskPanelProps {
     risks: RiskFlag[];
@@ -10,8 +16,14 @@ interface RiskPanelProps {
         highRisks: number;
         mediumRisks: number;
         lowRisks: number;
+        reviewedRisks?: number;
+        dealScore?: DealScore | null;
     };
     isLoading?: boolean;
+    reviews?: Record<string, RiskReview>;
+    selectedRiskId?: string | null;
+    onSelectRisk?: (risk: RiskFlag) => void;
+    onReviewRisk?: (riskId: string, review: Omit<RiskReview, 'riskId'> | null) => void;
 }
 
 const RISK_CONFIG: Record<RiskLevel, { icon: string; color: string; label: string }> = {
@@ -21,16 +33,84 @@ const RISK_CONFIG: Record<RiskLevel, { icon: string; color: string; label: strin
     low: { icon: 'ℹ️', color: '#3b82f6', label: 'Low' },
 };
 
-const TYPE_LABELS: Record<string, string> = {
-    incoterms: 'Incoterms',
-    liquidated_damages: 'Liquidated Damages',
-    uom_conflict: 'UoM Conflict',
-    duplicate: 'Duplicate',
-    missing_data: 'Missing Data',
-    general: 'General',
+const RECOMMENDATION_CONFIG: Record<DealScore['recommendation'], { label: string; color: string }> = {
+    go: { label: 'Go', color: '#10b981' },
+    review: { label: 'Review', color: '#f59e0b' },
+    escalate: { label: 'Escalate', color: '#ef4444' },
+};
+
+/**
+ * Half-circle gauge of the deal score with its largest contributing factors
+ */
+function DealScoreGauge({ dealScore }: { dealScore: DealScore }) {
+    const config = RECOMMENDATION_CONFIG[dealScore.recommendation];
+    return (
+        <div className={`deal-score deal-${dealScore.recommendation}`}>
+            <svg className="deal-gauge" viewBox="0 0 100 56" role="img" aria-label={`Deal risk score ${dealScore.score} of 100`}>
+                <path className="deal-gauge-track" d="M 8 50 A 42 42 0 0 1 92 50" pathLength={100} />
+                <path
+                    className="deal-gauge-fill"
+                    d="M 8 50 A 42 42 0 0 1 92 50"
+                    pathLength={100}
+                    style={{ stroke: config.color, strokeDasharray: `${dealScore.score} 100` }}
+                />
+                <text x="50" y="46" className="deal-gauge-value">{dealScore.score}</text>
+            </svg>
+            <div className="deal-score-details">
+                <span className="deal-score-label">Deal Risk Score</span>
+                <span className="deal-recommendation" style={{ color: config.color }}>{config.label}</span>
+                {dealScore.factors.length > 0 && (
+                    <ul className="deal-factors">
+                        {dealScore.factors.slice(0, 4).map(factor => (
+                            <li key={factor.key} title={factor.detail}>
+                                <span>{factor.label}</span>
+                                <span className="deal-factor-points">+{factor.points}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
+
+const STATUS_LABELS: Record<RiskStatus, string> = {
+    open: 'Open',
+    acknowledged: 'Acknowledged',
+    waived: 'Waived',
+    resolved: 'Resolved',
 };
 
-export default function RiskPanel({ risks, summary, isLoading }: RiskPanelProps) {
+export default function RiskPanel({ risks, summary, isLoading, reviews = {}, selectedRiskId, onSelectRisk, onReviewRisk }: RiskPanelProps) {
+    const [reviewingId, setReviewingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<ReviewDraft>({ status: 'acknowledged', reviewer: '', justification: '' });
+
+    // The reviewer name is kept between reviews; status and justification come from the risk's last review
+    const startReview = (risk: RiskFlag) => {
+        const existing = reviews[risk.id];
+        setDraft(prev => ({
+            status: existing?.status ?? 'acknowledged',
+            reviewer: existing?.reviewer ?? prev.reviewer,
+            justification: existing?.justification ?? '',
+        }));
+        setReviewingId(risk.id);
+    };
+
+    const saveReview = (riskId: string) => {
+        onReviewRisk?.(riskId, {
+            status: draft.status,
+            reviewer: draft.reviewer.trim(),
+            justification: draft.justification.trim(),
+            reviewedAt: new Date().toISOString(),
+        });
+        setReviewingId(null);
+    };
+
+    const reopen = (riskId: string) => {
+        onReviewRisk?.(riskId, null);
+        setReviewingId(null);
+    };
+
     if (isLoading) {
         return (
             <div className="risk-panel">
@@ -46,10 +126,17 @@ export default function RiskPanel({ risks, summary, isLoading }: RiskPanelProps)
     }
 
     const hasRisks = risks.length > 0;
+    const hasOpenRisks = summary ? summary.totalRisks > 0 : hasRisks;
     const hasCriticalOrHigh = summary && (summary.criticalRisks > 0 || summary.highRisks > 0);
 
+    // Reviewed risks move below the open ones
+    const orderedRisks = [
+        ...risks.filter(risk => !reviews[risk.id]),
+        ...risks.filter(risk => reviews[risk.id]),
+    ];
+
     return (
-        <div className={`risk-panel ${hasCriticalOrHigh ? 'has-critical' : hasRisks ? 'has-warnings' : 'all-clear'}`}>
+        <div className={`risk-panel ${hasCriticalOrHigh ? 'has-critical' : hasOpenRisks ? 'has-warnings' : 'all-clear'}`}>
             <div className="risk-header">
                 <h3>🛡️ Risk Assessment</h3>
                 {summary && (
@@ -66,10 +153,15 @@ export default function RiskPanel({ risks, summary, isLoading }: RiskPanelProps)
                         {summary.lowRisks > 0 && (
                             <span className="badge low">{summary.lowRisks} Low</span>
                         )}
+                        {(summary.reviewedRisks ?? 0) > 0 && (
+                            <span className="badge reviewed">{summary.reviewedRisks} Reviewed</span>
+                        )}
                     </div>
                 )}
             </div>
 
+            {summary?.dealScore && <DealScoreGauge dealScore={summary.dealScore} />}
+
             {!hasRisks ? (
                 <div className="risk-clear">
                     <div className="clear-icon">✅</div>
@@ -78,26 +170,39 @@ export default function RiskPanel({ risks, summary, isLoading }: RiskPanelProps)
                 </div>
             ) : (
                 <div className="risk-list">
-                    {risks.map((risk, index) => {
+                    {orderedRisks.map((risk, index) => {
                         const config = RISK_CONFIG[risk.level];
+                        const review = reviews[risk.id];
+                        // Risks that point at a cell or row can be located in the table
+                        const locatable = Boolean(onSelectRisk && (risk.source || risk.affectedRows?.length));
                         return (
                             <div
                                 key={risk.id}
-                                className={`risk-item risk-${risk.level}`}
+                                className={`risk-item risk-${risk.level} ${locatable ? 'risk-locatable' : ''} ${risk.id === selectedRiskId ? 'risk-selected' : ''} ${review ? 'risk-reviewed' : ''}`}
                                 style={{ animationDelay: `${index * 50}ms` }}
+                                onClick={locatable ? () => onSelectRisk?.(risk) : undefined}
+                                onKeyDown={locatable ? (e) => { if (e.key === 'Enter' || e.key === ' ') onSelectRisk?.(risk); } : undefined}
+                                role={locatable ? 'button' : undefined}
+                                tabIndex={locatable ? 0 : undefined}
+                                title={locatable ? 'Show in table' : undefined}
                             >
                                 <div className="risk-item-header">
                                     <span className="risk-icon">{config.icon}</span>
                                     <div className="risk-title-group">
                                         <h4>{risk.title}</h4>
                                         <div className="risk-meta">
-                                            <span className="risk-type">{TYPE_LABELS[risk.type] || risk.type}</span>
+                                            <span className="risk-type">{RISK_TYPE_LABELS[risk.type] || risk.type}</span>
                                             <span
                                                 className="risk-level-badge"
                                                 style={{ backgroundColor: config.color }}
                                             >
                                                 {config.label}
                                             </span>
+                                            {review && (
+                                                <span className={`review-status status-${review.status}`}>
+                                                    {STATUS_LABELS[review.status]}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -111,20 +216,97 @@ export default function RiskPanel({ risks, summary, isLoading }: RiskPanelProps)
                                     </div>
                                 )}
 
+                                {risk.source && (
+                                    <div className="risk-source">
+                                        <span className="source-label">📍 {risk.source.cellRef}</span>
+                                        <q className="source-snippet">{risk.source.snippet}</q>
+                                        {risk.occurrences && risk.occurrences.length > 1 && (
+                                            <span className="source-occurrences">
+                                                Stated in: {risk.occurrences.map(o => o.cellRef).join(', ')}
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
+
                                 {risk.affectedRows && risk.affectedRows.length > 0 && (
                                     <div className="risk-rows">
                                         <span className="rows-label">Affected rows:</span>
                                         <span className="rows-list">
-                                            {risk.affectedRows.slice(0, 5).join(', ')}
-                                            {risk.affectedRows.length > 5 && ` +${risk.affectedRows.length - 5} more`}
+                                            {formatRowRefs(risk.affectedRows, 5)}
                                         </span>
                                     </div>
                                 )}
 
+                                {risk.expectedRange && (
+                                    <div className="risk-rows">
+                                        <span className="rows-label">Expected range:</span>
+                                        <span className="rows-list">{formatExpectedRange(risk.expectedRange)}</span>
+                                    </div>
+                                )}
+
                                 <div className="risk-recommendation">
                                     <span className="recommendation-label">📋 Recommendation:</span>
                                     <p>{risk.recommendation}</p>
                                 </div>
+
+                                {review && reviewingId !== risk.id && (
+                                    <div className="risk-review-note">
+                                        <span className="review-meta">
+                                            {STATUS_LABELS[review.status]} by {review.reviewer} · {new Date(review.reviewedAt).toLocaleString()}
+                                        </span>
+                                        <p>{review.justification}</p>
+                                    </div>
+                                )}
+
+                                {onReviewRisk && (reviewingId === risk.id ? (
+                                    // Keep clicks and keystrokes in the form from selecting the risk
+                                    <div className="risk-review-form" onClick={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+                                        <select
+                                            value={draft.status}
+                                            onChange={e => setDraft(prev => ({ ...prev, status: e.target.value as ReviewDraft['status'] }))}
+                                        >
+                                            {(['acknowledged', 'waived', 'resolved'] as const).map(status => (
+                                                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="text"
+                                            placeholder="Reviewer"
+                                            value={draft.reviewer}
+                                            onChange={e => setDraft(prev => ({ ...prev, reviewer: e.target.value }))}
+                                        />
+                                        <textarea
+                                            placeholder="Justification, e.g. DDP accepted by sales VP"
+                                            rows={2}
+                                            value={draft.justification}
+                                            onChange={e => setDraft(prev => ({ ...prev, justification: e.target.value }))}
+                                        />
+                                        <div className="review-actions">
+                                            <button
+                                                type="button"
+                                                onClick={() => saveReview(risk.id)}
+                                                disabled={!draft.reviewer.trim() || !draft.justification.trim()}
+                                            >
+                                                Save
+                                            </button>
+                                            {review && (
+                                                <button type="button" onClick={() => reopen(risk.id)}>Reopen</button>
+                                            )}
+                                            <button type="button" onClick={() => setReviewingId(null)}>Cancel</button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        className="risk-review-btn"
+                                        onClick={e => {
+                                            e.stopPropagation();
+                                            startReview(risk);
+                                        }}
+                                    >
+                                        {review ? 'Edit review' : 'Review'}
+                                    </button>
+                                ))}
                             </div>
                         );
                     })}
@@ -0,0 +1,52 @@
+'use client';
+
+import type { SheetInfo, SheetKind } from '@/types/quote';
+
+interface SheetSelectorProps {
+    sheets: SheetInfo[];
+    onToggleSheet: (sheetName: string, included: boolean) => void;
+    isProcessing?: boolean;
+}
+
+const KIND_LABELS: Record<SheetKind, { icon: string; label: string }> = {
+    line_items: { icon: '📋', label: 'Line Items' },
+    terms: { icon: '📜', label: 'Terms' },
+    ignore: { icon: '⏭️', label: 'Ignored' },
+};
+
+export default function SheetSelector({ sheets, onToggleSheet, isProcessing }: SheetSelectorProps) {
+    // Nothing to choose for single-sheet workbooks
+    if (sheets.length <= 1) {
+        return null;
+    }
+
+    return (
+        <div className="sheet-selector">
+            <h4>📑 Workbook Sheets</h4>
+            <div className="sheet-list">
+                {sheets.map(sheet => {
+                    const kind = KIND_LABELS[sheet.kind];
+                    return (
+                        <label
+                            key={sheet.name}
+                            className={`sheet-item sheet-${sheet.kind} ${sheet.included ? '' : 'excluded'}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={sheet.included}
+                                disabled={isProcessing}
+                                onChange={(e) => onToggleSheet(sheet.name, e.target.checked)}
+                            />
+                            <span className="sheet-name">{sheet.name}</span>
+                            <span className="sheet-kind">{kind.icon} {kind.label}</span>
+                            <span className="sheet-rows">
+                                {sheet.rowCount} rows
+                                {sheet.kind === 'line_items' && ` · header row ${sheet.headerRow}`}
+                            </span>
+                        </label>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+import type { BomNode, BomSource, BomStructure, ParsedRow, SheetRow } from '@/types/quote';
+
+/**
+ * Indented (hierarchical) BOM support
+ *
+ * Engineering BOMs express structure either with a level column
+ * ("Level" = 0/1/2, or SAP-style ".1", "..2") or with dotted item numbers
+ * ("1", "1.2", "1.2.3"). Rows stay flat in file order; each row gets its
+ * level and parent, and the tree is built on top of that.
+ */
+
+const LEVEL_HEADER_PATTERN = /^(bom\s*)?(level|lvl|indent(ure)?(\s*level)?)$/i;
+const ITEM_HEADER_PATTERN = /^(item|find|pos(ition)?|line|ref)(\s*(no\.?|#|number|num))?$|^(no\.?|#)$/i;
+
+const LEVEL_VALUE_PATTERN = /^(\.*)(\d{1,2})$/;
+const ITEM_NUMBER_PATTERN = /^\d+(\.\d+)*\.?$/;
+
+// Share of non-empty values that must look structural before a column is trusted
+const MIN_STRUCTURAL_RATIO = 0.8;
+
+/**
+ * Parse a level cell ("2", ".2", "..2"); null if it is not a level
+ */
+function parseLevel(value: unknown): number | null {
+    const match = String(value ?? '').trim().match(LEVEL_VALUE_PATTERN);
+    return match ? parseInt(match[2], 10) : null;
+}
+
+/**
+ * Depth of a dotted item number ("1" → 0, "1.2.3" → 2); null if it is not one
+ */
+function itemDepth(value: unknown): number | null {
+    const text = String(value ?? '').trim();
+    if (!ITEM_NUMBER_PATTERN.test(text)) return null;
+    return text.replace(/\.$/, '').split('.').length - 1;
+}
+
+/**
+ * Find the column that carries BOM structure, if any.
+ * A level column wins over item numbers; both need at least two distinct depths.
+ */
+export function detectHierarchyColumn(sourceRows: SheetRow[]): BomSource | null {
+    const headers = [...new Set(sourceRows.slice(0, 50).flatMap(row => Object.keys(row.data)))];
+
+    const candidates: [BomSource['kind'], RegExp, (value: unknown) => number | null][] = [
+        ['level', LEVEL_HEADER_PATTERN, parseLevel],
+        ['item_number', ITEM_HEADER_PATTERN, itemDepth],
+    ];
+
+    for (const [kind, headerPattern, depthOf] of candidates) {
+        for (const header of headers.filter(h => headerPattern.test(h.trim()))) {
+            const values = sourceRows.map(row => String(row.data[header] ?? '').trim()).filter(v => v !== '');
+            if (values.length === 0) continue;
+
+            const depths = values.map(depthOf).filter((d): d is number => d !== null);
+            if (depths.length / values.length >= MIN_STRUCTURAL_RATIO && new Set(depths).size > 1) {
+                return { column: header, kind };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Assign level and parent to each row, then roll quantities up.
+ * Rows without a structural value inherit nothing and are treated as top level.
+ */
+export function applyHierarchy(rows: ParsedRow[], source: BomSource): ParsedRow[] {
+    const depthOf = source.kind === 'level' ? parseLevel : itemDepth;
+
+    // Normalize so the shallowest level is 0 (some BOMs start at 1)
+    const rawDepths = rows.map(row => depthOf(row.rawData[source.column]));
+    const known = rawDepths.filter((d): d is number => d !== null);
+    const base = known.length > 0 ? Math.min(...known) : 0;
+
+    const result: ParsedRow[] = [];
+    // Open ancestors per sheet, deepest last
+    const stacks = new Map<string, ParsedRow[]>();
+    const itemIndex = new Map<string, ParsedRow>();
+
+    rows.forEach((row, i) => {
+        const depth = rawDepths[i];
+        const stack = stacks.get(row.sheetName) ?? [];
+        stacks.set(row.sheetName, stack);
+
+        if (depth === null) {
+            result.push({ ...row, level: null, parentRowNumber: null });
+            return;
+        }
+
+        const level = depth - base;
+        while (stack.length > 0 && (stack[stack.length - 1].level ?? 0) >= level) {
+            stack.pop();
+        }
+
+        // Dotted item numbers name their parent directly; fall back to indentation order
+        let parent: ParsedRow | undefined = stack[stack.length - 1];
+        if (source.kind === 'item_number') {
+            const item = String(row.rawData[source.column]).trim().replace(/\.$/, '');
+            const parentItem = item.split('.').slice(0, -1).join('.');
+            parent = parentItem ? itemIndex.get(`${row.sheetName}:${parentItem}`) ?? parent : undefined;
+        }
+
+        const placed: ParsedRow = {
+            ...row,
+            level,
+            parentRowNumber: parent?.rowNumber ?? null,
+        };
+
+        result.push(placed);
+        stack.push(placed);
+        if (source.kind === 'item_number') {
+            itemIndex.set(`${row.sheetName}:${String(row.rawData[source.column]).trim().replace(/\.$/, '')}`, placed);
+        }
+    });
+
+    return withRolledUpQuantities(result);
+}
+
+/**
+ * Roll quantities up the tree from each row's stored level and parent: a component's
+ * rolled-up quantity is its quantity times its parent's. Re-run after quantities change.
+ * Flat files (no row has a level) come back unchanged.
+ */
+export function withRolledUpQuantities(rows: ParsedRow[]): ParsedRow[] {
+    if (!rows.some(row => row.level !== null)) return rows;
+
+    // Parents come before their components in file order
+    const rolledUp = new Map<string, number | null>();
+    return rows.map(row => {
+        const parentKey = row.parentRowNumber !== null ? `${row.sheetName}:${row.parentRowNumber}` : null;
+        const parentQuantity = parentKey !== null && rolledUp.has(parentKey) ? rolledUp.get(parentKey)! : undefined;
+
+        // A component whose parent was removed counts as top level
+        const rolledUpQuantity = row.quantity === null
+            ? null
+            : parentQuantity === undefined
+                ? row.quantity
+                : parentQuantity !== null ? parentQuantity * row.quantity : null;
+
+        rolledUp.set(`${row.sheetName}:${row.rowNumber}`, rolledUpQuantity);
+        return { ...row, rolledUpQuantity };
+    });
+}
+
+/**
+ * Build the assembly tree from rows that already carry level and parent
+ */
+export function buildBomTree(rows: ParsedRow[], source: BomSource): BomStructure {
+    const nodes = new Map<string, BomNode>();
+    const roots: BomNode[] = [];
+
+    for (const row of rows) {
+        const node: BomNode = {
+            sheetName: row.sheetName,
+            rowNumber: row.rowNumber,
+            level: row.level ?? 0,
+            children: [],
+        };
+        nodes.set(`${row.sheetName}:${row.rowNumber}`, node);
+
+        const parent = row.parentRowNumber !== null
+            ? nodes.get(`${row.sheetName}:${row.parentRowNumber}`)
+            : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+
+    return {
+        ...source,
+        maxDepth: rows.reduce((max, row) => Math.max(max, row.level ?? 0), 0),
+        roots,
+    };
+}
+
+/**
+ * Detect and apply BOM structure in one step; flat files come back unchanged with `bom: null`
+ */
+export function resolveHierarchy(
+    sourceRows: SheetRow[],
+    rows: ParsedRow[]
+): { rows: ParsedRow[]; bom: BomStructure | null } {
+    const source = detectHierarchyColumn(sourceRows);
+    if (!source) {
+        return { rows, bom: null };
+    }
+
+    const structured = applyHierarchy(rows, source);
+    return { rows: structured, bom: buildBomTree(structured, source) };
+}
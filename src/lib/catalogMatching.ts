@@ -0,0 +1,235 @@
+import { normalizePartNumber } from './partNumbers';
+import type { CatalogEntry, CatalogMatch, ParsedRow, RiskThresholds } from '@/types/quote';
+
+/**
+ * Part catalog matching
+ *
+ * Looks rows up in the local part master: first on the part number as written,
+ * then on the normalized part number (see partNumbers.ts), then fuzzily on the
+ * part number (edit distance, for transposed or missing characters), and
+ * finally on the description alone for rows without a usable part number.
+ * Each match carries a 0–1 confidence and, when both sides have one, how
+ * similar the row's description is to the catalog's.
+ *
+ * Runs on the server only: the catalog is never sent to the browser as a
+ * whole, nor to an AI provider.
+ */
+
+type CatalogThresholds = Pick<RiskThresholds, 'partNumbers' | 'catalog'>;
+
+// Confidence of each method, scaled by similarity for the fuzzy ones
+const NORMALIZED_CONFIDENCE = 0.95;
+const FUZZY_CONFIDENCE = 0.9;
+const DESCRIPTION_CONFIDENCE = 0.8;
+
+// Fuzzy candidates compared in full per row, after the trigram pre-filter
+const MAX_CANDIDATES = 20;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'the', 'to', 'with', 'w/', 'x']);
+
+export interface CatalogIndex {
+    entries: CatalogEntry[];
+    exact: Map<string, CatalogEntry>;
+    normalized: Map<string, CatalogEntry>;
+    keys: string[];
+    trigrams: Map<string, number[]>;
+    tokens: Map<string, number[]>;
+    descriptionTokens: Set<string>[];
+}
+
+/**
+ * Lower-case words and numbers of a description, without filler words
+ */
+export function descriptionTokens(text: string): Set<string> {
+    return new Set(
+        text.toLowerCase()
+            .split(/[^\p{L}\p{N}.]+/u)
+            .map(token => token.replace(/^\.+|\.+$/g, ''))
+            .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+    );
+}
+
+/**
+ * Dice coefficient of two token sets (0 = nothing in common, 1 = same words)
+ */
+function dice(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const token of a) {
+        if (b.has(token)) shared++;
+    }
+    return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Similarity of two descriptions (0–1)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+    return dice(descriptionTokens(a), descriptionTokens(b));
+}
+
+/**
+ * Edit distance where swapping two neighbouring characters counts as one edit
+ */
+function editDistance(a: string, b: string): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+        }
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized part numbers (0–1), from their edit distance
+ */
+export function partNumberSimilarity(a: string, b: string): number {
+    const length = Math.max(a.length, b.length);
+    return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+}
+
+function trigramsOf(key: string): string[] {
+    const padded = `  ${key} `;
+    const grams = new Set<string>();
+    for (let i = 0; i + 3 <= padded.length; i++) {
+        grams.add(padded.slice(i, i + 3));
+    }
+    return [...grams];
+}
+
+function addToIndex(index: Map<string, number[]>, key: string, position: number): void {
+    const positions = index.get(key);
+    if (positions) {
+        positions.push(position);
+    } else {
+        index.set(key, [position]);
+    }
+}
+
+/**
+ * Index catalog entries for lookups; the first entry wins when part numbers repeat
+ */
+export function createCatalogIndex(entries: CatalogEntry[], thresholds: CatalogThresholds): CatalogIndex {
+    const index: CatalogIndex = {
+        entries,
+        exact: new Map(),
+        normalized: new Map(),
+        keys: [],
+        trigrams: new Map(),
+        tokens: new Map(),
+        descriptionTokens: [],
+    };
+
+    entries.forEach((entry, position) => {
+        const key = normalizePartNumber(entry.partNumber, thresholds.partNumbers);
+        const exact = entry.partNumber.trim().toUpperCase();
+        if (!index.exact.has(exact)) index.exact.set(exact, entry);
+        if (!index.normalized.has(key)) index.normalized.set(key, entry);
+        index.keys.push(key);
+        trigramsOf(key).forEach(gram => addToIndex(index.trigrams, gram, position));
+
+        const tokens = descriptionTokens(entry.description);
+        index.descriptionTokens.push(tokens);
+        tokens.forEach(token => addToIndex(index.tokens, token, position));
+    });
+
+    return index;
+}
+
+/**
+ * Catalog positions sharing the most index keys with the query
+ */
+function candidates(index: Map<string, number[]>, keys: Iterable<string>): number[] {
+    const shared = new Map<number, number>();
+    for (const key of keys) {
+        for (const position of index.get(key) ?? []) {
+            shared.set(position, (shared.get(position) ?? 0) + 1);
+        }
+    }
+    return [...shared]
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, MAX_CANDIDATES)
+        .map(([position]) => position);
+}
+
+function matchOf(entry: CatalogEntry, method: CatalogMatch['method'], confidence: number, description: string): CatalogMatch {
+    return {
+        entry,
+        method,
+        confidence: Math.round(confidence * 100) / 100,
+        descriptionSimilarity: description.trim() && entry.description.trim()
+            ? Math.round(descriptionSimilarity(description, entry.description) * 100) / 100
+            : null,
+    };
+}
+
+/**
+ * Look one part number / description up in the catalog
+ */
+export function lookupCatalog(
+    partNumber: string,
+    description: string,
+    index: CatalogIndex,
+    thresholds: CatalogThresholds
+): CatalogMatch {
+    const { minFuzzyScore, minDescriptionScore } = thresholds.catalog;
+
+    if (partNumber.trim()) {
+        const exact = index.exact.get(partNumber.trim().toUpperCase());
+        if (exact) return matchOf(exact, 'exact', 1, description);
+
+        const key = normalizePartNumber(partNumber, thresholds.partNumbers);
+        const normalized = index.normalized.get(key);
+        if (normalized) return matchOf(normalized, 'normalized', NORMALIZED_CONFIDENCE, description);
+
+        let best: { position: number; similarity: number } | null = null;
+        for (const position of candidates(index.trigrams, trigramsOf(key))) {
+            const similarity = partNumberSimilarity(key, index.keys[position]);
+            if (similarity >= minFuzzyScore && (!best || similarity > best.similarity)) {
+                best = { position, similarity };
+            }
+        }
+        if (best) return matchOf(index.entries[best.position], 'fuzzy', best.similarity * FUZZY_CONFIDENCE, description);
+    }
+
+    // A description alone is only trusted when it says enough to tell items apart
+    const tokens = descriptionTokens(description);
+    if (tokens.size >= 2) {
+        let best: { position: number; similarity: number } | null = null;
+        for (const position of candidates(index.tokens, tokens)) {
+            const similarity = dice(tokens, index.descriptionTokens[position]);
+            if (similarity >= minDescriptionScore && (!best || similarity > best.similarity)) {
+                best = { position, similarity };
+            }
+        }
+        if (best) return matchOf(index.entries[best.position], 'description', best.similarity * DESCRIPTION_CONFIDENCE, description);
+    }
+
+    return { entry: null, method: null, confidence: 0, descriptionSimilarity: null };
+}
+
+/**
+ * Look every row up in the catalog; rows without a part number or description stay unmatched
+ */
+export function matchRowsToCatalog<T extends Pick<ParsedRow, 'partNumber' | 'description'>>(
+    rows: T[],
+    entries: CatalogEntry[],
+    thresholds: CatalogThresholds
+): (CatalogMatch | null)[] {
+    const index = createCatalogIndex(entries, thresholds);
+    return rows.map(row => row.partNumber.trim() || row.description.trim()
+        ? lookupCatalog(row.partNumber, row.description, index, thresholds)
+        : null);
+}
@@ -0,0 +1,90 @@
+import type { CellSource, TextCell } from '@/types/quote';
+
+/**
+ * Cell provenance for text-derived risks
+ *
+ * Text detectors scan the workbook cell by cell (see readTextCells) so every
+ * flag can name the cell it came from ("Sheet1!F14") and quote the text
+ * around the match, instead of pointing at the document as a whole.
+ */
+
+// Characters of context kept on each side of a match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Sheet-qualified A1 reference; sheet names that are not plain identifiers are quoted as in Excel
+ */
+export function cellRef(sheetName: string, column: string, rowNumber: number): string {
+    const sheet = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheetName)
+        ? sheetName
+        : `'${sheetName.replace(/'/g, "''")}'`;
+    return `${sheet}!${column}${rowNumber}`;
+}
+
+/**
+ * Provenance for a match at [start, end) in a cell, with surrounding context
+ */
+export function cellSource(cell: TextCell, start: number = 0, end: number = cell.text.length): CellSource {
+    const from = Math.max(0, start - SNIPPET_CONTEXT);
+    const to = Math.min(cell.text.length, end + SNIPPET_CONTEXT);
+    const snippet = [
+        from > 0 ? '…' : '',
+        cell.text.substring(from, to).replace(/\s+/g, ' ').trim(),
+        to < cell.text.length ? '…' : '',
+    ].join('');
+
+    return {
+        sheetName: cell.sheetName,
+        rowNumber: cell.rowNumber,
+        column: cell.column,
+        header: cell.header,
+        cellRef: cellRef(cell.sheetName, cell.column, cell.rowNumber),
+        snippet,
+    };
+}
+
+/**
+ * First cell (in reading order) matching a pattern, with the match
+ */
+export function findInCells(cells: TextCell[], pattern: RegExp): { cell: TextCell; match: RegExpMatchArray } | null {
+    // A global flag would make match() return every hit without positions
+    const single = pattern.global ? new RegExp(pattern.source, pattern.flags.replace('g', '')) : pattern;
+
+    for (const cell of cells) {
+        const match = cell.text.match(single);
+        if (match) return { cell, match };
+    }
+    return null;
+}
+
+/**
+ * Provenance for a match found by findInCells
+ */
+export function matchSource(found: { cell: TextCell; match: RegExpMatchArray }): CellSource {
+    const start = found.match.index ?? 0;
+    return cellSource(found.cell, start, start + found.match[0].length);
+}
+
+/**
+ * Locate text that was extracted elsewhere (e.g. from rawText) in the cells; case-insensitive
+ */
+export function locateText(cells: TextCell[], text: string | undefined): CellSource | undefined {
+    const needle = text?.trim().toLowerCase();
+    if (!needle) return undefined;
+
+    for (const cell of cells) {
+        const start = cell.text.toLowerCase().indexOf(needle);
+        if (start !== -1) return cellSource(cell, start, start + needle.length);
+    }
+    return undefined;
+}
+
+/**
+ * The given cell followed by the other cells on its row, for context that spans columns
+ */
+export function rowContext(cells: TextCell[], cell: TextCell): TextCell[] {
+    return [
+        cell,
+        ...cells.filter(other => other !== cell && other.sheetName === cell.sheetName && other.rowNumber === cell.rowNumber),
+    ];
+}
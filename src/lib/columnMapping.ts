@@ -0,0 +1,371 @@
+import { parseLocaleNumber } from './numberParser';
+import { riskId } from './riskIds';
+import type { ColumnMapping, FieldAssessment, MappableField, RiskFlag } from '@/types/quote';
+
+/**
+ * Target fields a source column can be mapped to, in display order
+ */
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; valueType: 'text' | 'numeric' }[] = [
+    { field: 'partNumber', label: 'Part Number', valueType: 'text' },
+    { field: 'description', label: 'Description', valueType: 'text' },
+    { field: 'quantity', label: 'Quantity', valueType: 'numeric' },
+    { field: 'unitOfMeasure', label: 'Unit of Measure', valueType: 'text' },
+    { field: 'unitPrice', label: 'Unit Price', valueType: 'numeric' },
+    { field: 'extendedPrice', label: 'Extended Price', valueType: 'numeric' },
+    { field: 'currency', label: 'Currency', valueType: 'text' },
+    { field: 'manufacturer', label: 'Manufacturer', valueType: 'text' },
+    { field: 'leadTime', label: 'Lead Time', valueType: 'text' },
+    { field: 'moq', label: 'MOQ', valueType: 'numeric' },
+    { field: 'packMultiple', label: 'Pack Multiple', valueType: 'numeric' },
+    { field: 'notes', label: 'Notes', valueType: 'text' },
+    { field: 'terms', label: 'Terms', valueType: 'text' },
+];
+
+// Header vocabulary per field, strongest pattern first
+export const FIELD_PATTERNS: Record<MappableField, string[]> = {
+    partNumber: ['part', 'sku', 'item', 'product', 'code', 'p/n', 'pn', 'number'],
+    quantity: ['qty', 'quantity', 'amount', 'count', 'units', 'order'],
+    description: ['description', 'desc', 'name', 'title', 'product name'],
+    unitPrice: ['price', 'cost', 'unit price', 'rate', 'amount'],
+    extendedPrice: ['extended', 'ext.', 'ext price', 'line total', 'total price', 'total', 'line value'],
+    currency: ['currency', 'ccy', 'curr'],
+    unitOfMeasure: ['uom', 'unit', 'measure', 'um'],
+    manufacturer: ['manufacturer', 'mfr', 'mfg', 'make', 'brand', 'vendor'],
+    leadTime: ['lead time', 'leadtime', 'lead', 'delivery time', 'availability'],
+    moq: ['moq', 'min order', 'minimum order', 'min qty', 'minimum qty', 'min. order'],
+    packMultiple: ['pack multiple', 'order multiple', 'spq', 'mpq', 'multiple', 'pack qty', 'pack size', 'increment'],
+    notes: ['notes', 'comment', 'remark', 'spec', 'specification'],
+    terms: ['terms', 'condition', 'shipping', 'delivery', 'incoterm'],
+};
+
+/**
+ * Fallback column mapping using common header patterns
+ */
+export function fallbackColumnMapping(headers: string[]): ColumnMapping {
+    const lowerHeaders = headers.map(h => h.toLowerCase());
+
+    // A column is only used once, so "Amount" cannot become both quantity and unit price
+    const used = new Set<number>();
+    const findColumn = (patterns: string[]): string | null => {
+        for (const pattern of patterns) {
+            const index = lowerHeaders.findIndex((h, i) => !used.has(i) && h.includes(pattern));
+            if (index !== -1) {
+                used.add(index);
+                return headers[index];
+            }
+        }
+        return null;
+    };
+
+    // Claim the more specific columns first: "Ext. Price" before "Price", "Delivery Time" before "Delivery",
+    // "Min Order Qty" before "Qty"
+    const moq = findColumn(FIELD_PATTERNS.moq);
+    const packMultiple = findColumn(FIELD_PATTERNS.packMultiple);
+    const partNumber = findColumn(FIELD_PATTERNS.partNumber);
+    const extendedPrice = findColumn(FIELD_PATTERNS.extendedPrice);
+    const leadTime = findColumn(FIELD_PATTERNS.leadTime);
+    const manufacturer = findColumn(FIELD_PATTERNS.manufacturer);
+    const currency = findColumn(FIELD_PATTERNS.currency);
+
+    return {
+        partNumber,
+        quantity: findColumn(FIELD_PATTERNS.quantity),
+        description: findColumn(FIELD_PATTERNS.description),
+        unitPrice: findColumn(FIELD_PATTERNS.unitPrice),
+        extendedPrice,
+        currency,
+        unitOfMeasure: findColumn(FIELD_PATTERNS.unitOfMeasure),
+        manufacturer,
+        leadTime,
+        moq,
+        packMultiple,
+        notes: findColumn(FIELD_PATTERNS.notes),
+        terms: findColumn(FIELD_PATTERNS.terms),
+        quantityBreaks: [], // See withQuantityBreaks
+        headerRow: 1, // Overwritten with the detected header row by the caller
+    };
+}
+
+// Quantity words in a quantity-break header: "Qty 100", "Quantity @ 1,000", "500 pcs", "Vol. 10k", "EAU 5000"
+const QUANTITY_BREAK_WORDS = /\b(qty|q'ty|quantity|quantities|vol|volume|pcs|pieces|units|eau|menge|break)\b/i;
+// "Price @ Qty 100" holds prices at a break, not quantities
+const PRICE_WORDS = /price|cost|amount|total|value|[$€£¥]/i;
+
+/**
+ * Quantity stated in a header: "Qty 1,000" → 1000, "Qty 10k" → 10000; null without a number
+ */
+export function quantityFromHeader(header: string): number | null {
+    const match = header.match(/(\d+(?:[.,']\d+)*)\s*([km](?![a-z]))?/i);
+    if (!match) return null;
+
+    const [, digits, suffix] = match;
+    if (suffix) {
+        const multiplier = suffix.toLowerCase() === 'k' ? 1_000 : 1_000_000;
+        return Math.round(parseFloat(digits.replace(',', '.')) * multiplier);
+    }
+    // Without a K/M suffix the separators group thousands
+    const value = parseInt(digits.replace(/[.,']/g, ''), 10);
+    return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * Columns that look like quantity breaks: a quantity word and a number in the
+ * header, at least two of them, and not mapped to another field. Lowest break first.
+ */
+export function detectQuantityBreakColumns(headers: string[], columnMapping: ColumnMapping): string[] {
+    const mapped = new Set(MAPPABLE_FIELDS
+        .filter(({ field }) => field !== 'quantity')
+        .map(({ field }) => columnMapping[field])
+        .filter(Boolean));
+
+    const breaks = headers
+        .filter(header => !mapped.has(header) && QUANTITY_BREAK_WORDS.test(header) && !PRICE_WORDS.test(header)
+            && quantityFromHeader(header) !== null)
+        .sort((a, b) => (quantityFromHeader(a) ?? 0) - (quantityFromHeader(b) ?? 0));
+
+    return breaks.length >= 2 ? breaks : [];
+}
+
+/**
+ * Add the detected quantity-break columns to a mapping. A break column taken for
+ * the quantity is given up for another quantity column, else left unmapped.
+ */
+export function withQuantityBreaks(columnMapping: ColumnMapping, headers: string[]): ColumnMapping {
+    const quantityBreaks = detectQuantityBreakColumns(headers, columnMapping);
+    if (quantityBreaks.length === 0 || !columnMapping.quantity || !quantityBreaks.includes(columnMapping.quantity)) {
+        return { ...columnMapping, quantityBreaks };
+    }
+
+    const taken = new Set([...quantityBreaks, ...MAPPABLE_FIELDS.map(({ field }) => columnMapping[field])]);
+    const quantity = headers.find(header => !taken.has(header)
+        && FIELD_PATTERNS.quantity.some(pattern => header.toLowerCase().includes(pattern))) ?? null;
+    return { ...columnMapping, quantity, quantityBreaks };
+}
+
+/**
+ * Collect the first few non-empty values of a source column
+ */
+export function sampleColumnValues(
+    rows: Record<string, unknown>[],
+    header: string,
+    count: number = 3
+): string[] {
+    const samples: string[] = [];
+    for (const row of rows) {
+        const value = String(row[header] ?? '').trim();
+        if (value !== '') samples.push(value);
+        if (samples.length >= count) break;
+    }
+    return samples;
+}
+
+/**
+ * Estimate how well a source column fits a target field (0-1),
+ * from header vocabulary and whether the values have the expected type
+ */
+export function estimateMappingConfidence(
+    field: MappableField,
+    header: string | null,
+    rows: Record<string, unknown>[]
+): number {
+    if (!header) return 0;
+
+    const lower = header.toLowerCase();
+    const patterns = FIELD_PATTERNS[field];
+    const nameScore = lower.includes(patterns[0]) || lower.includes(patterns[1])
+        ? 1
+        : patterns.some(p => lower.includes(p)) ? 0.6 : 0.2;
+
+    const values = rows.map(row => String(row[header] ?? '').trim()).filter(v => v !== '');
+    if (values.length === 0) {
+        return Math.round(nameScore * 0.6 * 100) / 100;
+    }
+
+    const numericRatio = values.filter(v => /\d/.test(v) && parseLocaleNumber(v) !== null && !/[a-z]{2,}/i.test(v)).length / values.length;
+    const valueType = MAPPABLE_FIELDS.find(f => f.field === field)?.valueType;
+    const typeScore = valueType === 'numeric'
+        ? numericRatio
+        : field === 'partNumber' ? 1 : 1 - numericRatio;
+
+    return Math.round((nameScore * 0.6 + typeScore * 0.4) * 100) / 100;
+}
+
+/**
+ * Share of non-empty values in a column that parse as numbers
+ */
+function numericShare(header: string, rows: Record<string, unknown>[]): { ratio: number; count: number } {
+    const values = rows.map(row => String(row[header] ?? '').trim()).filter(v => v !== '');
+    if (values.length === 0) return { ratio: 0, count: 0 };
+
+    const numeric = values.filter(v => /\d/.test(v) && parseLocaleNumber(v) !== null && !/[a-z]{2,}/i.test(v)).length;
+    return { ratio: numeric / values.length, count: values.length };
+}
+
+/**
+ * Validate a column mapping against the actual headers and data:
+ * unknown column names are dropped, and shared columns, type mismatches,
+ * empty columns and unmapped required fields are raised as `mapping` risks.
+ * In workbooks with several line-item sheets, `sheetName` names the sheet in the risks.
+ */
+export function validateColumnMapping(
+    columnMapping: ColumnMapping,
+    headers: string[],
+    rows: Record<string, unknown>[],
+    reported: Partial<Record<MappableField, { confidence: number; rationale: string; source: FieldAssessment['source'] }>> = {},
+    sheetName: string | null = null
+): { columnMapping: ColumnMapping; assessments: FieldAssessment[]; risks: RiskFlag[] } {
+    const risks: RiskFlag[] = [];
+    const validated: ColumnMapping = { ...columnMapping };
+    const scope = sheetName === null ? [] : [sheetName];
+    const where = sheetName === null ? '' : ` (${sheetName})`;
+
+    // 1. Every mapped name must be a real header (tolerating case/whitespace drift)
+    for (const { field, label } of MAPPABLE_FIELDS) {
+        const name = validated[field];
+        if (!name || headers.includes(name)) continue;
+
+        const match = headers.find(h => h.trim().toLowerCase() === name.trim().toLowerCase());
+        validated[field] = match ?? null;
+
+        if (!match) {
+            risks.push({
+                id: riskId('mapping-unknown', ...scope, field, name),
+                type: 'mapping',
+                level: 'medium',
+                title: `${label} Mapped to Unknown Column${where}`,
+                description: `The mapping pointed ${label} at "${name}", which is not a column in this ${sheetName === null ? 'file' : 'sheet'}. The field was left unmapped.`,
+                extractedValue: name,
+                recommendation: `Pick the correct ${label} column in the mapping panel.`,
+            });
+        }
+    }
+
+    // Quantity-break columns that are not in this file are dropped (mappings saved before breaks existed have none)
+    validated.quantityBreaks = (columnMapping.quantityBreaks ?? []).flatMap(name =>
+        headers.includes(name) ? [name] : headers.filter(h => h.trim().toLowerCase() === name.trim().toLowerCase()).slice(0, 1)
+    );
+
+    // 2. One column feeding two fields is almost always wrong
+    const fieldsByHeader = new Map<string, string[]>();
+    for (const { field, label } of MAPPABLE_FIELDS) {
+        const header = validated[field];
+        if (!header) continue;
+        fieldsByHeader.set(header, [...(fieldsByHeader.get(header) ?? []), label]);
+    }
+    for (const header of validated.quantityBreaks) {
+        fieldsByHeader.set(header, [...(fieldsByHeader.get(header) ?? []), 'Quantity Break']);
+    }
+    for (const [header, labels] of fieldsByHeader) {
+        if (labels.length < 2) continue;
+        risks.push({
+            id: riskId('mapping-shared', ...scope, header),
+            type: 'mapping',
+            level: 'high',
+            title: `Column "${header}" Mapped Twice${where}`,
+            description: `"${header}" is mapped to ${labels.join(' and ')}. At most one of these is correct.`,
+            extractedValue: header,
+            recommendation: 'Choose a different source column for one of these fields in the mapping panel.',
+        });
+    }
+
+    // 3. Values must have the type the field expects
+    for (const { field, label, valueType } of MAPPABLE_FIELDS) {
+        const header = validated[field];
+        if (!header) continue;
+
+        const { ratio, count } = numericShare(header, rows);
+        if (count === 0 && field !== 'notes' && field !== 'terms') {
+            risks.push({
+                id: riskId('mapping-empty', ...scope, field, header),
+                type: 'mapping',
+                level: 'medium',
+                title: `${label} Column Is Empty${where}`,
+                description: `"${header}" is mapped to ${label} but has no values in any row.`,
+                extractedValue: header,
+                recommendation: `Check whether ${label} lives in a different column or sheet.`,
+            });
+        } else if (valueType === 'numeric' && ratio < 0.5) {
+            const textPercent = Math.round((1 - ratio) * 100);
+            risks.push({
+                id: riskId('mapping-type', ...scope, field, header),
+                type: 'mapping',
+                level: 'high',
+                title: `${label} Column Is Mostly Text${where}`,
+                description: `${textPercent}% of the values in "${header}" are not numbers, so most rows will have no ${label.toLowerCase()}.`,
+                extractedValue: header,
+                recommendation: `Confirm "${header}" is really the ${label.toLowerCase()} column, or remap it.`,
+            });
+        } else if (field === 'description' && ratio > 0.8) {
+            risks.push({
+                id: riskId('mapping-type', ...scope, field, header),
+                type: 'mapping',
+                level: 'low',
+                title: `${label} Column Is Mostly Numbers${where}`,
+                description: `${Math.round(ratio * 100)}% of the values in "${header}" are numbers, which is unusual for a description.`,
+                extractedValue: header,
+                recommendation: 'Check whether a text column was intended.',
+            });
+        }
+    }
+
+    // 4. Without part numbers and quantities nothing can be quoted (quantity breaks stand in for the quantity)
+    for (const field of ['partNumber', 'quantity'] as const) {
+        if (validated[field] || headers.length === 0) continue;
+        if (field === 'quantity' && validated.quantityBreaks.length > 0) continue;
+        const label = MAPPABLE_FIELDS.find(f => f.field === field)?.label ?? field;
+        risks.push({
+            id: riskId('mapping-missing', ...scope, field),
+            type: 'mapping',
+            level: 'high',
+            title: `No ${label} Column Mapped${where}`,
+            description: `No column was identified as ${label}, so every row will be missing it.`,
+            recommendation: `Select the ${label} column in the mapping panel, or confirm with the customer.`,
+        });
+    }
+
+    const assessments: FieldAssessment[] = MAPPABLE_FIELDS.map(({ field }) => {
+        const header = validated[field];
+        const given = reported[field];
+        if (given && header) {
+            return { field, header, confidence: given.confidence, rationale: given.rationale, source: given.source };
+        }
+        return {
+            field,
+            header,
+            confidence: estimateMappingConfidence(field, header, rows),
+            rationale: header ? describeFit(field, header, rows) : 'No matching column found.',
+            source: 'heuristic',
+        };
+    });
+
+    // Fields involved in a conflict or type problem cannot be high-confidence
+    const flagged = new Set(risks.flatMap(r => r.extractedValue ? [r.extractedValue] : []));
+    for (const assessment of assessments) {
+        if (assessment.header && flagged.has(assessment.header)) {
+            assessment.confidence = Math.min(assessment.confidence, 0.4);
+        }
+    }
+
+    return { columnMapping: validated, assessments, risks };
+}
+
+/**
+ * One-line rationale for a heuristic confidence score
+ */
+function describeFit(field: MappableField, header: string, rows: Record<string, unknown>[]): string {
+    const lower = header.toLowerCase();
+    const keyword = FIELD_PATTERNS[field].find(p => lower.includes(p));
+    const { ratio, count } = numericShare(header, rows);
+    const nameText = keyword ? `Header contains "${keyword}"` : 'Header has no matching keyword';
+    const typeText = count === 0 ? 'column is empty' : `${Math.round(ratio * 100)}% numeric values`;
+    return `${nameText}; ${typeText}.`;
+}
+
+/**
+ * Bucket a confidence score for display
+ */
+export function confidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+    if (confidence >= 0.75) return 'high';
+    if (confidence >= 0.45) return 'medium';
+    return 'low';
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+    detectConsequentialDamages,
+    detectIndemnity,
+    detectLiabilityClauses,
+    detectTerminationForConvenience,
+    detectWarrantyTerms,
+} from './riskDetector';
+import type { TextCell } from '@/types/quote';
+
+const cells = (...texts: string[]): TextCell[] =>
+    texts.map((text, i) => ({ sheetName: 'Terms', rowNumber: i + 1, column: 'A', header: null, text }));
+
+describe('detectLiabilityClauses', () => {
+    it('flags unlimited liability as critical', () => {
+        const [risk] = detectLiabilityClauses(cells('The Supplier\'s liability shall be unlimited.'));
+        expect(risk).toMatchObject({ title: 'Unlimited Liability', level: 'critical' });
+        expect(risk.id).toMatch(/^clause-liability-unlimited-/);
+    });
+
+    it('grades a cap against the policy', () => {
+        expect(detectLiabilityClauses(cells('Total liability shall not exceed 100% of the contract value.'))[0].level).toBe('low');
+        expect(detectLiabilityClauses(cells('Liability is limited to 3x the contract value.'))[0])
+            .toMatchObject({ level: 'high', title: 'Liability Capped at 300% of Contract Value' });
+    });
+
+    it('ignores text about something else', () => {
+        expect(detectLiabilityClauses(cells('Prices exclude VAT.'))).toEqual([]);
+    });
+});
+
+describe('detectConsequentialDamages', () => {
+    it('treats an exclusion as low risk', () => {
+        const [risk] = detectConsequentialDamages(cells('Neither party shall be liable for indirect or consequential damages.'));
+        expect(risk).toMatchObject({ title: 'Consequential Damages Excluded', level: 'low' });
+    });
+
+    it('treats damages stated as excluded as low risk', () => {
+        expect(detectConsequentialDamages(cells('Indirect and consequential losses are expressly excluded.'))[0].level).toBe('low');
+        expect(detectConsequentialDamages(cells('The price covers delivery, excluding loss of use.'))[0].level).toBe('low');
+    });
+
+    it('reads a negated exclusion as exposure', () => {
+        const [risk] = detectConsequentialDamages(cells('Consequential damages are not excluded.'));
+        expect(risk.title).toBe('Consequential Damages Exposure');
+    });
+
+    it('does not take an exclusion of something else for an exclusion of the damages', () => {
+        const [risk] = detectConsequentialDamages(cells('The Supplier shall reimburse loss of production, excluding VAT.'));
+        expect(risk).toMatchObject({ title: 'Consequential Damages Exposure', level: 'critical' });
+    });
+
+    it('flags a liability for lost profits as critical', () => {
+        const [risk] = detectConsequentialDamages(cells('The Supplier shall be liable for loss of profits caused by late delivery.'));
+        expect(risk).toMatchObject({ title: 'Consequential Damages Exposure', level: 'critical' });
+    });
+});
+
+describe('detectWarrantyTerms', () => {
+    it('grades the longest warranty period', () => {
+        expect(detectWarrantyTerms(cells('Warranty: 12 months from delivery.'))[0].level).toBe('low');
+        expect(detectWarrantyTerms(cells('Warranty of 5 years on all parts.'))[0])
+            .toMatchObject({ title: 'Warranty Period: 60 Months', level: 'critical' });
+    });
+
+    it('flags a lifetime warranty', () => {
+        expect(detectWarrantyTerms(cells('Lifetime warranty on all items.'))[0].title).toBe('Lifetime Warranty Requested');
+    });
+});
+
+describe('detectIndemnity', () => {
+    it('grades indemnities by breadth', () => {
+        expect(detectIndemnity(cells('Supplier shall indemnify Buyer against any and all claims.'))[0].level).toBe('high');
+        expect(detectIndemnity(cells('Each party shall indemnify the other for its own negligence.'))[0].level).toBe('low');
+        expect(detectIndemnity(cells('Supplier shall indemnify Buyer for third-party claims.'))[0].level).toBe('medium');
+    });
+});
+
+describe('detectTerminationForConvenience', () => {
+    it('grades by whether work performed is compensated', () => {
+        expect(detectTerminationForConvenience(cells('Buyer may terminate this agreement for convenience.'))[0].level).toBe('high');
+        expect(detectTerminationForConvenience(cells('Buyer may terminate this agreement for convenience and pays for work performed.'))[0].level).toBe('medium');
+    });
+
+    it('ignores termination for cause', () => {
+        expect(detectTerminationForConvenience(cells('Either party may terminate for material breach.'))).toEqual([]);
+    });
+});
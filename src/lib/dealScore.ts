@@ -0,0 +1,88 @@
+import { RISK_TYPE_LABELS } from './schemas';
+import { rowKey, rowKeys } from './rowRefs';
+import { isTotalsRow } from './riskDetector';
+import type { DealRecommendation, DealScore, DealScoreFactor, DealScoreWeights, ParsedRow, RiskFlag, RiskLevel } from '@/types/quote';
+
+/**
+ * Deal risk score
+ *
+ * Rolls the open risks of an analysis into a single 0–100 number for
+ * go / review / escalate decisions. Each open risk adds the points of its
+ * level times the weight of its type; the share of line items touched by an
+ * open risk and the share missing a part number or quantity add up to a fixed
+ * number of points each. The total is capped at 100. Weights come from the
+ * rule set (thresholds.dealScore), so business units can tune them.
+ */
+
+const LEVELS: RiskLevel[] = ['critical', 'high', 'medium', 'low'];
+
+function round(points: number): number {
+    return Math.round(points * 10) / 10;
+}
+
+/**
+ * Score the open risks of an analysis
+ */
+export function scoreDeal(rows: ParsedRow[], openRisks: RiskFlag[], weights: DealScoreWeights): DealScore {
+    const factors: DealScoreFactor[] = [];
+
+    // 1. Open risks, grouped by type
+    const byType = new Map<RiskFlag['type'], RiskFlag[]>();
+    for (const risk of openRisks) {
+        byType.set(risk.type, [...(byType.get(risk.type) ?? []), risk]);
+    }
+    for (const [type, risks] of byType) {
+        const weight = weights.typeWeights[type] ?? 1;
+        const points = risks.reduce((sum, risk) => sum + weights.levelPoints[risk.level], 0) * weight;
+        if (points <= 0) continue;
+
+        const counts = LEVELS
+            .map(level => [level, risks.filter(risk => risk.level === level).length] as const)
+            .filter(([, count]) => count > 0)
+            .map(([level, count]) => `${count} ${level}`);
+        factors.push({
+            key: type,
+            label: RISK_TYPE_LABELS[type] ?? type,
+            points: round(points),
+            detail: `${counts.join(', ')}${weight !== 1 ? ` (×${weight} weight)` : ''}`,
+        });
+    }
+
+    // Totals rows that made it into the rows are not line items
+    const items = rows.filter(row => !isTotalsRow(row));
+    if (items.length > 0) {
+        // 2. Share of line items an open risk points at
+        const lineItems = rowKeys(items);
+        const affected = new Set(openRisks.flatMap(risk => risk.affectedRows ?? []).map(rowKey).filter(key => lineItems.has(key)));
+        if (affected.size > 0 && weights.affectedRowsPoints > 0) {
+            factors.push({
+                key: 'affected_rows',
+                label: 'Affected Line Items',
+                points: round(weights.affectedRowsPoints * affected.size / lineItems.size),
+                detail: `${affected.size} of ${lineItems.size} rows have an open risk`,
+            });
+        }
+
+        // 3. Line items that cannot be quoted as they stand
+        const incomplete = items.filter(row => !row.partNumber?.trim() || row.quantity === null).length;
+        if (incomplete > 0 && weights.incompleteRowsPoints > 0) {
+            factors.push({
+                key: 'incomplete_rows',
+                label: 'Incomplete Line Items',
+                points: round(weights.incompleteRowsPoints * incomplete / items.length),
+                detail: `${incomplete} of ${items.length} rows lack a part number or quantity`,
+            });
+        }
+    }
+
+    const score = Math.min(100, Math.round(factors.reduce((sum, factor) => sum + factor.points, 0)));
+    const recommendation: DealRecommendation = score >= weights.escalateAt ? 'escalate'
+        : score >= weights.reviewAt ? 'review'
+            : 'go';
+
+    return {
+        score,
+        recommendation,
+        factors: factors.sort((a, b) => b.points - a.points),
+    };
+}
@@ -1,10 +1,10 @@
 import * as XLSX from 'xlsx';
-import type { ParsedRow, ColumnMapping, RowRemediation, DownloadResult } from '@/types/quote';
+import type { ParsedRow, RowRef, RowRemediation, DownloadResult } from '@/types/quote';
+import { sameRow } from './rowRefs';
 
 // In-memory storage for corrected files (session-based, keyed by token)
 const correctedFilesStore = new Map<string, {
     rows: ParsedRow[];
-    columnMapping: ColumnMapping;
     fileName: string;
     remediations: RowRemediation[];
     createdAt: number;
@@ -34,7 +34,6 @@ function generateToken(): string {
  */
 export function storeFixedRows(
     rows: ParsedRow[],
-    columnMapping: ColumnMapping,
     fileName: string,
     remediations: RowRemediation[]
 ): DownloadResult {
@@ -43,7 +42,6 @@ export function storeFixedRows(
     const token = generateToken();
     correctedFilesStore.set(token, {
         rows,
-        columnMapping,
         fileName,
         remediations,
         createdAt: Date.now(),
@@ -61,14 +59,12 @@ export function storeFixedRows(
  */
 export function getStoredData(token: string): {
     rows: ParsedRow[];
-    columnMapping: ColumnMapping;
     fileName: string;
 } | null {
     const data = correctedFilesStore.get(token);
     if (!data) return null;
     return {
         rows: data.rows,
-        columnMapping: data.columnMapping,
         fileName: data.fileName,
     };
 }
@@ -76,23 +72,33 @@ export function getStoredData(token: string): {
 /**
  * Generate an Excel buffer from parsed rows
  */
-export function generateExcelBuffer(
-    rows: ParsedRow[],
-    columnMapping: ColumnMapping
-): ArrayBuffer {
+export function generateExcelBuffer(rows: ParsedRow[]): ArrayBuffer {
     // Create worksheet data
-    const headers = ['Row #', 'Part Number', 'Description', 'Quantity', 'Unit', 'Unit Price', 'Notes'];
+    const headers = ['Sheet', 'Row #', 'Part Number', 'Manufacturer', 'Description', 'Quantity', 'Quoted Qty', 'Unit', 'Unit Price', 'Extended Price', 'Currency', 'Lead Time', 'Notes', 'Sell Price', 'Extended Sell', 'Margin %', 'Sell Currency'];
+    // One sell price column per quantity break, named after its source column (sheets may name breaks differently)
+    const breakHeaders = [...new Set(rows.flatMap(row => row.quantityTiers.map(tier => tier.header)))];
 
     const wsData = [
-        headers,
+        [...headers, ...breakHeaders.map(header => `Sell Price @ ${header}`)],
         ...rows.map(row => [
+            row.sheetName,
             row.rowNumber,
             row.partNumber,
+            row.manufacturer,
             row.description,
             row.quantity,
+            row.quotedQuantity,
             row.unitOfMeasure,
             row.unitPrice,
+            row.extendedPrice,
+            row.currency,
+            row.leadTime,
             row.notes,
+            row.pricing?.sellPrice ?? null,
+            row.pricing?.extendedSell ?? null,
+            row.pricing?.marginPercent ?? null,
+            row.pricing?.currency ?? null,
+            ...breakHeaders.map(header => row.quantityTiers.find(tier => tier.header === header)?.pricing?.sellPrice ?? null),
         ]),
     ];
 
@@ -103,13 +109,24 @@ export function generateExcelBuffer(
 
     // Set column widths for better readability
     ws['!cols'] = [
+        { wch: 14 },  // Sheet
         { wch: 6 },   // Row #
         { wch: 15 },  // Part Number
+        { wch: 16 },  // Manufacturer
         { wch: 40 },  // Description
         { wch: 10 },  // Quantity
+        { wch: 10 },  // Quoted Qty
         { wch: 8 },   // Unit
         { wch: 12 },  // Unit Price
+        { wch: 14 },  // Extended Price
+        { wch: 8 },   // Currency
+        { wch: 12 },  // Lead Time
         { wch: 30 },  // Notes
+        { wch: 12 },  // Sell Price
+        { wch: 14 },  // Extended Sell
+        { wch: 9 },   // Margin %
+        { wch: 8 },   // Sell Currency
+        ...breakHeaders.map(() => ({ wch: 16 })),
     ];
 
     // Generate buffer
@@ -122,14 +139,15 @@ export function generateExcelBuffer(
  */
 export function applyQuantityFixes(
     rows: ParsedRow[],
-    fixes: Array<{ rowNumber: number; quantity: number; reason: string }>
+    fixes: Array<RowRef & { quantity: number; reason: string }>
 ): { fixedRows: ParsedRow[]; remediations: RowRemediation[] } {
     const remediations: RowRemediation[] = [];
 
     const fixedRows = rows.map(row => {
-        const fix = fixes.find(f => f.rowNumber === row.rowNumber);
+        const fix = fixes.find(f => sameRow(f, row));
         if (fix) {
             remediations.push({
+                sheetName: row.sheetName,
                 rowNumber: row.rowNumber,
                 field: 'quantity',
                 oldValue: row.quantity,
@@ -150,8 +168,8 @@ export function applyQuantityFixes(
 /**
  * Find rows with missing quantities
  */
-export function findMissingQuantities(rows: ParsedRow[]): number[] {
+export function findMissingQuantities(rows: ParsedRow[]): RowRef[] {
     return rows
         .filter(row => row.quantity === null || row.quantity === undefined || row.quantity === 0)
-        .map(row => row.rowNumber);
+        .map(({ sheetName, rowNumber }) => ({ sheetName, rowNumber }));
 }
@@ -1,57 +1,127 @@
 import * as XLSX from 'xlsx';
-import type { ExcelParseResult } from '@/types/quote';
+import { DEFAULT_NUMBER_FORMAT, parseLocaleNumber } from './numberParser';
+import type { ExcelParseResult, HeaderDetection, NumberFormat, ParseOptions, SheetInfo, SheetKind, SheetRow, SheetTable, TextCell, TypedCell } from '@/types/quote';
+
+// How many rows from the top of a sheet are considered header candidates
+const HEADER_SCAN_ROWS = 30;
+
+// How many rows below a candidate header are sampled for type consistency
+const HEADER_SAMPLE_ROWS = 8;
+
+// Vocabulary commonly found in BOM / RFQ header cells
+const HEADER_KEYWORDS = [
+    'part', 'p/n', 'pn', 'sku', 'item', 'code', 'mpn', 'material',
+    'qty', 'quantity', 'amount', 'count',
+    'desc', 'description', 'name', 'spec',
+    'price', 'cost', 'rate', 'total', 'ext',
+    'uom', 'unit', 'measure',
+    'note', 'remark', 'comment',
+    'term', 'delivery', 'lead', 'manufacturer', 'mfr', 'currency', 'level', 'rev',
+];
+
+// Keywords must start a word so "Generator" does not count as "rate"
+const HEADER_KEYWORD_PATTERN = new RegExp(
+    `(^|[^a-z])(${HEADER_KEYWORDS.join('|')})`,
+    'i'
+);
+
+// Sheet names that almost always hold commercial terms rather than line items
+const TERMS_SHEET_PATTERN = /\bt\s*&\s*c\b|terms|conditions|clauses|commercial|instructions/i;
 
 /**
  * Parse an Excel file buffer in-memory (zero data retention)
  * The buffer is only held in memory during processing and garbage collected after
+ *
+ * Every sheet is read and classified. Line items from all included line-item
+ * sheets are merged (with sheet provenance), and rawText covers every included sheet.
  */
-export function parseExcelBuffer(buffer: ArrayBuffer): ExcelParseResult {
+export function parseExcelBuffer(buffer: ArrayBuffer, options: ParseOptions = {}): ExcelParseResult {
     try {
-        // Read the workbook from the buffer (in-memory only)
-        const workbook = XLSX.read(buffer, { type: 'array' });
+        // Read the workbook from the buffer (in-memory only); number formats tell dates from numbers
+        const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
 
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        if (!firstSheetName) {
+        if (workbook.SheetNames.length === 0) {
             return {
                 success: false,
                 headers: [],
                 rows: [],
                 rawText: '',
+                cells: [],
+                sheets: [],
                 error: 'No sheets found in the Excel file',
             };
         }
 
-        const worksheet = workbook.Sheets[firstSheetName];
-        if (!worksheet) {
+        const excluded = new Set(options.excludedSheets ?? []);
+        const sheets: SheetInfo[] = [];
+        const headers: string[] = [];
+        const rows: SheetRow[] = [];
+        const textBlocks: string[] = [];
+        const cells: TextCell[] = [];
+
+        workbook.SheetNames.forEach((sheetName, index) => {
+            const worksheet = workbook.Sheets[sheetName];
+            if (!worksheet) return;
+
+            // Locate the real header row and re-slice the sheet from there
+            const table = readSheetTable(worksheet);
+            const sheetHeaders = table.headers;
+            const jsonData = table.rows.map(row => row.data);
+
+            const kind = classifySheet(sheetName, sheetHeaders, jsonData);
+            const included = !excluded.has(sheetName);
+
+            sheets.push({
+                name: sheetName,
+                index,
+                kind,
+                included,
+                headers: sheetHeaders,
+                headerRow: table.headerRow,
+                headerRowCount: table.headerRowCount,
+                rowCount: jsonData.length,
+            });
+
+            if (!included) return;
+
+            // Raw text for risk scanning, labelled so the AI can tell sheets apart.
+            // sheet_to_txt emits UTF-16 with a BOM, which breaks regex scanning; use tab-separated CSV instead.
+            const sheetText = XLSX.utils.sheet_to_csv(worksheet, { FS: '\t', blankrows: false });
+            if (sheetText.trim()) {
+                textBlocks.push(`=== Sheet: ${sheetName} ===\n${sheetText}`);
+            }
+            cells.push(...readTextCells(worksheet, sheetName, table));
+
+            if (kind !== 'line_items') return;
+
+            for (const header of sheetHeaders) {
+                if (!headers.includes(header)) headers.push(header);
+            }
+
+            for (const row of table.rows) {
+                rows.push({ sheetName, ...row });
+            }
+        });
+
+        if (sheets.length === 0) {
             return {
                 success: false,
                 headers: [],
                 rows: [],
                 rawText: '',
+                cells: [],
+                sheets: [],
                 error: 'Could not read worksheet',
             };
         }
 
-        // Convert to JSON with headers
-        const jsonData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, {
-            defval: '', // Default value for empty cells
-            raw: false, // Convert all values to strings for consistency
-        });
-
-        // Also get raw text for risk scanning
-        const rawText = XLSX.utils.sheet_to_txt(worksheet);
-
-        // Extract headers from the first row
-        const headers = jsonData.length > 0
-            ? Object.keys(jsonData[0] as Record<string, unknown>)
-            : [];
-
         return {
             success: true,
             headers,
-            rows: jsonData,
-            rawText,
+            rows,
+            rawText: textBlocks.join('\n\n'),
+            cells,
+            sheets,
         };
     } catch (error) {
         return {
@@ -59,11 +129,46 @@ export function parseExcelBuffer(buffer: ArrayBuffer): ExcelParseResult {
             headers: [],
             rows: [],
             rawText: '',
+            cells: [],
+            sheets: [],
             error: error instanceof Error ? error.message : 'Failed to parse Excel file',
         };
     }
 }
 
+/**
+ * Classify a sheet as a line-item table, a terms/free-text sheet, or noise to ignore
+ */
+export function classifySheet(
+    sheetName: string,
+    headers: string[],
+    rows: Record<string, unknown>[]
+): SheetKind {
+    const cells = rows.flatMap(row => headers.map(header => String(row[header] ?? '').trim()));
+    const filledCells = cells.filter(cell => cell !== '');
+
+    if (headers.length === 0 || filledCells.length === 0) {
+        // A sheet with only a header line can still carry a one-line clause
+        return headers.some(h => h.trim().length > 40) ? 'terms' : 'ignore';
+    }
+
+    const numericCells = filledCells.filter(cell => /^[-+(]?[$€£¥₩]?\s*[\d,.]+\)?$/.test(cell)).length;
+    const longTextCells = filledCells.filter(cell => cell.length > 60).length;
+    const numericRatio = numericCells / filledCells.length;
+    const longTextRatio = longTextCells / filledCells.length;
+
+    // Single-column sheets and sheets dominated by sentences are clause lists
+    if (headers.length === 1 || longTextRatio > 0.3) {
+        return 'terms';
+    }
+
+    if (TERMS_SHEET_PATTERN.test(sheetName) && numericRatio < 0.2) {
+        return 'terms';
+    }
+
+    return numericCells > 0 ? 'line_items' : 'terms';
+}
+
 /**
  * Convert parsed rows to a markdown table for AI analysis
  */
@@ -93,42 +198,281 @@ export function rowsToMarkdown(
 }
 
 /**
- * Detect potential header row by looking for rows with mostly text content
+ * Detect the header row by scoring the first rows of a sheet on text density,
+ * hits against known header vocabulary and type consistency of the rows below.
+ * Row indexes are 0-based positions in the array-of-arrays passed in.
+ */
+export function detectHeaderRow(aoa: unknown[][]): HeaderDetection {
+    const width = Math.max(0, ...aoa.map(row => row.length));
+    const limit = Math.min(aoa.length, HEADER_SCAN_ROWS);
+
+    let best: HeaderDetection = { rowIndex: 0, rowCount: 1, score: 0 };
+
+    for (let i = 0; i < limit; i++) {
+        const cells = toCells(aoa[i]);
+        const filled = cells.filter(cell => cell !== '');
+        if (filled.length < 2) continue;
+
+        const textCells = filled.filter(cell => !isNumericCell(cell));
+        const textDensity = (textCells.length / filled.length) * (filled.length / Math.max(width, 1));
+        const keywordRatio = countKeywordHits(filled) / filled.length;
+        const consistency = columnConsistency(aoa, i + 1, cells.length);
+
+        // Long sentences are titles or clauses, not column labels
+        const longCellPenalty = filled.filter(cell => cell.length > 40).length / filled.length;
+
+        const score = textDensity + keywordRatio * 2 + consistency - longCellPenalty;
+        if (score > best.score) {
+            best = { rowIndex: i, rowCount: 1, score };
+        }
+    }
+
+    if (isStackedHeader(aoa, best.rowIndex)) {
+        best = { ...best, rowCount: 2 };
+    }
+
+    return best;
+}
+
+/**
+ * Read the first table of a reference file (part catalog, lifecycle list). Unlike
+ * parseExcelBuffer it does not classify sheets, so text-only tables are kept;
+ * the first sheet with a header row is used. Throws when the file cannot be read.
  */
-export function detectHeaderRow(rows: Record<string, unknown>[]): number {
-    // Simple heuristic: first row is usually the header
-    // More sophisticated detection could analyze text vs numeric content
-    return 1;
+export function parseReferenceTable(buffer: ArrayBuffer): SheetTable {
+    const workbook = XLSX.read(buffer, { type: 'array', cellNF: true });
+    const tables = workbook.SheetNames
+        .map(sheetName => workbook.Sheets[sheetName])
+        .filter((worksheet): worksheet is XLSX.WorkSheet => Boolean(worksheet))
+        .map(readSheetTable);
+
+    const table = tables.find(t => t.headers.length > 0);
+    if (!table) {
+        throw new Error('The file has no table with a header row.');
+    }
+    return table;
 }
 
 /**
- * Normalize a quantity string to a number
+ * Read a worksheet as a table: detect the header row (merging stacked headers),
+ * then return the data rows below it keyed by header with their real Excel row numbers.
+ * Data cells hold the displayed text; cells stored as numbers or dates also keep
+ * their stored value, so identifiers Excel converted can be recognized later.
  */
-export function parseQuantity(value: unknown): number | null {
-    if (value === null || value === undefined || value === '') {
-        return null;
+export function readSheetTable(worksheet: XLSX.WorkSheet): SheetTable {
+    const ref = worksheet['!ref'];
+    if (!ref) {
+        return { headers: [], headerRow: 1, headerRowCount: 1, rows: [] };
     }
 
-    const strValue = String(value).replace(/[,\s]/g, '');
-    const num = parseFloat(strValue);
+    const range = XLSX.utils.decode_range(ref);
+    const aoa = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+        header: 1,
+        defval: '', // Default value for empty cells
+        raw: false, // Convert all values to strings for consistency
+        blankrows: true, // Keep blank rows so indexes map to Excel rows
+    });
+
+    fillMergedHeaderCells(aoa, worksheet['!merges'] ?? [], range.s.r, range.s.c);
 
-    return isNaN(num) ? null : num;
+    const detection = detectHeaderRow(aoa);
+    const headerCells = aoa.slice(detection.rowIndex, detection.rowIndex + detection.rowCount).map(toCells);
+    const width = Math.max(0, ...aoa.map(row => row.length));
+
+    // Combine stacked header cells column by column ("Unit" + "Price" → "Unit Price")
+    const headers: string[] = [];
+    for (let c = 0; c < width; c++) {
+        const label = headerCells
+            .map(row => row[c] ?? '')
+            .filter((part, idx, parts) => part !== '' && part !== parts[idx - 1])
+            .join(' ');
+        headers.push(uniqueHeader(label || `Column ${XLSX.utils.encode_col(range.s.c + c)}`, headers));
+    }
+
+    const rows: SheetTable['rows'] = [];
+    for (let i = detection.rowIndex + detection.rowCount; i < aoa.length; i++) {
+        const cells = toCells(aoa[i]);
+        if (cells.every(cell => cell === '')) continue;
+
+        const data: Record<string, unknown> = {};
+        const cellTypes: Record<string, TypedCell> = {};
+        headers.forEach((header, c) => {
+            data[header] = cells[c] ?? '';
+            const typed = typedCell(worksheet[XLSX.utils.encode_cell({ r: range.s.r + i, c: range.s.c + c })]);
+            if (typed) cellTypes[header] = typed;
+        });
+
+        rows.push({
+            rowNumber: range.s.r + i + 1, // Actual 1-indexed Excel row
+            data,
+            cellTypes,
+        });
+    }
+
+    return {
+        headers,
+        headerRow: range.s.r + detection.rowIndex + 1,
+        headerRowCount: detection.rowCount,
+        rows,
+    };
 }
 
 /**
- * Normalize a price string to a number
+ * Collect the cells of a sheet that hold text, in reading order, so risks
+ * found in them can point back to an exact cell. Cells in the table's data
+ * area carry their column header.
+ */
+export function readTextCells(worksheet: XLSX.WorkSheet, sheetName: string, table: SheetTable): TextCell[] {
+    const ref = worksheet['!ref'];
+    if (!ref) return [];
+
+    const range = XLSX.utils.decode_range(ref);
+    const firstDataRow = table.headerRow + table.headerRowCount;
+    const found: { c: number; cell: TextCell }[] = [];
+
+    for (const address of Object.keys(worksheet)) {
+        if (address.startsWith('!')) continue;
+
+        const cell = worksheet[address] as XLSX.CellObject;
+        const text = String(cell.w ?? cell.v ?? '').trim();
+        // Numbers and dates cannot carry a clause; skip them to keep the analysis small
+        if (!/\p{L}/u.test(text)) continue;
+
+        const { r, c } = XLSX.utils.decode_cell(address);
+        const rowNumber = r + 1;
+        found.push({
+            c,
+            cell: {
+                sheetName,
+                rowNumber,
+                column: XLSX.utils.encode_col(c),
+                header: rowNumber >= firstDataRow ? table.headers[c - range.s.c] ?? null : null,
+                text,
+            },
+        });
+    }
+
+    return found
+        .sort((a, b) => a.cell.rowNumber - b.cell.rowNumber || a.c - b.c)
+        .map(({ cell }) => cell);
+}
+
+/**
+ * The stored value behind a number or date cell; null for text, booleans and blanks
+ */
+function typedCell(cell: XLSX.CellObject | undefined): TypedCell | null {
+    if (!cell || cell.t !== 'n' || typeof cell.v !== 'number') return null;
+
+    const format = typeof cell.z === 'string' ? cell.z : null;
+    return {
+        type: format && XLSX.SSF.is_date(format) ? 'date' : 'number',
+        value: cell.v,
+        format,
+    };
+}
+
+/**
+ * Decide whether the row after the header completes it ("Unit" / "Price")
+ */
+function isStackedHeader(aoa: unknown[][], headerIndex: number): boolean {
+    const top = toCells(aoa[headerIndex]);
+    const bottom = toCells(aoa[headerIndex + 1]);
+    const bottomFilled = bottom.filter(cell => cell !== '');
+
+    if (bottomFilled.length === 0 || bottomFilled.some(isNumericCell)) return false;
+
+    // The row below the second header line must look like data
+    const below = toCells(aoa[headerIndex + 2]).filter(cell => cell !== '');
+    if (below.length === 0 || !below.some(isNumericCell)) return false;
+
+    // A lone second-line cell is a short label continuing the header text above it ("Unit" over "Price")
+    // or naming a column the first line left blank; longer text is a note, not a header
+    if (bottomFilled.length === 1) {
+        const label = bottomFilled[0];
+        return label.length <= 30 && label.split(/\s+/).length <= 3;
+    }
+
+    // Either the second line fills gaps in the first, or it is itself mostly header vocabulary
+    const fillsGaps = bottom.some((cell, c) => cell !== '' && (top[c] ?? '') === '');
+    const mostlyKeywords = countKeywordHits(bottomFilled) >= bottomFilled.length / 2;
+
+    return fillsGaps || mostlyKeywords;
+}
+
+/**
+ * Score how consistently each column below a candidate header holds one type of value
+ */
+function columnConsistency(aoa: unknown[][], startIndex: number, width: number): number {
+    const sample = aoa.slice(startIndex, startIndex + HEADER_SAMPLE_ROWS).map(toCells)
+        .filter(cells => cells.some(cell => cell !== ''));
+    if (sample.length === 0 || width === 0) return 0;
+
+    let consistentColumns = 0;
+    let numericColumns = 0;
+    for (let c = 0; c < width; c++) {
+        const values = sample.map(cells => cells[c] ?? '').filter(cell => cell !== '');
+        if (values.length < Math.ceil(sample.length / 2)) continue;
+
+        const numeric = values.filter(isNumericCell).length;
+        if (numeric === values.length) numericColumns++;
+        if (numeric === 0 || numeric === values.length) consistentColumns++;
+    }
+
+    // A data table below a header almost always has at least one numeric column
+    return (consistentColumns / width) * (numericColumns > 0 ? 1 : 0.5);
+}
+
+/**
+ * Copy the value of merged header cells across the merged area
  */
-export function parsePrice(value: unknown): number | null {
-    if (value === null || value === undefined || value === '') {
-        return null;
+function fillMergedHeaderCells(aoa: unknown[][], merges: XLSX.Range[], rowOffset: number, colOffset: number): void {
+    for (const merge of merges) {
+        if (merge.s.r - rowOffset >= HEADER_SCAN_ROWS) continue;
+
+        const value = aoa[merge.s.r - rowOffset]?.[merge.s.c - colOffset];
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+            const row = aoa[r - rowOffset];
+            if (!row) continue;
+            for (let c = merge.s.c; c <= merge.e.c; c++) {
+                if (row[c - colOffset] === '' || row[c - colOffset] === undefined) {
+                    row[c - colOffset] = value;
+                }
+            }
+        }
     }
+}
 
-    // Remove currency symbols and formatting
-    const strValue = String(value)
-        .replace(/[$€£¥₩,\s]/g, '')
-        .replace(/[()]/g, ''); // Handle accounting format (1,234.56)
+function toCells(row: unknown[] | undefined): string[] {
+    return (row ?? []).map(cell => String(cell ?? '').trim());
+}
+
+function isNumericCell(cell: string): boolean {
+    return /^[-+(]?[$€£¥₩]?\s*\d[\d,.\s]*%?\)?$/.test(cell);
+}
+
+function countKeywordHits(cells: string[]): number {
+    return cells.filter(cell => HEADER_KEYWORD_PATTERN.test(cell)).length;
+}
+
+function uniqueHeader(label: string, existing: string[]): string {
+    if (!existing.includes(label)) return label;
+    let suffix = 2;
+    while (existing.includes(`${label} ${suffix}`)) suffix++;
+    return `${label} ${suffix}`;
+}
 
-    const num = parseFloat(strValue);
+/**
+ * Normalize a quantity string to a number
+ */
+export function parseQuantity(value: unknown, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null {
+    return parseLocaleNumber(value, format);
+}
 
-    return isNaN(num) ? null : num;
+/**
+ * Normalize a price string to a number
+ * Currency symbols/codes are ignored here; use detectCurrency to read them.
+ * Accounting format (1,234.56) is returned as a negative number.
+ */
+export function parsePrice(value: unknown, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null {
+    return parseLocaleNumber(value, format);
 }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { extractIncoterms } from './incoterms';
+import type { TextCell } from '@/types/quote';
+
+const cell = (text: string, rowNumber = 1): TextCell => ({ sheetName: 'Terms', rowNumber, column: 'A', header: null, text });
+
+describe('extractIncoterms', () => {
+    it('reads the term, named place and version', () => {
+        const [occurrence] = extractIncoterms([cell('Delivery: FOB Shanghai (Incoterms 2020)')]);
+        expect(occurrence).toMatchObject({ term: 'FOB', place: 'Shanghai', version: '2020', convention: 'incoterms', replacedBy: null });
+        expect(occurrence.source.cellRef).toContain('A1');
+    });
+
+    it('reads spelled-out terms in any case', () => {
+        expect(extractIncoterms([cell('delivered duty paid Munich')]).map(o => [o.term, o.place])).toEqual([['DDP', 'Munich']]);
+    });
+
+    it('maps withdrawn terms to their successor', () => {
+        const [occurrence] = extractIncoterms([cell('DDU Rotterdam')]);
+        expect(occurrence).toMatchObject({ term: 'DDU', replacedBy: 'DAP', version: '2000' });
+    });
+
+    it('tells UCC shipping terms apart from the Incoterm FOB', () => {
+        const [occurrence] = extractIncoterms([cell('FOB Destination, freight prepaid')]);
+        expect(occurrence).toMatchObject({ term: 'FOB', place: 'Destination', convention: 'ucc' });
+    });
+
+    it('ignores abbreviations inside part numbers and lower-case words', () => {
+        expect(extractIncoterms([cell('CIF-200 connector'), cell('DAP3 module'), cell('the fob of a key')])).toEqual([]);
+    });
+});
@@ -0,0 +1,160 @@
+import { INCOTERMS_DATA } from './schemas';
+import { cellSource } from './cellProvenance';
+import type { CellSource, TextCell } from '@/types/quote';
+
+/**
+ * Incoterms extraction
+ *
+ * Finds delivery terms cell by cell and returns each occurrence with its term,
+ * named place ("FOB Shanghai" → Shanghai), rules version and cell reference.
+ * Abbreviations only match in upper case and not inside part numbers
+ * ("CIF-200", "DAP3"); spelled-out names ("Delivered Duty Paid") match in any
+ * case. Terms withdrawn in 2020 (DAT) or 2010 (DAF, DES, DEQ, DDU) are mapped
+ * to their successors, and US UCC shipping terms ("FOB Destination") are told
+ * apart from the Incoterm FOB.
+ */
+
+export type IncotermVersion = '2000' | '2010' | '2020';
+
+export interface IncotermOccurrence {
+    term: string;
+    place: string | null;
+    version: IncotermVersion | null;
+    convention: 'incoterms' | 'ucc';
+    // Current Incoterms 2020 term for withdrawn terms (DAT → DPU)
+    replacedBy: string | null;
+    text: string;
+    source: CellSource;
+}
+
+// Withdrawn terms, with the version they last appeared in and their successor
+export const LEGACY_INCOTERMS: Record<string, { version: IncotermVersion; replacedBy: string; description: string }> = {
+    DAT: { version: '2010', replacedBy: 'DPU', description: 'Delivered at Terminal - Seller delivers unloaded at a named terminal' },
+    DAF: { version: '2000', replacedBy: 'DAP', description: 'Delivered at Frontier - Seller delivers at the border' },
+    DES: { version: '2000', replacedBy: 'DAP', description: 'Delivered Ex Ship - Seller delivers on board at the destination port' },
+    DEQ: { version: '2000', replacedBy: 'DPU', description: 'Delivered Ex Quay - Seller delivers on the quay at the destination port' },
+    DDU: { version: '2000', replacedBy: 'DAP', description: 'Delivered Duty Unpaid - Seller delivers, buyer clears import' },
+};
+
+// What the seller pays for up to the named place, used in recommendations
+export const SELLER_COSTS: Record<string, string> = {
+    EXW: 'making the goods available at',
+    FCA: 'export clearance and handover to the carrier at',
+    FAS: 'export clearance and delivery alongside the vessel at',
+    FOB: 'export clearance and loading on board at',
+    CFR: 'main carriage (sea freight) to',
+    CIF: 'sea freight and minimum insurance to',
+    CPT: 'main carriage to',
+    CIP: 'main carriage and all-risks insurance to',
+    DAP: 'all transport to',
+    DPU: 'all transport and unloading at',
+    DDP: 'all transport, import clearance, duties and taxes to',
+    DAT: 'all transport and unloading at',
+    DAF: 'transport to the border at',
+    DES: 'sea freight to',
+    DEQ: 'sea freight and unloading at',
+    DDU: 'all transport (duties excluded) to',
+};
+
+const SPELLED_OUT: Record<string, string> = {
+    EXW: 'ex[\\s-]+works',
+    FCA: 'free\\s+carrier',
+    FAS: 'free\\s+alongside\\s+ship',
+    FOB: 'free\\s+on\\s+board',
+    CFR: 'cost\\s+and\\s+freight',
+    CIF: 'cost,?\\s+insurance\\s+(?:and\\s+)?freight',
+    CPT: 'carriage\\s+paid\\s+to',
+    CIP: 'carriage\\s+and\\s+insurance\\s+paid(?:\\s+to)?',
+    DAP: 'delivered\\s+at\\s+place',
+    DPU: 'delivered\\s+at\\s+place\\s+unloaded',
+    DDP: 'delivered\\s+duty\\s+paid',
+    DAT: 'delivered\\s+at\\s+terminal',
+    DDU: 'delivered\\s+duty\\s+unpaid',
+};
+
+const ALL_TERMS = [...Object.keys(INCOTERMS_DATA), ...Object.keys(LEGACY_INCOTERMS)];
+
+// Upper-case abbreviation, not glued to letters, digits, dashes or slashes of a part number
+const ABBREVIATION_PATTERN = new RegExp(`(?<![A-Za-z0-9/-])(${ALL_TERMS.join('|')})(?![A-Za-z0-9/-])`, 'g');
+
+// Longest names first so "Delivered at Place Unloaded" wins over "Delivered at Place"
+const SPELLED_OUT_PATTERNS = Object.entries(SPELLED_OUT)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .map(([term, name]) => ({ term, pattern: new RegExp(`\\b${name}\\b`, 'gi') }));
+
+const VERSION_PATTERN = /incoterms?\s*®?\s*(2000|2010|2020)/i;
+
+// US Uniform Commercial Code FOB variants: the "place" is a point in the shipment, not a port
+const UCC_FOB_PATTERN = /^(destination|origin|shipping\s+point|factory|plant|mill|warehouse|seller'?s?\s+(?:dock|plant|facility)|buyer'?s?\s+(?:dock|plant|facility))\b/i;
+
+// Words after a term that are not a named place
+const NOT_A_PLACE = /^(incoterms?|terms?|basis|price|prices|pricing|only|applies|apply|and|or|to|is|are|the|per)$/i;
+
+/**
+ * Read the named place after a term: up to the end of the phrase, at most six words
+ */
+function readPlace(rest: string, term: string): string | null {
+    const spelledOut = SPELLED_OUT[term] ? new RegExp(`^${SPELLED_OUT[term]}\\b`, 'i') : null;
+    const phrase = rest
+        // Skip a separator, a version ("Incoterms 2020") and a spelled-out name, bracketed or not
+        .replace(/^\s*(?:[-–:]\s*)?(?:incoterms?\s*®?\s*20\d\d\s*)?(?:\([^)]*\)\s*)?[-–:,]?\s*/i, '')
+        .replace(spelledOut ?? /^$/, '')
+        .replace(/^\s*[-–:,]?\s*/, '')
+        .split(/[;()\n\t]|\.(?:\s|$)|\s[-–]\s|,?\s*incoterms?\b/i)[0]
+        .trim();
+
+    const words = phrase.split(/\s+/).filter(Boolean).slice(0, 6);
+    while (words.length > 0 && NOT_A_PLACE.test(words[0])) words.shift();
+    const place = words.join(' ').replace(/[,:\s]+$/, '');
+
+    return /\p{L}/u.test(place) ? place : null;
+}
+
+/**
+ * Extract every Incoterm occurrence from the text cells, in reading order
+ */
+export function extractIncoterms(cells: TextCell[]): IncotermOccurrence[] {
+    const documentVersion = cells.map(cell => cell.text.match(VERSION_PATTERN)?.[1]).find(Boolean) as IncotermVersion | undefined;
+    const occurrences: IncotermOccurrence[] = [];
+
+    for (const cell of cells) {
+        const cellVersion = cell.text.match(VERSION_PATTERN)?.[1] as IncotermVersion | undefined;
+        const hits: { term: string; start: number; end: number }[] = [];
+
+        for (const match of cell.text.matchAll(ABBREVIATION_PATTERN)) {
+            hits.push({ term: match[1], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+        }
+        for (const { term, pattern } of SPELLED_OUT_PATTERNS) {
+            for (const match of cell.text.matchAll(pattern)) {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                // "DAP - Delivered at Place" is one mention, not two
+                if (hits.some(hit => start < hit.end + 4 && end > hit.start - 4)) continue;
+                hits.push({ term, start, end });
+            }
+        }
+
+        for (const hit of hits.sort((a, b) => a.start - b.start)) {
+            const nextHit = hits.find(other => other.start > hit.start)?.start ?? cell.text.length;
+            const statedPlace = readPlace(cell.text.substring(hit.end, nextHit), hit.term);
+            const legacy = LEGACY_INCOTERMS[hit.term];
+            const uccPoint = hit.term === 'FOB' ? statedPlace?.match(UCC_FOB_PATTERN)?.[0] : undefined;
+            const isUcc = uccPoint !== undefined;
+            // A UCC point ends the term ("FOB Destination, freight prepaid" → Destination)
+            const place = uccPoint ?? statedPlace;
+            const end = hit.end + (place ? cell.text.indexOf(place, hit.end) - hit.end + place.length : 0);
+
+            occurrences.push({
+                term: hit.term,
+                place,
+                version: cellVersion ?? documentVersion ?? legacy?.version ?? null,
+                convention: isUcc ? 'ucc' : 'incoterms',
+                replacedBy: legacy?.replacedBy ?? null,
+                text: cell.text.substring(hit.start, end).trim(),
+                source: cellSource(cell, hit.start, end),
+            });
+        }
+    }
+
+    return occurrences;
+}
@@ -0,0 +1,55 @@
+import { normalizePartNumber } from './partNumbers';
+import type { LifecycleEntry, LifecycleStatus, ParsedRow, PartNumberRules } from '@/types/quote';
+
+/**
+ * Part lifecycle (end-of-life) status
+ *
+ * Parts on the lifecycle list are active, not recommended for new designs
+ * (NRND), open for a last-time buy, or obsolete, optionally with a successor
+ * part. Rows are matched to the list on their normalized part number, so
+ * "ABC-123" on the list covers "abc 123" in the BOM. The list itself is loaded
+ * on the server (see partLifecycle.ts).
+ */
+
+export const LIFECYCLE_STATUS_LABELS: Record<LifecycleStatus, string> = {
+    active: 'Active',
+    nrnd: 'NRND',
+    last_time_buy: 'Last-Time Buy',
+    obsolete: 'Obsolete',
+};
+
+// Spellings used in PLM/ERP exports, checked in order: "not active" must not read as active
+const STATUS_PATTERNS: [RegExp, LifecycleStatus][] = [
+    [/\b(obsolete|discontinued|eol|end[\s-]*of[\s-]*life|inactive|not\s+active|dead)\b/i, 'obsolete'],
+    [/\b(ltb|last[\s-]*time[\s-]*buy|last[\s-]*buy|final[\s-]*buy)\b/i, 'last_time_buy'],
+    [/\b(nrnd|not\s+recommended)\b/i, 'nrnd'],
+    [/\b(active|production|released|current)\b/i, 'active'],
+];
+
+/**
+ * Lifecycle status written as free text ("EOL", "Last Time Buy", "NRND"); null if unrecognized
+ */
+export function parseLifecycleStatus(text: string): LifecycleStatus | null {
+    const value = text.trim();
+    if (!value) return null;
+    return STATUS_PATTERNS.find(([pattern]) => pattern.test(value))?.[1] ?? null;
+}
+
+/**
+ * Look rows up on the lifecycle list; rows not on it get null
+ */
+export function matchRowsToLifecycle<T extends Pick<ParsedRow, 'partNumber'>>(
+    rows: T[],
+    entries: LifecycleEntry[],
+    rules: PartNumberRules
+): (LifecycleEntry | null)[] {
+    const byKey = new Map<string, LifecycleEntry>();
+    for (const entry of entries) {
+        const key = normalizePartNumber(entry.partNumber, rules);
+        if (key && !byKey.has(key)) byKey.set(key, entry);
+    }
+
+    return rows.map(row => row.partNumber.trim()
+        ? byKey.get(normalizePartNumber(row.partNumber, rules)) ?? null
+        : null);
+}
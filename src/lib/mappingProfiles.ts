@@ -0,0 +1,187 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { mappingProfileSchema } from './schemas';
+import type { ColumnMapping, MappingProfile, UnitConversion } from '@/types/quote';
+
+/**
+ * Saved column-mapping profiles
+ *
+ * Profiles hold only header names and mapping choices (never file contents),
+ * so they are kept in a small JSON file on the server. Override the location with:
+ *   MAPPING_PROFILES_PATH=/path/to/mapping-profiles.json
+ */
+const PROFILES_PATH = process.env.MAPPING_PROFILES_PATH
+    ?? path.join(process.cwd(), 'data', 'mapping-profiles.json');
+
+/**
+ * Normalize a header for fingerprinting ("  Unit  Price " → "unit price")
+ */
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint a header row. Order matters: the same template always lists
+ * its columns in the same order.
+ */
+export function computeHeaderSignature(headers: string[]): string {
+    const normalized = headers.map(normalizeHeader).filter(h => h !== '').join('|');
+    return createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+}
+
+export interface MappingProfileLoadResult {
+    profiles: MappingProfile[];
+    errors: string[];
+}
+
+/**
+ * Load all saved profiles (an empty list if none have been saved yet).
+ * Invalid profiles are skipped and reported; an unreadable file yields no profiles.
+ */
+export async function loadMappingProfiles(): Promise<MappingProfileLoadResult> {
+    let content: string;
+    try {
+        content = await fs.readFile(PROFILES_PATH, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { profiles: [], errors: [] };
+        }
+        throw error;
+    }
+
+    const fileName = path.basename(PROFILES_PATH);
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        return { profiles: [], errors: [`${fileName}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    if (!Array.isArray(data)) {
+        return { profiles: [], errors: [`${fileName}: expected a list of profiles.`] };
+    }
+
+    const result: MappingProfileLoadResult = { profiles: [], errors: [] };
+    data.forEach((entry, index) => {
+        const parsed = mappingProfileSchema.safeParse(entry);
+        if (parsed.success) {
+            result.profiles.push(parsed.data);
+        } else {
+            const problems = parsed.error.issues
+                .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+                .join('; ');
+            result.errors.push(`${fileName}: profile ${index + 1} is invalid (${problems}).`);
+        }
+    });
+    return result;
+}
+
+/**
+ * Load the profiles for a change; the file is rewritten, so it must be valid or invalid profiles would be lost
+ */
+async function loadProfilesForUpdate(): Promise<MappingProfile[]> {
+    const { profiles, errors } = await loadMappingProfiles();
+    if (errors.length > 0) {
+        throw new Error(`Fix the mapping profiles file first: ${errors.join(' ')}`);
+    }
+    return profiles;
+}
+
+async function writeMappingProfiles(profiles: MappingProfile[]): Promise<void> {
+    await fs.mkdir(path.dirname(PROFILES_PATH), { recursive: true });
+    await fs.writeFile(PROFILES_PATH, JSON.stringify(profiles, null, 2), 'utf-8');
+}
+
+/**
+ * Find the profile whose header fingerprint matches, preferring one saved for the same sheet.
+ * Problems with the profiles file are returned alongside.
+ */
+export async function findMatchingProfile(
+    headers: string[],
+    sheetName: string | null
+): Promise<{ profile: MappingProfile | null; errors: string[] }> {
+    const signature = computeHeaderSignature(headers);
+    const { profiles, errors } = await loadMappingProfiles();
+    const matches = profiles.filter(p => p.headerSignature === signature);
+
+    if (matches.length === 0) return { profile: null, errors };
+
+    // Most recently updated wins when a template was saved more than once
+    const sorted = [...matches].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return { profile: sorted.find(p => p.sheetName === sheetName) ?? sorted[0], errors };
+}
+
+/**
+ * Save a mapping as a named profile. A profile with the same name and
+ * header signature is updated in place instead of duplicated.
+ */
+export async function saveMappingProfile(input: {
+    name: string;
+    headers: string[];
+    columnMapping: ColumnMapping;
+    sheetName: string | null;
+    unitConversions?: Record<string, UnitConversion>;
+    ruleSet?: string | null;
+}): Promise<MappingProfile> {
+    const profiles = await loadProfilesForUpdate();
+    const headerSignature = computeHeaderSignature(input.headers);
+    const now = new Date().toISOString();
+
+    const existingIndex = profiles.findIndex(
+        p => p.name === input.name && p.headerSignature === headerSignature
+    );
+
+    const profile: MappingProfile = {
+        id: existingIndex !== -1 ? profiles[existingIndex].id : randomUUID(),
+        name: input.name,
+        headerSignature,
+        headers: input.headers,
+        columnMapping: input.columnMapping,
+        headerRow: input.columnMapping.headerRow,
+        sheetName: input.sheetName,
+        unitConversions: input.unitConversions ?? {},
+        ruleSet: input.ruleSet ?? null,
+        createdAt: existingIndex !== -1 ? profiles[existingIndex].createdAt : now,
+        updatedAt: now,
+    };
+
+    if (existingIndex !== -1) {
+        profiles[existingIndex] = profile;
+    } else {
+        profiles.push(profile);
+    }
+
+    await writeMappingProfiles(profiles);
+    return profile;
+}
+
+/**
+ * Delete a profile by id. Returns false if it did not exist.
+ */
+export async function deleteMappingProfile(id: string): Promise<boolean> {
+    const profiles = await loadProfilesForUpdate();
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === profiles.length) return false;
+
+    await writeMappingProfiles(remaining);
+    return true;
+}
+
+/**
+ * Parse unit conversions written as "BX=100 EA, ROLL=50 M"
+ */
+export function parseUnitConversions(text: string): Record<string, UnitConversion> {
+    const conversions: Record<string, UnitConversion> = {};
+
+    for (const entry of text.split(/[,;\n]/)) {
+        const match = entry.trim().match(/^([^=]+?)\s*=\s*(\d+(?:\.\d+)?)\s*([A-Za-z][\w ]*)$/);
+        if (!match) continue;
+
+        const factor = parseFloat(match[2]);
+        if (factor > 0) {
+            conversions[match[1].trim()] = { unit: match[3].trim(), factor };
+        }
+    }
+
+    return conversions;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { detectMissingData, isTotalsRow } from './riskDetector';
+import { scoreDeal } from './dealScore';
+import { DEFAULT_RISK_THRESHOLDS } from './riskRules';
+import type { ParsedRow } from '@/types/quote';
+
+const row = (rowNumber: number, partNumber: string, quantity: number | null, rawData: Record<string, unknown>): ParsedRow =>
+    ({ sheetName: 'BOM', rowNumber, partNumber, quantity, rawData } as ParsedRow);
+
+const rows = [
+    row(2, 'LM317T', 10, { 'Part Number': 'LM317T', Qty: 10, Description: 'Regulator' }),
+    row(3, '', 5, { 'Part Number': '', Qty: 5, Description: 'Heatsink' }),
+    row(4, '', 15, { 'Part Number': '', Qty: 15, Description: 'Subtotal', Amount: '1,250.00' }),
+    row(5, '', null, { Description: 'Grand Total:', Amount: '1,500.00' }),
+];
+
+describe('isTotalsRow', () => {
+    it('recognizes total and subtotal rows', () => {
+        expect(rows.map(isTotalsRow)).toEqual([false, false, true, true]);
+    });
+
+    it('does not take worded line items for totals', () => {
+        expect(isTotalsRow(row(6, '', 1, { Description: 'Total station', Notes: 'Survey equipment' }))).toBe(false);
+    });
+});
+
+describe('detectMissingData', () => {
+    it('skips totals rows', () => {
+        const risks = detectMissingData(rows);
+        expect(risks.map(risk => [risk.id.replace(/-[0-9a-f]+$/, ''), risk.affectedRows?.map(ref => ref.rowNumber)])).toEqual([['missing-pn', [3]]]);
+    });
+
+    it('leaves totals rows out of the incomplete-row share of the deal score', () => {
+        const factor = scoreDeal(rows, [], DEFAULT_RISK_THRESHOLDS.dealScore).factors.find(f => f.key === 'incomplete_rows');
+        expect(factor?.detail).toBe('1 of 2 rows lack a part number or quantity');
+    });
+});
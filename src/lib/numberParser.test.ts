@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { detectCurrency, detectStatedCurrency, inferNumberFormat, parseLocaleNumber } from './numberParser';
+
+describe('inferNumberFormat', () => {
+    it('reads comma decimals from European values', () => {
+        expect(inferNumberFormat(['1.234,56', '0,5', '12'])).toEqual({ decimal: ',', thousands: '.' });
+    });
+
+    it('reads dot decimals from US values', () => {
+        expect(inferNumberFormat(['1,234.56', '0.5'])).toEqual({ decimal: '.', thousands: ',' });
+    });
+
+    it('keeps the default for ambiguous values alone', () => {
+        expect(inferNumberFormat(['1,234', '5,678'])).toEqual({ decimal: '.', thousands: ',' });
+    });
+
+    it('recognizes space and apostrophe thousands', () => {
+        expect(inferNumberFormat(['1 234,50'])).toEqual({ decimal: ',', thousands: ' ' });
+        expect(inferNumberFormat(["1'234.50"])).toEqual({ decimal: '.', thousands: "'" });
+    });
+});
+
+describe('parseLocaleNumber', () => {
+    it('parses numbers in the given format', () => {
+        expect(parseLocaleNumber('1.234,56', { decimal: ',', thousands: '.' })).toBe(1234.56);
+        expect(parseLocaleNumber('1,234.56')).toBe(1234.56);
+        expect(parseLocaleNumber(42)).toBe(42);
+    });
+
+    it('strips currencies and reads accounting negatives', () => {
+        expect(parseLocaleNumber('$1,200.00')).toBe(1200);
+        expect(parseLocaleNumber('(1,234.56)')).toBe(-1234.56);
+        expect(parseLocaleNumber('EUR 99')).toBe(99);
+    });
+
+    it('takes the first number of mixed text', () => {
+        expect(parseLocaleNumber('12 pcs')).toBe(12);
+        expect(parseLocaleNumber('1.23E+11')).toBe(123000000000);
+    });
+
+    it('returns null for empty and non-numeric values', () => {
+        expect(parseLocaleNumber('')).toBeNull();
+        expect(parseLocaleNumber(null)).toBeNull();
+        expect(parseLocaleNumber('TBD')).toBeNull();
+    });
+});
+
+describe('detectCurrency', () => {
+    it('detects codes and symbols', () => {
+        expect(detectCurrency('Price (EUR)')).toBe('EUR');
+        expect(detectCurrency('US$ 10')).toBe('USD');
+        expect(detectCurrency('£5')).toBe('GBP');
+        expect(detectCurrency('RMB 100')).toBe('CNY');
+    });
+
+    it('does not read codes inside words', () => {
+        expect(detectCurrency('EURO-RACK')).toBeNull();
+        expect(detectCurrency('12')).toBeNull();
+    });
+
+    it('finds a stated document currency', () => {
+        expect(detectStatedCurrency('All prices in GBP, excluding VAT')).toBe('GBP');
+        expect(detectStatedCurrency('Currency: EUR')).toBe('EUR');
+    });
+});
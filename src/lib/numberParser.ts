@@ -0,0 +1,163 @@
+import type { NumberFormat } from '@/types/quote';
+
+// Default format when a column gives no evidence either way (1,234.56)
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimal: '.', thousands: ',' };
+
+// Currency symbols, longest first so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+    ['US$', 'USD'],
+    ['HK$', 'HKD'],
+    ['NZ$', 'NZD'],
+    ['CA$', 'CAD'],
+    ['C$', 'CAD'],
+    ['A$', 'AUD'],
+    ['S$', 'SGD'],
+    ['R$', 'BRL'],
+    ['CN¥', 'CNY'],
+    ['€', 'EUR'],
+    ['£', 'GBP'],
+    ['¥', 'JPY'],
+    ['₩', 'KRW'],
+    ['₹', 'INR'],
+    ['₽', 'RUB'],
+    ['₺', 'TRY'],
+    ['zł', 'PLN'],
+    ['$', 'USD'],
+];
+
+// ISO 4217 codes we expect to see on customer RFQs, plus common aliases
+const CURRENCY_CODES: Record<string, string> = {
+    USD: 'USD', EUR: 'EUR', GBP: 'GBP', JPY: 'JPY', CNY: 'CNY', RMB: 'CNY',
+    KRW: 'KRW', INR: 'INR', CHF: 'CHF', CAD: 'CAD', AUD: 'AUD', NZD: 'NZD',
+    HKD: 'HKD', SGD: 'SGD', TWD: 'TWD', THB: 'THB', MYR: 'MYR', IDR: 'IDR',
+    BRL: 'BRL', MXN: 'MXN', SEK: 'SEK', NOK: 'NOK', DKK: 'DKK', PLN: 'PLN',
+    CZK: 'CZK', HUF: 'HUF', ZAR: 'ZAR', AED: 'AED', SAR: 'SAR', TRY: 'TRY', RUB: 'RUB',
+};
+
+const CURRENCY_CODE_PATTERN = new RegExp(`(^|[^A-Z])(${Object.keys(CURRENCY_CODES).join('|')})(?![A-Z])`);
+
+/**
+ * Detect a currency from a cell value or header ("€1.234,56", "USD 100", "Price (EUR)")
+ */
+export function detectCurrency(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    const str = String(value);
+    if (str.trim() === '') return null;
+
+    const codeMatch = str.toUpperCase().match(CURRENCY_CODE_PATTERN);
+    if (codeMatch) {
+        return CURRENCY_CODES[codeMatch[2]];
+    }
+
+    for (const [symbol, code] of CURRENCY_SYMBOLS) {
+        if (str.includes(symbol)) return code;
+    }
+
+    return null;
+}
+
+/**
+ * Look for a document-level currency statement ("Currency: EUR", "All prices in GBP")
+ */
+export function detectStatedCurrency(rawText: string): string | null {
+    const match = rawText.match(/(?:currency|prices?\s+(?:are\s+)?(?:quoted\s+)?in)\s*[:\-]?\s*([A-Za-z]{3}|[€£¥₩₹$])/i);
+    return match ? detectCurrency(match[1]) : null;
+}
+
+/**
+ * Infer decimal and thousand separators from the values of one column.
+ * Unambiguous values ("1.234,56", "0,5", "1,234,567") vote; "1,234" alone stays ambiguous.
+ */
+export function inferNumberFormat(values: unknown[]): NumberFormat {
+    let commaDecimal = 0;
+    let dotDecimal = 0;
+    let spaceThousands = 0;
+    let apostropheThousands = 0;
+
+    for (const value of values) {
+        if (typeof value === 'number') continue;
+        const str = stripNonNumeric(String(value ?? ''));
+        if (!/\d/.test(str)) continue;
+
+        if (/\d[\s  ]\d{3}/.test(str)) spaceThousands++;
+        if (/\d'\d{3}/.test(str)) apostropheThousands++;
+
+        const compact = str.replace(/[\s  ']/g, '');
+        const lastComma = compact.lastIndexOf(',');
+        const lastDot = compact.lastIndexOf('.');
+
+        if (lastComma !== -1 && lastDot !== -1) {
+            // Whichever separator comes last is the decimal separator
+            if (lastComma > lastDot) commaDecimal++;
+            else dotDecimal++;
+        } else if (lastComma !== -1) {
+            if (/^-?\d{1,3}(,\d{3}){2,}$/.test(compact)) dotDecimal++;
+            else if (!/^-?\d{1,3},\d{3}$/.test(compact)) commaDecimal++;
+        } else if (lastDot !== -1) {
+            if (/^-?\d{1,3}(\.\d{3}){2,}$/.test(compact)) commaDecimal++;
+            else if (!/^-?\d{1,3}\.\d{3}$/.test(compact)) dotDecimal++;
+        }
+    }
+
+    if (commaDecimal > dotDecimal) {
+        return { decimal: ',', thousands: spaceThousands > 0 ? ' ' : '.' };
+    }
+
+    if (apostropheThousands > 0) {
+        return { decimal: '.', thousands: "'" };
+    }
+
+    return { decimal: '.', thousands: spaceThousands > 0 ? ' ' : ',' };
+}
+
+/**
+ * Parse a number written in the given format. Handles currency symbols and codes,
+ * accounting negatives "(1,234.56)", leading and trailing minus signs.
+ */
+export function parseLocaleNumber(value: unknown, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+
+    if (typeof value === 'number') {
+        return isNaN(value) ? null : value;
+    }
+
+    const str = String(value).trim();
+
+    // Scientific notation from Excel exports ("1.23E+11")
+    if (/^[-+]?\d+(\.\d+)?e[-+]?\d+$/i.test(str)) {
+        return Number(str);
+    }
+
+    // Take the first numeric token so "5-10" or "12 pcs" behave like parseFloat did
+    const token = str.match(/\d[\d.,\s  ']*/)?.[0].trim();
+    if (!token) return null;
+
+    const before = str.slice(0, str.indexOf(token));
+    const after = str.slice(str.indexOf(token) + token.length);
+    const negative = (/\(/.test(before) && /^[^\d(]*\)/.test(after))
+        || /-\s*$/.test(before.replace(/[^\d\s-]/g, ''))
+        || /^\s*-\s*$/.test(after);
+
+    let normalized = token.replace(/[\s  ']/g, '');
+    if (format.thousands === '.' || format.thousands === ',') {
+        normalized = normalized.split(format.thousands).join('');
+    }
+    if (format.decimal === ',') {
+        normalized = normalized.replace(',', '.');
+    }
+    normalized = normalized.replace(/,/g, '');
+
+    const num = parseFloat(normalized);
+    if (isNaN(num)) return null;
+
+    return negative ? -num : num;
+}
+
+/**
+ * Strip everything but digits, separators and spaces (currency marks, codes, parens, signs)
+ */
+function stripNonNumeric(str: string): string {
+    return str.replace(/[^\d.,\s  ']/g, '').trim();
+}
@@ -0,0 +1,134 @@
+import { BASE_UNITS, unitFactor } from './units';
+import type { CatalogEntry, ParsedRow } from '@/types/quote';
+
+/**
+ * Minimum order quantities and pack multiples
+ *
+ * Items sell from a minimum order quantity (MOQ) and in whole packs (a reel
+ * of 5000, a box of 100). Both come from mapped columns in the customer's
+ * file or, for rows that matched the part catalog on their part number, from
+ * the catalog. Each row's quoted quantity is its requested quantity rounded
+ * up to satisfy both, in the row's own unit. Catalog values are in the catalog
+ * item's unit and are converted through base units (an MOQ of 500 EA is 5 of
+ * "BOX/100"); when the units don't convert, they are not applied.
+ */
+
+export interface OrderQuantityRules {
+    moq: number | null;
+    packMultiple: number | null;
+}
+
+export type OrderQuantityIssueKind = 'below_moq' | 'pack_multiple';
+
+export interface OrderQuantityIssue {
+    row: ParsedRow;
+    kind: OrderQuantityIssueKind;
+    rules: OrderQuantityRules;
+    requested: number;
+    quoted: number;
+}
+
+// A row whose catalog MOQ or pack multiple could not be applied
+export interface UnconvertibleOrderRules {
+    row: ParsedRow;
+    catalogUnit: string;
+}
+
+const positive = (value: number | null | undefined): number | null =>
+    value !== null && value !== undefined && value > 0 ? value : null;
+
+/**
+ * Catalog item whose MOQ and pack multiple the row still needs: only exact or
+ * normalized matches count (fuzzy matches may be a different item)
+ */
+function catalogRulesEntry(row: ParsedRow): CatalogEntry | null {
+    if (positive(row.moq) !== null && positive(row.packMultiple) !== null) return null;
+
+    const match = row.catalogMatch;
+    const entry = match?.entry && (match.method === 'exact' || match.method === 'normalized') ? match.entry : null;
+    return entry && (positive(entry.moq) !== null || positive(entry.packMultiple) !== null) ? entry : null;
+}
+
+/**
+ * MOQ and pack multiple for a row, in its unit: its own columns first, then the
+ * catalog's, converted from the catalog item's unit. Null when neither applies.
+ */
+export function orderQuantityRules(row: ParsedRow): OrderQuantityRules | null {
+    const entry = catalogRulesEntry(row);
+    const factor = entry ? unitFactor(entry.unitOfMeasure, row.unitOfMeasure) : null;
+    const inRowUnit = (value: number | null | undefined): number | null => {
+        const catalogValue = positive(value);
+        return catalogValue !== null && factor !== null ? Number((catalogValue * factor).toPrecision(12)) : null;
+    };
+
+    const moq = positive(row.moq) ?? inRowUnit(entry?.moq);
+    const packMultiple = positive(row.packMultiple) ?? inRowUnit(entry?.packMultiple);
+    return moq === null && packMultiple === null ? null : { moq, packMultiple };
+}
+
+/**
+ * Rows whose catalog MOQ or pack multiple is in a unit that doesn't convert to the row's,
+ * so their quantities were not checked against it
+ */
+export function findUnconvertibleOrderRules(rows: ParsedRow[]): UnconvertibleOrderRules[] {
+    return rows.flatMap(row => {
+        const entry = catalogRulesEntry(row);
+        return entry && unitFactor(entry.unitOfMeasure, row.unitOfMeasure) === null
+            ? [{ row, catalogUnit: entry.unitOfMeasure.trim() || BASE_UNITS.count }]
+            : [];
+    });
+}
+
+/**
+ * Smallest quantity of at least the MOQ, in whole pack multiples, that covers the request
+ */
+export function roundOrderQuantity(quantity: number, rules: OrderQuantityRules | null): number {
+    if (!rules || quantity <= 0) return quantity;
+
+    let quoted = Math.max(quantity, rules.moq ?? 0);
+    if (rules.packMultiple) {
+        // Tolerate float noise on both sides: 0.3 / 0.1 is 2.9999999999999996 packs, and 3 × 0.1 is 0.30000000000000004
+        const packs = Math.ceil(quoted / rules.packMultiple - 1e-9);
+        quoted = Number((packs * rules.packMultiple).toPrecision(12));
+    }
+    return quoted;
+}
+
+/**
+ * Recompute the quoted quantity of each row and its quantity tiers, e.g. after quantities or catalog matches changed
+ */
+export function withQuotedQuantities(rows: ParsedRow[]): ParsedRow[] {
+    return rows.map(row => {
+        const rules = orderQuantityRules(row);
+        return {
+            ...row,
+            quotedQuantity: row.quantity !== null ? roundOrderQuantity(row.quantity, rules) : null,
+            quantityTiers: row.quantityTiers.map(tier => ({ ...tier, quotedQuantity: roundOrderQuantity(tier.quantity, rules) })),
+        };
+    });
+}
+
+/**
+ * Rows whose requested quantity is below the MOQ or not a whole number of packs
+ */
+export function findOrderQuantityIssues(rows: ParsedRow[]): OrderQuantityIssue[] {
+    const issues: OrderQuantityIssue[] = [];
+
+    for (const row of rows) {
+        const rules = orderQuantityRules(row);
+        if (!rules || row.quantity === null || row.quantity <= 0) continue;
+
+        const quoted = roundOrderQuantity(row.quantity, rules);
+        if (quoted === row.quantity) continue;
+
+        issues.push({
+            row,
+            kind: rules.moq !== null && row.quantity < rules.moq ? 'below_moq' : 'pack_multiple',
+            rules,
+            requested: row.quantity,
+            quoted,
+        });
+    }
+
+    return issues;
+}
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseReferenceTable } from './excelParser';
+import { detectCurrency, inferNumberFormat, parseLocaleNumber } from './numberParser';
+import { partCatalogSchema } from './schemas';
+import type { CatalogEntry, PartCatalog, PartCatalogInfo } from '@/types/quote';
+
+/**
+ * Local part master catalog
+ *
+ * The item master (part number, description, list price, UoM, MOQ, pack
+ * multiple, lead time, lifecycle status) is imported from a CSV/XLSX upload and kept in a JSON
+ * file on the server. It is only read by server code for matching and never
+ * sent to an AI provider. Override the location with:
+ *   PART_CATALOG_PATH=/path/to/part-catalog.json
+ */
+const CATALOG_PATH = process.env.PART_CATALOG_PATH
+    ?? path.join(process.cwd(), 'data', 'part-catalog.json');
+
+type CatalogField = keyof CatalogEntry;
+
+// Header vocabulary per catalog field, strongest pattern first
+const CATALOG_FIELD_PATTERNS: Record<CatalogField, string[]> = {
+    partNumber: ['part number', 'part no', 'part #', 'p/n', 'pn', 'sku', 'item', 'mpn', 'material', 'part', 'code'],
+    description: ['description', 'desc', 'name', 'title'],
+    listPrice: ['list price', 'price', 'cost'],
+    currency: ['currency', 'ccy', 'curr'],
+    moq: ['moq', 'min order', 'minimum order', 'min qty', 'minimum qty'],
+    packMultiple: ['pack multiple', 'order multiple', 'spq', 'mpq', 'multiple', 'pack qty', 'pack size'],
+    unitOfMeasure: ['uom', 'unit of measure', 'unit', 'um'],
+    leadTime: ['lead time', 'leadtime', 'lead'],
+    lifecycleStatus: ['lifecycle', 'life cycle', 'status'],
+};
+
+// Claim the more specific columns first: "Min Order Qty" before "Unit", "List Price" before "Price"
+const CLAIM_ORDER: CatalogField[] = ['partNumber', 'moq', 'packMultiple', 'listPrice', 'currency', 'description', 'unitOfMeasure', 'leadTime', 'lifecycleStatus'];
+
+/**
+ * Map catalog headers to catalog fields by keyword; each column is used once
+ */
+function mapCatalogColumns(headers: string[]): Partial<Record<CatalogField, string>> {
+    const lowerHeaders = headers.map(h => h.toLowerCase());
+    const used = new Set<number>();
+    const columns: Partial<Record<CatalogField, string>> = {};
+
+    for (const field of CLAIM_ORDER) {
+        for (const pattern of CATALOG_FIELD_PATTERNS[field]) {
+            const index = lowerHeaders.findIndex((h, i) => !used.has(i) && h.includes(pattern));
+            if (index !== -1) {
+                used.add(index);
+                columns[field] = headers[index];
+                break;
+            }
+        }
+    }
+
+    return columns;
+}
+
+/**
+ * Read catalog entries from an uploaded CSV/XLSX file. Throws when the file has no part number column.
+ */
+export function parsePartCatalog(buffer: ArrayBuffer, fileName: string): PartCatalog {
+    const parsed = parseReferenceTable(buffer);
+    const columns = mapCatalogColumns(parsed.headers);
+    if (!columns.partNumber) {
+        throw new Error(`No part number column found in the catalog (headers: ${parsed.headers.join(', ') || 'none'}).`);
+    }
+
+    const text = (data: Record<string, unknown>, field: CatalogField) =>
+        columns[field] ? String(data[columns[field]] ?? '').trim() : '';
+    const priceFormat = inferNumberFormat(parsed.rows.map(({ data }) => data[columns.listPrice ?? '']));
+    const moqFormat = inferNumberFormat(parsed.rows.map(({ data }) => data[columns.moq ?? '']));
+    const packFormat = inferNumberFormat(parsed.rows.map(({ data }) => data[columns.packMultiple ?? '']));
+
+    const seen = new Set<string>();
+    const entries: CatalogEntry[] = [];
+    for (const { data } of parsed.rows) {
+        const partNumber = text(data, 'partNumber');
+        if (!partNumber || seen.has(partNumber.toUpperCase())) continue;
+        seen.add(partNumber.toUpperCase());
+
+        const priceCell = columns.listPrice ? data[columns.listPrice] : '';
+        entries.push({
+            partNumber,
+            description: text(data, 'description'),
+            listPrice: parseLocaleNumber(priceCell, priceFormat),
+            currency: detectCurrency(text(data, 'currency')) ?? detectCurrency(priceCell) ?? detectCurrency(columns.listPrice),
+            unitOfMeasure: text(data, 'unitOfMeasure'),
+            moq: columns.moq ? parseLocaleNumber(data[columns.moq], moqFormat) : null,
+            packMultiple: columns.packMultiple ? parseLocaleNumber(data[columns.packMultiple], packFormat) : null,
+            leadTime: text(data, 'leadTime'),
+            lifecycleStatus: text(data, 'lifecycleStatus'),
+        });
+    }
+
+    if (entries.length === 0) {
+        throw new Error('The catalog file has no rows with a part number.');
+    }
+
+    return {
+        fileName,
+        importedAt: new Date().toISOString(),
+        partCount: entries.length,
+        entries,
+    };
+}
+
+/**
+ * Load the catalog (null if none has been imported yet). Throws when the stored file is invalid.
+ */
+export async function loadPartCatalog(): Promise<PartCatalog | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(CATALOG_PATH, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+
+    const parsed = partCatalogSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+        const problems = parsed.error.issues
+            .slice(0, 5)
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid part catalog file ${path.basename(CATALOG_PATH)}: ${problems}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Replace the catalog with a newly imported one
+ */
+export async function savePartCatalog(catalog: PartCatalog): Promise<void> {
+    await fs.mkdir(path.dirname(CATALOG_PATH), { recursive: true });
+    await fs.writeFile(CATALOG_PATH, JSON.stringify(catalog), 'utf-8');
+}
+
+/**
+ * Remove the catalog. Returns false if there was none.
+ */
+export async function deletePartCatalog(): Promise<boolean> {
+    try {
+        await fs.unlink(CATALOG_PATH);
+        return true;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return false;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Catalog details without its entries, safe to show in the browser
+ */
+export function catalogInfo(catalog: PartCatalog): PartCatalogInfo {
+    return { fileName: catalog.fileName, importedAt: catalog.importedAt, partCount: catalog.partCount };
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseReferenceTable } from './excelParser';
+import { parseLifecycleStatus } from './lifecycle';
+import type { LifecycleEntry, LifecycleListInfo } from '@/types/quote';
+
+/**
+ * Part lifecycle list file
+ *
+ * A CSV/XLSX export (e.g. from PLM) with one row per part: part number,
+ * lifecycle status (active / NRND / last-time buy / obsolete), successor part,
+ * last-time-buy date and a note. Read on the server for every analysis, so
+ * edits apply to the next upload. Override the location with:
+ *   PART_LIFECYCLE_PATH=/path/to/part-lifecycle.csv
+ */
+const LIFECYCLE_PATH = process.env.PART_LIFECYCLE_PATH
+    ?? path.join(process.cwd(), 'config', 'part-lifecycle.csv');
+
+type LifecycleColumn = 'partNumber' | 'status' | 'replacement' | 'lastTimeBuyDate' | 'note';
+
+const LIFECYCLE_COLUMN_PATTERNS: Record<LifecycleColumn, string[]> = {
+    partNumber: ['part number', 'part no', 'part #', 'p/n', 'pn', 'sku', 'item', 'mpn', 'material', 'part'],
+    status: ['lifecycle', 'life cycle', 'status', 'state'],
+    replacement: ['replacement', 'successor', 'replaced by', 'substitute', 'alternate', 'new part'],
+    lastTimeBuyDate: ['ltb date', 'last time buy', 'last buy', 'ltb', 'eol date', 'last order'],
+    note: ['note', 'comment', 'remark', 'reason'],
+};
+
+// "Replacement Part Number" must not be taken for the part number, nor "LTB Date" for the status
+const CLAIM_ORDER: LifecycleColumn[] = ['replacement', 'lastTimeBuyDate', 'partNumber', 'status', 'note'];
+
+export interface PartLifecycleList extends LifecycleListInfo {
+    entries: LifecycleEntry[];
+}
+
+export interface LifecycleLoadResult {
+    list: PartLifecycleList | null;
+    errors: string[];
+}
+
+function mapLifecycleColumns(headers: string[]): Partial<Record<LifecycleColumn, string>> {
+    const lowerHeaders = headers.map(h => h.toLowerCase());
+    const used = new Set<number>();
+    const columns: Partial<Record<LifecycleColumn, string>> = {};
+
+    for (const column of CLAIM_ORDER) {
+        for (const pattern of LIFECYCLE_COLUMN_PATTERNS[column]) {
+            const index = lowerHeaders.findIndex((h, i) => !used.has(i) && h.includes(pattern));
+            if (index !== -1) {
+                used.add(index);
+                columns[column] = headers[index];
+                break;
+            }
+        }
+    }
+
+    return columns;
+}
+
+/**
+ * Read lifecycle entries from a CSV/XLSX file. Rows with an unknown status are
+ * skipped and reported; a file without part number or status column throws.
+ */
+export function parseLifecycleList(buffer: ArrayBuffer, fileName: string): LifecycleLoadResult {
+    const parsed = parseReferenceTable(buffer);
+    const columns = mapLifecycleColumns(parsed.headers);
+    if (!columns.partNumber || !columns.status) {
+        throw new Error(`The lifecycle list needs a part number and a status column (headers: ${parsed.headers.join(', ') || 'none'}).`);
+    }
+
+    const text = (data: Record<string, unknown>, column: LifecycleColumn) =>
+        columns[column] ? String(data[columns[column]] ?? '').trim() : '';
+
+    const entries: LifecycleEntry[] = [];
+    const unknown: string[] = [];
+    for (const { rowNumber, data } of parsed.rows) {
+        const partNumber = text(data, 'partNumber');
+        if (!partNumber) continue;
+
+        const status = parseLifecycleStatus(text(data, 'status'));
+        if (!status) {
+            unknown.push(`row ${rowNumber} "${text(data, 'status')}"`);
+            continue;
+        }
+
+        entries.push({
+            partNumber,
+            status,
+            replacement: text(data, 'replacement') || null,
+            lastTimeBuyDate: text(data, 'lastTimeBuyDate') || null,
+            note: text(data, 'note'),
+        });
+    }
+
+    return {
+        list: { fileName, partCount: entries.length, entries },
+        errors: unknown.length > 0
+            ? [`${fileName}: ${unknown.length} row${unknown.length > 1 ? 's have an' : ' has an'} unrecognized status and ${unknown.length > 1 ? 'were' : 'was'} skipped (${unknown.slice(0, 5).join(', ')}${unknown.length > 5 ? ', …' : ''}).`]
+            : [],
+    };
+}
+
+/**
+ * Load the lifecycle list (null if there is no list file). Problems are reported, not fatal.
+ */
+export async function loadLifecycleList(): Promise<LifecycleLoadResult> {
+    let content: Buffer;
+    try {
+        content = await fs.readFile(LIFECYCLE_PATH);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { list: null, errors: [] };
+        }
+        throw error;
+    }
+
+    const fileName = path.basename(LIFECYCLE_PATH);
+    try {
+        const buffer = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+        return parseLifecycleList(buffer, fileName);
+    } catch (error) {
+        return { list: null, errors: [`${fileName}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+}
+
+/**
+ * List details without its entries
+ */
+export function lifecycleListInfo(list: PartLifecycleList): LifecycleListInfo {
+    return { fileName: list.fileName, partCount: list.partCount };
+}
@@ -0,0 +1,148 @@
+import { DEFAULT_RISK_THRESHOLDS } from './riskRules';
+import type { ParsedRow, PartNumberRules } from '@/types/quote';
+
+/**
+ * Part numbers
+ *
+ * Normalizes part numbers before rows are compared, so "ABC-123",
+ * "abc 123 " and "ABC123" are one part. The rules (separators, leading
+ * zeros, manufacturer prefixes) come from the rule set (thresholds.partNumbers).
+ *
+ * Also recognizes part numbers Excel converted on entry: "3-1" stored as the
+ * date 1-Mar, "123456789012" shown as 1.23E+11, digits beyond the fifteenth
+ * replaced by zeros, and "00123" stored as the number 123. Conversions are
+ * read from the stored cell type the parser keeps per row, never guessed from
+ * the text alone.
+ */
+
+const SEPARATORS = /[\s\-_./\\]+/g;
+
+/**
+ * Comparison key for a part number under the given rules
+ */
+export function normalizePartNumber(partNumber: string, rules: PartNumberRules = DEFAULT_RISK_THRESHOLDS.partNumbers): string {
+    let key = partNumber.trim().toUpperCase().replace(/\s+/g, ' ');
+
+    // Longest prefix first, so "TI-" does not cut "TIX-" short
+    const prefix = [...rules.prefixes]
+        .map(p => p.trim().toUpperCase())
+        .sort((a, b) => b.length - a.length)
+        .find(p => p && key.startsWith(p) && key.length > p.length);
+    if (prefix) {
+        key = key.slice(prefix.length).replace(/^[\s\-_:./]+/, '');
+    }
+
+    if (rules.stripSeparators) key = key.replace(SEPARATORS, '');
+    if (rules.ignoreLeadingZeros && /^\d+$/.test(key)) key = key.replace(/^0+(?=\d)/, '');
+
+    return key;
+}
+
+export type PartNumberCorruptionKind = 'date' | 'scientific' | 'precision' | 'leading_zeros';
+
+export interface CorruptedPartNumber {
+    row: ParsedRow;
+    kind: PartNumberCorruptionKind;
+    // The cell as displayed, and the value Excel stored behind it
+    shown: string;
+    stored: string;
+    // What the customer probably typed, when it can be reconstructed
+    candidates: string[];
+    // False when digits or characters are gone for good
+    recoverable: boolean;
+}
+
+// Excel stores 15 significant digits; larger integers lose their last digits
+const MAX_EXACT_DIGITS = 15;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Calendar date of an Excel date serial (1900 date system)
+ */
+function serialToDate(serial: number): { year: number; month: number; day: number } {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Digits of a stored integer as Excel holds them: past the fifteenth, zeros
+ */
+function storedDigits(value: number): string {
+    const digits = BigInt(Math.round(Math.abs(value))).toString();
+    return digits.length > MAX_EXACT_DIGITS ? digits.slice(0, MAX_EXACT_DIGITS).padEnd(digits.length, '0') : digits;
+}
+
+/**
+ * Find part numbers Excel stored as dates or numbers in a way that changed them
+ */
+export function findCorruptedPartNumbers(rows: ParsedRow[]): CorruptedPartNumber[] {
+    const found: CorruptedPartNumber[] = [];
+
+    // Zero-padded part numbers kept as text show how long the numeric ones should be
+    const paddedLengths = new Map<number, number>();
+    for (const row of rows) {
+        const pn = row.partNumber.trim();
+        if (row.partNumberCell === null && /^0\d+$/.test(pn)) {
+            paddedLengths.set(pn.length, (paddedLengths.get(pn.length) ?? 0) + 1);
+        }
+    }
+    const paddedLength = [...paddedLengths].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+    for (const row of rows) {
+        const cell = row.partNumberCell;
+        const shown = row.partNumber.trim();
+        if (!cell || !shown) continue;
+
+        if (cell.type === 'date') {
+            const { year, month, day } = serialToDate(cell.value);
+            const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+            found.push({
+                row,
+                kind: 'date',
+                shown,
+                stored: iso,
+                candidates: [`${month}-${day}`, `${MONTHS[month - 1]}-${day}`],
+                recoverable: false,
+            });
+            continue;
+        }
+
+        if (!Number.isInteger(cell.value)) continue;
+        const digits = storedDigits(cell.value);
+        const stored = `${cell.value < 0 ? '-' : ''}${digits}`;
+        const lostDigits = digits.length > MAX_EXACT_DIGITS;
+
+        if (/\dE[+-]?\d+$/i.test(shown)) {
+            found.push({
+                row,
+                kind: 'scientific',
+                shown,
+                stored,
+                candidates: lostDigits ? [] : [stored],
+                recoverable: !lostDigits,
+            });
+        } else if (lostDigits && /^\d+$/.test(shown.replace(/[,.\s]/g, ''))) {
+            // Shown in full, but everything past the fifteenth digit was zeroed on entry
+            found.push({
+                row,
+                kind: 'precision',
+                shown,
+                stored,
+                candidates: [],
+                recoverable: false,
+            });
+        } else if (paddedLength !== null && /^\d+$/.test(shown) && shown.length < paddedLength) {
+            found.push({
+                row,
+                kind: 'leading_zeros',
+                shown,
+                stored,
+                candidates: [shown.padStart(paddedLength, '0')],
+                recoverable: true,
+            });
+        }
+    }
+
+    return found;
+}
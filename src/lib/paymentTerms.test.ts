@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { annualizedDiscountCost, extractPaymentTerms } from './paymentTerms';
+
+const days = (text: string) => extractPaymentTerms(text).dso.map(term => term.days);
+
+describe('extractPaymentTerms', () => {
+    it('reads net, end-of-month and prepaid terms', () => {
+        expect(days('Payment: Net 60')).toEqual([60]);
+        expect(days('30 days EOM')).toEqual([45]);
+        expect(days('EOM + 30')).toEqual([45]);
+        expect(days('Cash in advance')).toEqual([0]);
+    });
+
+    it('reads early-payment discounts', () => {
+        const [term] = extractPaymentTerms('Terms: 2/10 Net 30').dso;
+        expect(term).toMatchObject({ kind: 'discount', days: 30, discountPercent: 2, discountDays: 10 });
+        expect(annualizedDiscountCost(term)).toBeCloseTo(37.2, 1);
+    });
+
+    it('reads payment clauses with a number of days', () => {
+        expect(days('Payment within 90 days of invoice')).toEqual([90]);
+        expect(days('Payment terms: 60 days')).toEqual([60]);
+    });
+
+    it('does not read delivery or warranty periods as payment terms', () => {
+        expect(days('Delivery terms: 90 days ARO')).toEqual([]);
+        expect(days('Warranty terms: 365 days from delivery')).toEqual([]);
+        expect(days('Payment on delivery, lead time 90 days')).toEqual([]);
+    });
+
+    it('does not read across cells or into amounts and units', () => {
+        expect(days('Net\t450.00')).toEqual([]);
+        expect(days('Net 450.00')).toEqual([]);
+        expect(days('Net 12 V supply')).toEqual([]);
+        expect(days('Net\n30')).toEqual([]);
+        expect(days('Net 30\tdays')).toEqual([30]);
+    });
+
+    it('collects retention, conditional payment and milestones', () => {
+        const result = extractPaymentTerms('10% retention until acceptance. Pay when paid. 30% on order, 70% on delivery');
+        expect(result.retention.map(r => r.percent)).toEqual([10]);
+        expect(result.conditional.map(c => c.kind)).toEqual(['pay_when_paid']);
+        expect(result.milestones.map(m => m.percent)).toEqual([30, 70]);
+    });
+
+    it('returns nothing for empty text', () => {
+        expect(extractPaymentTerms('')).toEqual({ dso: [], retention: [], conditional: [], milestones: [] });
+    });
+});
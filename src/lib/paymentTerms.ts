@@ -0,0 +1,129 @@
+/**
+ * Payment terms extraction
+ *
+ * Finds payment terms in free text and normalizes them to days sales
+ * outstanding (DSO): "Net 60" → 60, "30 days EOM" → 45 (end of month adds
+ * half a month on average), "2/10 Net 30" → 30 with an early-payment discount,
+ * "cash in advance" → 0. Retention, pay-when-paid and milestone schedules are
+ * collected separately because they do not reduce to a single number of days.
+ */
+
+// Average days added by "end of month" terms (invoice dated mid-month on average)
+const EOM_AVERAGE_DAYS = 15;
+
+export interface DsoTerm {
+    text: string;
+    days: number;
+    kind: 'net' | 'eom' | 'discount' | 'prepaid';
+    discountPercent?: number;
+    discountDays?: number;
+}
+
+export interface PaymentTermsExtraction {
+    dso: DsoTerm[];
+    retention: { text: string; percent: number }[];
+    conditional: { text: string; kind: 'pay_when_paid' | 'pay_if_paid' }[];
+    milestones: { text: string; percent: number | null }[];
+}
+
+// Words inside one cell: literal spaces only, since rawText separates cells with tabs and rows with newlines
+const EOM = String.raw`(?:e\.?o\.?m\.?|end[ ]+of[ ]+(?:the[ ]+)?month)`;
+
+// A number followed by a unit or decimals is a quantity or amount, not days ("Net 12 V supply", "Net 450.00")
+const NOT_DAYS = String.raw`(?![ ]*(?:[.,]\d|%|(?:v|vac|vdc|a|ma|w|kw|hz|mm|cm|m|kg|g|lbs?|pcs?|x)\b))`;
+
+// Highest priority first; later patterns skip text already claimed by an earlier match
+const DSO_PATTERNS: { pattern: RegExp; build: (m: RegExpMatchArray) => Omit<DsoTerm, 'text'> }[] = [
+    {
+        // 2/10 Net 30, 2% 10 net 30
+        pattern: /\b(\d+(?:\.\d+)?)[ ]*%?[ ]*[\/ ][ ]*(\d{1,3})[ ]*,?[ ]*net[ ]*(\d{1,3})\b/gi,
+        build: m => ({ kind: 'discount', days: parseInt(m[3], 10), discountPercent: parseFloat(m[1]), discountDays: parseInt(m[2], 10) }),
+    },
+    {
+        // Net 30 EOM, 60 days EOM, 30 days end of month
+        pattern: new RegExp(String.raw`\b(?:net[ ]*)?(\d{1,3})[ ]*(?:days?[ ]*)?${EOM}`, 'gi'),
+        build: m => ({ kind: 'eom', days: parseInt(m[1], 10) + EOM_AVERAGE_DAYS }),
+    },
+    {
+        // EOM + 30, EOM 60 days
+        pattern: new RegExp(String.raw`\b${EOM}[ ]*\+?[ ]*(\d{1,3})\b${NOT_DAYS}(?:[ ]*days?)?`, 'gi'),
+        build: m => ({ kind: 'eom', days: parseInt(m[1], 10) + EOM_AVERAGE_DAYS }),
+    },
+    {
+        // Net 60, Net60, net 45 days
+        pattern: new RegExp(String.raw`\bnet[ ]*(\d{1,3})\b${NOT_DAYS}(?:[ ]*days?)?`, 'gi'),
+        build: m => ({ kind: 'net', days: parseInt(m[1], 10) }),
+    },
+    {
+        // Payment within 90 days of invoice, payment terms: 60 days, payable 45 days after delivery.
+        // A bare "terms" is not payment: "Delivery terms: 90 days ARO" and "Warranty terms: 365 days
+        // from delivery" do not match, nor does a delivery, warranty, lead time or validity clause in between.
+        pattern: /\b(?:payment(?:[ ]+terms?)?|paid|payable)\b(?:(?!delivery|warranty|lead|valid)[^.\n\t]){0,30}?\b(\d{1,3})[ ]*days\b/gi,
+        build: m => ({ kind: 'net', days: parseInt(m[1], 10) }),
+    },
+    {
+        pattern: /\b(?:cash[ ]+in[ ]+advance|payment[ ]+in[ ]+advance|pre-?payment|100[ ]*%[ ]*(?:advance|upfront|prepaid)|cash[ ]+on[ ]+delivery|c\.o\.d\.)/gi,
+        build: () => ({ kind: 'prepaid', days: 0 }),
+    },
+];
+
+const RETENTION_PATTERN = /\b(?:retention|retainage|holdback)\b[^.\n\t%]{0,40}?(\d+(?:\.\d+)?)\s*%|\b(\d+(?:\.\d+)?)\s*%\s*(?:retention|retainage|holdback)\b/gi;
+const CONDITIONAL_PATTERN = /\bpay(?:ment)?[\s-]+(when|if)[\s-]+paid\b|\bback[\s-]+to[\s-]+back\s+payment/gi;
+const MILESTONE_PATTERN = /\b(\d{1,3})\s*%\s*(?:on|upon|at|with|after)\s+(?:order|po|signing|contract|delivery|shipment|acceptance|commissioning|installation|completion|invoice)\b[^,;.\n\t]{0,20}/gi;
+const MILESTONE_PHRASE_PATTERN = /\b(?:milestone|progress|stage)\s+payments?\b/gi;
+
+/**
+ * Extract all payment terms from a piece of text
+ */
+export function extractPaymentTerms(text: string): PaymentTermsExtraction {
+    const result: PaymentTermsExtraction = { dso: [], retention: [], conditional: [], milestones: [] };
+    if (!text) return result;
+
+    const claimed: [number, number][] = [];
+    const overlaps = (start: number, end: number) => claimed.some(([s, e]) => start < e && end > s);
+
+    for (const { pattern, build } of DSO_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (overlaps(start, end)) continue;
+
+            claimed.push([start, end]);
+            result.dso.push({ text: match[0].trim(), ...build(match) });
+        }
+    }
+
+    for (const match of text.matchAll(RETENTION_PATTERN)) {
+        result.retention.push({ text: match[0].trim(), percent: parseFloat(match[1] ?? match[2]) });
+    }
+
+    for (const match of text.matchAll(CONDITIONAL_PATTERN)) {
+        result.conditional.push({
+            text: match[0].trim(),
+            kind: match[1]?.toLowerCase() === 'if' ? 'pay_if_paid' : 'pay_when_paid',
+        });
+    }
+
+    for (const match of text.matchAll(MILESTONE_PATTERN)) {
+        result.milestones.push({ text: match[0].trim(), percent: parseInt(match[1], 10) });
+    }
+    if (result.milestones.length === 0) {
+        for (const match of text.matchAll(MILESTONE_PHRASE_PATTERN)) {
+            result.milestones.push({ text: match[0].trim(), percent: null });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Annualized cost of skipping an early-payment discount ("2/10 Net 30" ≈ 37%)
+ */
+export function annualizedDiscountCost(term: DsoTerm): number | null {
+    if (term.kind !== 'discount' || !term.discountPercent || term.discountDays === undefined) return null;
+    const period = term.days - term.discountDays;
+    if (period <= 0 || term.discountPercent >= 100) return null;
+
+    const rate = term.discountPercent / (100 - term.discountPercent);
+    return rate * (365 / period) * 100;
+}
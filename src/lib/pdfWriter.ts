@@ -0,0 +1,198 @@
+/**
+ * Minimal PDF writer
+ *
+ * Enough of PDF 1.4 for generated business documents: pages of text in the
+ * standard Helvetica fonts, lines and filled rectangles. The standard fonts
+ * need no embedding, so the output is small and any viewer renders it. Text
+ * is WinAnsi encoded; characters outside it print as "?". Coordinates are in
+ * points from the bottom-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+    font?: PdfFont;
+    size?: number;
+    // Gray level, 0 (black) to 1 (white)
+    gray?: number;
+    // Where x is: the start, middle or end of the text
+    align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfDocument {
+    width: number;
+    height: number;
+    // Content stream operators, one list per page
+    pages: string[][];
+}
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Glyph widths of the printable ASCII characters (32-126) in 1/1000 em, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015,
+    667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    278, 278, 278, 469, 556, 333,
+    556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500,
+    334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975,
+    722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    333, 278, 333, 584, 556, 333,
+    556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500,
+    389, 280, 389, 584,
+];
+
+// WinAnsi codes of the characters outside Latin-1 (€, curly quotes, dashes, bullet, …)
+const WIN_ANSI_EXTRA: Record<string, number> = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+    'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+    '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+    // Number formats use narrow and thin spaces as group separators
+    '\u202f': 0xa0, '\u2009': 0xa0,
+};
+
+function winAnsiCode(char: string): number {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRA[char] ?? 0x3f;
+}
+
+function glyphWidth(code: number, font: PdfFont): number {
+    if (code >= 0x20 && code <= 0x7e) {
+        return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 0x20];
+    }
+    // Non-breaking space, else an average Latin-1 letter
+    return code === 0xa0 ? 278 : 556;
+}
+
+/**
+ * Width of a text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+    let width = 0;
+    for (const char of text) width += glyphWidth(winAnsiCode(char), font);
+    return width * size / 1000;
+}
+
+/**
+ * Break a text into lines no wider than maxWidth, at spaces where possible
+ * and inside words that do not fit a line on their own
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (textWidth(candidate, font, size) <= maxWidth) {
+                line = candidate;
+                continue;
+            }
+            if (line) lines.push(line);
+
+            // Split words wider than a whole line
+            line = '';
+            for (const char of word) {
+                if (line && textWidth(line + char, font, size) > maxWidth) {
+                    lines.push(line);
+                    line = '';
+                }
+                line += char;
+            }
+        }
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+function pdfString(text: string): string {
+    let encoded = '';
+    for (const char of text) {
+        const code = winAnsiCode(char);
+        const byte = String.fromCharCode(code);
+        encoded += byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+    }
+    return `(${encoded})`;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export function createPdf(width: number, height: number): PdfDocument {
+    return { width, height, pages: [] };
+}
+
+/**
+ * Start a new page; drawing goes to the page returned
+ */
+export function addPage(pdf: PdfDocument): string[] {
+    const page: string[] = [];
+    pdf.pages.push(page);
+    return page;
+}
+
+export function drawText(page: string[], text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { font = 'regular', size = 10, gray = 0, align = 'left' } = options;
+    if (!text) return;
+
+    const width = textWidth(text, font, size);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    page.push(`BT ${num(gray)} g /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(y)} Td ${pdfString(text)} Tj ET`);
+}
+
+export function drawLine(page: string[], x1: number, y1: number, x2: number, y2: number, lineWidth: number = 0.5, gray: number = 0): void {
+    page.push(`${num(lineWidth)} w ${num(gray)} G ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+}
+
+export function fillRect(page: string[], x: number, y: number, width: number, height: number, gray: number): void {
+    page.push(`${num(gray)} g ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+}
+
+/**
+ * Serialize the document. Every character of the output is one byte, so the
+ * string's length is its byte offset for the cross-reference table.
+ */
+export function pdfBytes(pdf: PdfDocument, title: string): Uint8Array {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info; then a page and its content per page
+    const firstPageId = 6;
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(''); // page tree, filled in below
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    objects.push(`<< /Title ${pdfString(title)} /Producer (excel-to-quote) >>`);
+
+    pdf.pages.forEach((page, index) => {
+        const pageId = firstPageId + index * 2;
+        const content = page.join('\n');
+        pageIds.push(pageId);
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pdf.width)} ${num(pdf.height)}] `
+            + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+        offsets.push(output.length);
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { findPricingRule, resolvePricingConfig } from './pricing';
+
+const config = resolvePricingConfig({
+    tiers: ['distributor', 'oem'],
+    rules: [
+        { id: 'base', marginPercent: 28 },
+        { id: 'distributor', tier: 'distributor', markupPercent: 18 },
+        { id: 'passives', family: 'Passives', marginPercent: 40 },
+        { id: 'passives-reel', family: 'Passives', minQuantity: 10000, marginPercent: 30 },
+        { id: 'passives-distributor', family: 'Passives', tier: 'distributor', minQuantity: 50000, marginPercent: 22 },
+    ],
+});
+
+const ruleFor = (family: string, tier: string | null, quantity: number, precedence = config.precedence) =>
+    findPricingRule(config.rules, family, tier, quantity, precedence)?.id ?? null;
+
+describe('findPricingRule', () => {
+    it('lets a customer tier rule beat a family rule by default', () => {
+        expect(config.precedence).toBe('tier');
+        expect(ruleFor('Passives', 'distributor', 100)).toBe('distributor');
+    });
+
+    it('lets a family rule win with precedence: family', () => {
+        expect(ruleFor('Passives', 'distributor', 100, 'family')).toBe('passives');
+        expect(resolvePricingConfig({ precedence: 'family' }).precedence).toBe('family');
+    });
+
+    it('prefers a rule for both family and tier, then the highest quantity break reached', () => {
+        expect(ruleFor('Passives', 'distributor', 50000)).toBe('passives-distributor');
+        expect(ruleFor('Passives', 'oem', 20000)).toBe('passives-reel');
+        expect(ruleFor('Semiconductors', 'oem', 20000)).toBe('base');
+    });
+
+    it('rejects an unknown precedence', () => {
+        expect(() => resolvePricingConfig({ precedence: 'customer' })).toThrow(/precedence/);
+    });
+});
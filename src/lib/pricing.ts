@@ -0,0 +1,238 @@
+import { normalizePartNumber } from './partNumbers';
+import { unitFactor } from './units';
+import { pricingConfigSchema, type PricingConfigInput } from './schemas';
+import type { ParsedRow, PartNumberRules, PriceBookEntry, PricingConfig, PricingRule, RowPricing } from '@/types/quote';
+
+/**
+ * Sell prices, margins and quote totals
+ *
+ * Rows are costed from the local price book, matched on their normalized part
+ * number (the file is loaded on the server, see pricingLoader.ts); parts with
+ * volume costs are costed at the quoted quantity. Costs are per the price book's
+ * unit, so quantities are converted to it through base units and the sell price
+ * back to the row's unit; rows whose unit doesn't convert are not priced. The
+ * pricing rules then set a markup on cost or a margin on the sell price per
+ * product family, customer tier and quantity break. Each quantity tier the customer asked for is priced
+ * the same way. Rules travel with the analysis, so the browser reprices after
+ * edits or a change of customer tier.
+ */
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+    name: 'default',
+    tiers: [],
+    defaultTier: null,
+    precedence: 'tier',
+    defaultMarginPercent: 25,
+    rules: [],
+};
+
+export interface QuoteTotal {
+    currency: string | null;
+    sell: number;
+    cost: number;
+    // (sell − cost) / sell over all priced rows, in percent; null when nothing is sold
+    marginPercent: number | null;
+    pricedRows: number;
+}
+
+/**
+ * Validate raw pricing rules data and fill in the defaults.
+ * Throws a readable error listing every problem when the data is invalid.
+ */
+export function resolvePricingConfig(data: unknown): PricingConfig {
+    const parsed = pricingConfigSchema.safeParse(data);
+    if (!parsed.success) {
+        const problems = parsed.error.issues
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid pricing rules: ${problems}`);
+    }
+
+    return mergePricingConfig(parsed.data);
+}
+
+function mergePricingConfig(input: PricingConfigInput): PricingConfig {
+    return {
+        name: input.name,
+        tiers: input.tiers,
+        defaultTier: input.defaultTier,
+        precedence: input.precedence,
+        defaultMarginPercent: input.defaultMarginPercent,
+        rules: input.rules.map((rule, index) => ({
+            id: rule.id ?? `rule-${index + 1}`,
+            family: rule.family ?? null,
+            tier: rule.tier ?? null,
+            minQuantity: rule.minQuantity,
+            markupPercent: rule.markupPercent ?? null,
+            marginPercent: rule.marginPercent ?? null,
+        })),
+    };
+}
+
+/**
+ * Look rows up in the price book; rows not in it get null
+ */
+export function matchRowsToPriceBook<T extends Pick<ParsedRow, 'partNumber'>>(
+    rows: T[],
+    entries: PriceBookEntry[],
+    rules: PartNumberRules
+): (PriceBookEntry | null)[] {
+    const byKey = new Map<string, PriceBookEntry>();
+    for (const entry of entries) {
+        const key = normalizePartNumber(entry.partNumber, rules);
+        if (key && !byKey.has(key)) byKey.set(key, entry);
+    }
+
+    return rows.map(row => row.partNumber.trim()
+        ? byKey.get(normalizePartNumber(row.partNumber, rules)) ?? null
+        : null);
+}
+
+/**
+ * Rule for a product family, customer tier and quoted quantity. A rule for both
+ * wins; then a tier rule beats a family rule (or the other way round with
+ * `precedence: family`), which beats a catch-all. Among equals the highest
+ * quantity break reached wins, then the first in the file. Null when only the
+ * default applies.
+ */
+export function findPricingRule(
+    rules: PricingRule[],
+    family: string,
+    tier: string | null,
+    quantity: number,
+    precedence: PricingConfig['precedence'] = 'tier'
+): PricingRule | null {
+    const specificity = (rule: PricingRule) => precedence === 'tier'
+        ? (rule.tier ? 2 : 0) + (rule.family ? 1 : 0)
+        : (rule.family ? 2 : 0) + (rule.tier ? 1 : 0);
+    let best: PricingRule | null = null;
+
+    for (const rule of rules) {
+        if (rule.family && rule.family.toLowerCase() !== family.trim().toLowerCase()) continue;
+        if (rule.tier && rule.tier !== tier) continue;
+        if (rule.minQuantity > quantity) continue;
+
+        if (!best
+            || specificity(rule) > specificity(best)
+            || (specificity(rule) === specificity(best) && rule.minQuantity > best.minQuantity)) {
+            best = rule;
+        }
+    }
+
+    return best;
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Unit cost at a quantity: the highest cost break the quantity reaches, else the lowest break
+ */
+export function unitCostAt(cost: PriceBookEntry, quantity: number): number {
+    let unitCost = cost.unitCost;
+    for (const costBreak of cost.costBreaks) {
+        if (costBreak.minQuantity <= quantity) unitCost = costBreak.unitCost;
+    }
+    return unitCost;
+}
+
+/**
+ * Price a part at a quantity; cost and quantity breaks apply to that quantity.
+ * Without a quantity the lowest breaks apply.
+ */
+export function priceAt(cost: PriceBookEntry, quantity: number | null, config: PricingConfig, tier: string | null): RowPricing {
+    const unitCost = unitCostAt(cost, quantity ?? 0);
+    const rule = findPricingRule(config.rules, cost.family, tier, quantity ?? 0, config.precedence);
+
+    const sellPrice = round(
+        rule?.markupPercent !== null && rule?.markupPercent !== undefined
+            ? unitCost * (1 + rule.markupPercent / 100)
+            : unitCost / (1 - (rule?.marginPercent ?? config.defaultMarginPercent) / 100),
+        4
+    );
+
+    return {
+        sellPrice,
+        extendedSell: quantity !== null ? round(sellPrice * quantity, 2) : null,
+        marginPercent: sellPrice !== 0 ? round((sellPrice - unitCost) / sellPrice * 100, 2) : 0,
+        currency: cost.currency,
+        ruleId: rule?.id ?? null,
+    };
+}
+
+/**
+ * Price a quantity in a row's unit: it is converted to the price book's unit and the
+ * sell price back to the row's. Null when the units don't convert.
+ */
+export function priceInUnit(
+    cost: PriceBookEntry,
+    quantity: number | null,
+    unitOfMeasure: string,
+    config: PricingConfig,
+    tier: string | null
+): RowPricing | null {
+    const factor = unitFactor(unitOfMeasure, cost.unitOfMeasure);
+    if (factor === null) return null;
+
+    const pricing = priceAt(cost, quantity !== null ? Number((quantity * factor).toPrecision(12)) : null, config, tier);
+    return { ...pricing, sellPrice: round(pricing.sellPrice * factor, 4) };
+}
+
+/**
+ * Price one row from its cost at the quoted quantity
+ */
+export function priceRow(row: ParsedRow, cost: PriceBookEntry, config: PricingConfig, tier: string | null): RowPricing | null {
+    return priceInUnit(cost, row.quotedQuantity ?? row.quantity, row.unitOfMeasure, config, tier);
+}
+
+/**
+ * Whether a row has a price book cost in a unit its own unit doesn't convert to
+ */
+export function hasUnconvertibleCost(row: ParsedRow): boolean {
+    return row.cost !== null && unitFactor(row.unitOfMeasure, row.cost.unitOfMeasure) === null;
+}
+
+/**
+ * Recompute the price of each row and its quantity tiers, e.g. after quantities, costs or the customer tier changed
+ */
+export function withPricing(rows: ParsedRow[], config: PricingConfig, tier: string | null): ParsedRow[] {
+    return rows.map(row => {
+        const { cost } = row;
+        return {
+            ...row,
+            pricing: cost ? priceRow(row, cost, config, tier) : null,
+            quantityTiers: row.quantityTiers.map(quantityTier => ({
+                ...quantityTier,
+                pricing: cost ? priceInUnit(cost, quantityTier.quotedQuantity, row.unitOfMeasure, config, tier) : null,
+            })),
+        };
+    });
+}
+
+/**
+ * Quote totals per currency over the rows with a price and a quantity
+ */
+export function quoteTotals(rows: ParsedRow[]): QuoteTotal[] {
+    const totals = new Map<string | null, QuoteTotal>();
+
+    for (const row of rows) {
+        if (!row.pricing || !row.cost || row.pricing.extendedSell === null) continue;
+        const factor = unitFactor(row.unitOfMeasure, row.cost.unitOfMeasure);
+        if (factor === null) continue;
+
+        const { currency } = row.pricing;
+        // Costed in the price book's unit, like the sell price
+        const quantity = (row.quotedQuantity ?? row.quantity ?? 0) * factor;
+        const total = totals.get(currency) ?? { currency, sell: 0, cost: 0, marginPercent: null, pricedRows: 0 };
+        total.sell += row.pricing.extendedSell;
+        total.cost += unitCostAt(row.cost, quantity) * quantity;
+        total.pricedRows++;
+        totals.set(currency, total);
+    }
+
+    return [...totals.values()].map(total => ({
+        ...total,
+        sell: round(total.sell, 2),
+        cost: round(total.cost, 2),
+        marginPercent: total.sell !== 0 ? round((total.sell - total.cost) / total.sell * 100, 2) : null,
+    }));
+}
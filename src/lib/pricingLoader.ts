@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { parseReferenceTable } from './excelParser';
+import { detectCurrency, inferNumberFormat, parseLocaleNumber } from './numberParser';
+import { DEFAULT_PRICING_CONFIG, resolvePricingConfig } from './pricing';
+import type { PriceBookEntry, PriceBookInfo, PricingConfig } from '@/types/quote';
+
+/**
+ * Price book and pricing rules files
+ *
+ * The price book is a CSV/XLSX export (e.g. from ERP) with one row per part:
+ * part number, unit cost, currency, product family and the unit the cost is per
+ * (pieces when there is none). Parts with volume costs
+ * repeat their row once per break with a minimum quantity. The pricing rules are
+ * one JSON or YAML file. Both are read on the server for every analysis, so
+ * edits apply to the next upload. Override the locations with:
+ *   PRICE_BOOK_PATH=/path/to/price-book.csv
+ *   PRICING_RULES_PATH=/path/to/pricing.yaml
+ */
+const PRICE_BOOK_PATH = process.env.PRICE_BOOK_PATH
+    ?? path.join(process.cwd(), 'config', 'price-book.csv');
+
+const PRICING_RULES_PATH = process.env.PRICING_RULES_PATH
+    ?? path.join(process.cwd(), 'config', 'pricing.yaml');
+
+type PriceBookColumn = 'partNumber' | 'unitCost' | 'currency' | 'family' | 'minQuantity' | 'unitOfMeasure';
+
+const PRICE_BOOK_COLUMN_PATTERNS: Record<PriceBookColumn, string[]> = {
+    partNumber: ['part number', 'part no', 'part #', 'p/n', 'pn', 'sku', 'item', 'mpn', 'material', 'part'],
+    unitCost: ['unit cost', 'standard cost', 'cost', 'buy price', 'purchase price', 'price'],
+    currency: ['currency', 'ccy', 'curr'],
+    family: ['product family', 'family', 'product group', 'commodity', 'category', 'group'],
+    minQuantity: ['min qty', 'min quantity', 'minimum qty', 'minimum quantity', 'break', 'from qty', 'qty', 'quantity'],
+    unitOfMeasure: ['uom', 'unit of measure', 'u/m'],
+};
+
+// "Cost Currency" must not be taken for the cost, "Item Category" for the part number, nor "Price Break" for the cost
+const CLAIM_ORDER: PriceBookColumn[] = ['currency', 'family', 'unitOfMeasure', 'minQuantity', 'partNumber', 'unitCost'];
+
+export interface PriceBook extends PriceBookInfo {
+    entries: PriceBookEntry[];
+}
+
+export interface PriceBookLoadResult {
+    book: PriceBook | null;
+    errors: string[];
+}
+
+export interface PricingConfigLoadResult {
+    config: PricingConfig;
+    errors: string[];
+}
+
+function mapPriceBookColumns(headers: string[]): Partial<Record<PriceBookColumn, string>> {
+    const lowerHeaders = headers.map(h => h.toLowerCase());
+    const used = new Set<number>();
+    const columns: Partial<Record<PriceBookColumn, string>> = {};
+
+    for (const column of CLAIM_ORDER) {
+        for (const pattern of PRICE_BOOK_COLUMN_PATTERNS[column]) {
+            const index = lowerHeaders.findIndex((h, i) => !used.has(i) && h.includes(pattern));
+            if (index !== -1) {
+                used.add(index);
+                columns[column] = headers[index];
+                break;
+            }
+        }
+    }
+
+    return columns;
+}
+
+/**
+ * Read price book entries from a CSV/XLSX file. Rows of the same part become its
+ * cost breaks. Rows without a positive cost are skipped and reported; a file
+ * without part number or cost column throws.
+ */
+export function parsePriceBook(buffer: ArrayBuffer, fileName: string): PriceBookLoadResult {
+    const parsed = parseReferenceTable(buffer);
+    const columns = mapPriceBookColumns(parsed.headers);
+    if (!columns.partNumber || !columns.unitCost) {
+        throw new Error(`The price book needs a part number and a cost column (headers: ${parsed.headers.join(', ') || 'none'}).`);
+    }
+
+    const text = (data: Record<string, unknown>, column: PriceBookColumn) =>
+        columns[column] ? String(data[columns[column]] ?? '').trim() : '';
+    const costFormat = inferNumberFormat(parsed.rows.map(({ data }) => data[columns.unitCost ?? '']));
+    const quantityFormat = inferNumberFormat(parsed.rows.map(({ data }) => data[columns.minQuantity ?? '']));
+
+    const entries = new Map<string, PriceBookEntry>();
+    const invalid: string[] = [];
+    for (const { rowNumber, data } of parsed.rows) {
+        const partNumber = text(data, 'partNumber');
+        if (!partNumber) continue;
+
+        const costCell = data[columns.unitCost];
+        const unitCost = parseLocaleNumber(costCell, costFormat);
+        if (unitCost === null || unitCost <= 0) {
+            invalid.push(`row ${rowNumber} "${text(data, 'unitCost')}"`);
+            continue;
+        }
+
+        const minQuantity = columns.minQuantity ? parseLocaleNumber(data[columns.minQuantity], quantityFormat) ?? 0 : 0;
+        const key = partNumber.toUpperCase();
+        const entry = entries.get(key);
+        if (entry) {
+            // Same part again: one more cost break
+            entry.costBreaks.push({ minQuantity, unitCost });
+            continue;
+        }
+
+        entries.set(key, {
+            partNumber,
+            unitCost,
+            currency: detectCurrency(text(data, 'currency')) ?? detectCurrency(costCell) ?? detectCurrency(columns.unitCost),
+            family: text(data, 'family'),
+            costBreaks: [{ minQuantity, unitCost }],
+            unitOfMeasure: text(data, 'unitOfMeasure'),
+        });
+    }
+
+    const book = [...entries.values()].map(entry => {
+        const costBreaks = [...entry.costBreaks].sort((a, b) => a.minQuantity - b.minQuantity);
+        return { ...entry, unitCost: costBreaks[0].unitCost, costBreaks };
+    });
+
+    return {
+        book: { fileName, partCount: book.length, entries: book },
+        errors: invalid.length > 0
+            ? [`${fileName}: ${invalid.length} row${invalid.length > 1 ? 's have' : ' has'} no valid cost and ${invalid.length > 1 ? 'were' : 'was'} skipped (${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? ', …' : ''}).`]
+            : [],
+    };
+}
+
+/**
+ * Load the price book (null if there is no price book file). Problems are reported, not fatal.
+ */
+export async function loadPriceBook(): Promise<PriceBookLoadResult> {
+    let content: Buffer;
+    try {
+        content = await fs.readFile(PRICE_BOOK_PATH);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { book: null, errors: [] };
+        }
+        throw error;
+    }
+
+    const fileName = path.basename(PRICE_BOOK_PATH);
+    try {
+        const buffer = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+        return parsePriceBook(buffer, fileName);
+    } catch (error) {
+        return { book: null, errors: [`${fileName}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+}
+
+/**
+ * Load the pricing rules; without a rules file, or with an invalid one, the built-in default margin applies
+ */
+export async function loadPricingConfig(): Promise<PricingConfigLoadResult> {
+    let content: string;
+    try {
+        content = await fs.readFile(PRICING_RULES_PATH, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { config: DEFAULT_PRICING_CONFIG, errors: [] };
+        }
+        throw error;
+    }
+
+    const fileName = path.basename(PRICING_RULES_PATH);
+    try {
+        const data: unknown = /\.json$/i.test(fileName) ? JSON.parse(content) : yaml.load(content);
+        return { config: resolvePricingConfig(data), errors: [] };
+    } catch (error) {
+        return { config: DEFAULT_PRICING_CONFIG, errors: [`${fileName}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+}
+
+/**
+ * Price book details without its entries
+ */
+export function priceBookInfo(book: PriceBook): PriceBookInfo {
+    return { fileName: book.fileName, partCount: book.partCount };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { applyRowEdits, withDerivedValues } from './quoteBuilder';
+import { DEFAULT_PRICING_CONFIG } from './pricing';
+import { DEFAULT_RULE_SET } from './riskRules';
+import type { ParsedRow, QuoteAnalysis } from '@/types/quote';
+
+const row = (rowNumber: number, quantity: number | null, level: number, parentRowNumber: number | null): ParsedRow => ({
+    rowNumber,
+    sheetName: 'BOM',
+    partNumber: `PN-${rowNumber}`,
+    quantity,
+    description: '',
+    unitPrice: null,
+    extendedPrice: null,
+    currency: null,
+    unitOfMeasure: 'EA',
+    manufacturer: '',
+    leadTime: '',
+    notes: '',
+    moq: null,
+    packMultiple: null,
+    quotedQuantity: null,
+    quantityTiers: [],
+    level,
+    parentRowNumber,
+    rolledUpQuantity: null,
+    baseQuantity: null,
+    baseUnit: null,
+    partNumberCell: null,
+    catalogMatch: null,
+    lifecycle: null,
+    cost: null,
+    pricing: null,
+    rawData: {},
+    rawCellTypes: {},
+});
+
+const derive = (rows: ParsedRow[]) => withDerivedValues(rows, DEFAULT_PRICING_CONFIG, null);
+
+describe('withDerivedValues', () => {
+    const bom = [row(2, 2, 0, null), row(3, 3, 1, 2)];
+
+    it('rolls quantities up the assembly tree and quotes them', () => {
+        expect(derive(bom).map(r => [r.rolledUpQuantity, r.baseQuantity, r.quotedQuantity])).toEqual([[2, 2, 2], [6, 3, 3]]);
+    });
+
+    it('treats the components of a deleted assembly as top level', () => {
+        expect(derive(derive(bom).slice(1)).map(r => r.rolledUpQuantity)).toEqual([3]);
+    });
+
+    it('follows an edited quantity', () => {
+        const [assembly, component] = derive(bom);
+        expect(derive([{ ...assembly, quantity: 4 }, component]).map(r => r.rolledUpQuantity)).toEqual([4, 12]);
+    });
+});
+
+describe('applyRowEdits', () => {
+    const analysis = {
+        rawText: '',
+        cells: [],
+        rows: derive([row(2, 5, 0, null), row(3, 5, 0, null)].map(r => ({ ...r, partNumber: 'LM317T' }))),
+        risks: [{ id: 'warning-row-limit', type: 'general', level: 'low', title: 'Row limit', description: '', recommendation: '' }],
+        reviews: {},
+        bom: null,
+        sheetMappings: {},
+        pricing: DEFAULT_PRICING_CONFIG,
+        customerTier: null,
+        riskRules: DEFAULT_RULE_SET,
+    } as unknown as QuoteAnalysis;
+
+    it('re-runs risk detection and the summary on the edited rows', () => {
+        const before = applyRowEdits(analysis, analysis.rows);
+        expect(before.risks.map(risk => risk.type)).toEqual(['general', 'duplicate']);
+
+        const after = applyRowEdits(before, before.rows.slice(1));
+        expect(after.risks.map(risk => risk.type)).toEqual(['general']);
+        expect(after.summary.totalRows).toBe(1);
+        expect(after.summary.dealScore?.score).toBeLessThan(before.summary.dealScore?.score ?? 0);
+    });
+});
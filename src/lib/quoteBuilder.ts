@@ -0,0 +1,453 @@
+import { detectCurrency, detectStatedCurrency, inferNumberFormat, parseLocaleNumber } from './numberParser';
+import { analyzeAllRisks } from './riskDetector';
+import { buildBomTree, resolveHierarchy, withRolledUpQuantities } from './bomHierarchy';
+import { MAPPABLE_FIELDS, estimateMappingConfidence, fallbackColumnMapping, quantityFromHeader, validateColumnMapping } from './columnMapping';
+import { rowKey } from './rowRefs';
+import { uniqueRiskIds } from './riskIds';
+import { DEFAULT_RISK_THRESHOLDS } from './riskRules';
+import { scoreDeal } from './dealScore';
+import { withBaseQuantities } from './units';
+import { withQuotedQuantities } from './orderQuantities';
+import { withPricing } from './pricing';
+import type { CatalogMatch, ColumnMapping, DealScoreWeights, FieldAssessment, LifecycleEntry, LifecycleListInfo, MappableField, ParsedRow, PartCatalogInfo, PriceBookEntry, PriceBookInfo, PricingConfig, QuantityTier, QuoteAnalysis, RiskFlag, RiskReview, RiskStatus, SheetInfo, SheetMapping, SheetRow, UnitConversion } from '@/types/quote';
+
+/**
+ * Shared row-mapping logic
+ *
+ * Used by the processExcelFile server action on upload, and in the browser
+ * when the user edits the column mapping (rows are re-derived from rawData,
+ * so no re-upload is needed). Must stay free of Node-only imports.
+ */
+
+export interface RowMappingContext {
+    rawText: string;
+    unitConversions?: Record<string, UnitConversion>;
+}
+
+// Assessments the mapping came with (from the AI, a profile or the user), by field
+export type ReportedAssessments = Partial<Record<MappableField, Pick<FieldAssessment, 'confidence' | 'rationale' | 'source'>>>;
+
+/**
+ * Turn source rows into ParsedRows using a column mapping
+ */
+export function mapRows(
+    sourceRows: SheetRow[],
+    columnMapping: ColumnMapping,
+    context: RowMappingContext
+): ParsedRow[] {
+    // Infer decimal/thousand separators per numeric column (1.234,56 vs 1,234.56)
+    const quantityFormat = inferNumberFormat(sourceRows.map(({ data }) => data[columnMapping.quantity || '']));
+    const priceFormat = inferNumberFormat(sourceRows.map(({ data }) => data[columnMapping.unitPrice || '']));
+    const extendedFormat = inferNumberFormat(sourceRows.map(({ data }) => data[columnMapping.extendedPrice || '']));
+    const moqFormat = inferNumberFormat(sourceRows.map(({ data }) => data[columnMapping.moq || '']));
+    const packFormat = inferNumberFormat(sourceRows.map(({ data }) => data[columnMapping.packMultiple || '']));
+    const breakColumns = columnMapping.quantityBreaks.map(header => ({
+        header,
+        headerQuantity: quantityFromHeader(header),
+        format: inferNumberFormat(sourceRows.map(({ data }) => data[header])),
+    }));
+
+    // Currency fallbacks: the price column headers ("Price (EUR)"), then any statement in the document
+    const columnCurrency = detectCurrency(columnMapping.unitPrice) ?? detectCurrency(columnMapping.extendedPrice);
+    const statedCurrency = detectStatedCurrency(context.rawText);
+
+    const rows: ParsedRow[] = sourceRows.map(({ sheetName, rowNumber, data: row, cellTypes = {} }) => {
+        const priceCell = row[columnMapping.unitPrice || ''];
+        const extendedCell = row[columnMapping.extendedPrice || ''];
+        const unitPrice = parseLocaleNumber(priceCell, priceFormat);
+        const extendedPrice = parseLocaleNumber(extendedCell, extendedFormat);
+        // A dedicated currency column wins over symbols embedded in the price cells
+        const cellCurrency = detectCurrency(row[columnMapping.currency || ''])
+            ?? detectCurrency(priceCell)
+            ?? detectCurrency(extendedCell);
+        // A break column holds per-row quantities, or is blank for the quantity in its header
+        const quantityTiers = breakColumns.flatMap(({ header, headerQuantity, format }): QuantityTier[] => {
+            const quantity = parseLocaleNumber(row[header], format) ?? headerQuantity;
+            return quantity !== null && quantity > 0 ? [{ header, quantity, quotedQuantity: quantity, pricing: null }] : [];
+        });
+        return {
+            rowNumber,
+            sheetName,
+            partNumber: String(row[columnMapping.partNumber || ''] ?? ''),
+            // Without a quantity column the lowest break is the quantity
+            quantity: columnMapping.quantity
+                ? parseLocaleNumber(row[columnMapping.quantity], quantityFormat)
+                : quantityTiers[0]?.quantity ?? null,
+            description: String(row[columnMapping.description || ''] ?? ''),
+            unitPrice,
+            extendedPrice,
+            currency: unitPrice === null && extendedPrice === null
+                ? null
+                : cellCurrency ?? columnCurrency ?? statedCurrency,
+            unitOfMeasure: String(row[columnMapping.unitOfMeasure || ''] ?? ''),
+            manufacturer: String(row[columnMapping.manufacturer || ''] ?? ''),
+            leadTime: String(row[columnMapping.leadTime || ''] ?? ''),
+            notes: String(row[columnMapping.notes || ''] ?? ''),
+            moq: parseLocaleNumber(row[columnMapping.moq || ''], moqFormat),
+            packMultiple: parseLocaleNumber(row[columnMapping.packMultiple || ''], packFormat),
+            // Filled in by withQuotedQuantities
+            quotedQuantity: null,
+            quantityTiers,
+            // Filled in by resolveHierarchy for indented BOMs
+            level: null,
+            parentRowNumber: null,
+            rolledUpQuantity: null,
+            // Filled in by withBaseQuantities once unit conversions are applied
+            baseQuantity: null,
+            baseUnit: null,
+            partNumberCell: cellTypes[columnMapping.partNumber || ''] ?? null,
+            // Filled in on the server from the part catalog, the lifecycle list and the price book
+            catalogMatch: null,
+            lifecycle: null,
+            cost: null,
+            // Filled in by withPricing from the cost
+            pricing: null,
+            // Ensure rawData is a plain object safely
+            rawData: JSON.parse(JSON.stringify(row)),
+            rawCellTypes: cellTypes,
+        };
+    });
+
+    // Profile unit conversions (e.g. customer "BX" = 100 EA), then quantities in base units and as quoted
+    return withQuotedQuantities(withBaseQuantities(context.unitConversions
+        ? applyUnitConversions(rows, context.unitConversions)
+        : rows));
+}
+
+/**
+ * Map the rows of each line-item sheet with that sheet's column mapping; rows keep their order
+ */
+export function mapSheetRows(
+    sourceRows: SheetRow[],
+    sheetMappings: Record<string, SheetMapping>,
+    context: RowMappingContext
+): ParsedRow[] {
+    const bySheet = new Map<string, SheetRow[]>();
+    for (const row of sourceRows) {
+        bySheet.set(row.sheetName, [...(bySheet.get(row.sheetName) ?? []), row]);
+    }
+
+    const mapped = new Map<string, ParsedRow>();
+    for (const [sheetName, rows] of bySheet) {
+        const columnMapping = sheetMappings[sheetName]?.columnMapping ?? fallbackColumnMapping([]);
+        for (const row of mapRows(rows, columnMapping, context)) {
+            mapped.set(rowKey(row), row);
+        }
+    }
+    return sourceRows.map(row => mapped.get(rowKey(row))!);
+}
+
+/**
+ * The primary line-item sheet: the first included one. Its mapping is the analysis's
+ * columnMapping, and the one mapping profiles are saved and matched for.
+ */
+export function primarySheetName(sheets: SheetInfo[]): string | null {
+    return sheets.find(sheet => sheet.included && sheet.kind === 'line_items')?.name ?? null;
+}
+
+/**
+ * Validate the mapping of every line-item sheet against its own headers and rows.
+ * Mapping risks name the sheet when there is more than one.
+ */
+export function validateSheetMappings(
+    sheets: SheetInfo[],
+    sourceRows: SheetRow[],
+    mappings: Record<string, { columnMapping: ColumnMapping; reported: ReportedAssessments }>
+): { sheetMappings: Record<string, SheetMapping>; risks: RiskFlag[] } {
+    const sheetMappings: Record<string, SheetMapping> = {};
+    const risks: RiskFlag[] = [];
+    const several = Object.keys(mappings).length > 1;
+
+    for (const [sheetName, { columnMapping, reported }] of Object.entries(mappings)) {
+        const headers = sheets.find(sheet => sheet.name === sheetName)?.headers ?? [];
+        const data = sourceRows.filter(row => row.sheetName === sheetName).map(row => row.data);
+        const validation = validateColumnMapping(columnMapping, headers, data, reported, several ? sheetName : null);
+        sheetMappings[sheetName] = { columnMapping: validation.columnMapping, mappingAssessment: validation.assessments };
+        risks.push(...validation.risks);
+    }
+
+    return { sheetMappings, risks };
+}
+
+/**
+ * The mapped terms column of each sheet, scanned per row for payment terms
+ */
+export function termsColumns(sheetMappings: Record<string, SheetMapping>): Record<string, string | null> {
+    return Object.fromEntries(Object.entries(sheetMappings).map(([sheetName, { columnMapping }]) => [sheetName, columnMapping.terms]));
+}
+
+/**
+ * Apply unit conversions (e.g. "BX" → 100 × "EA") to parsed rows
+ */
+export function applyUnitConversions(
+    rows: ParsedRow[],
+    unitConversions: Record<string, UnitConversion>
+): ParsedRow[] {
+    const normalize = (unit: string) => unit.toLowerCase().replace(/\s+/g, ' ').trim();
+    const conversions = new Map(
+        Object.entries(unitConversions).map(([from, to]) => [normalize(from), to])
+    );
+    if (conversions.size === 0) return rows;
+
+    return rows.map(row => {
+        const conversion = conversions.get(normalize(row.unitOfMeasure));
+        if (!conversion) return row;
+
+        return {
+            ...row,
+            quantity: row.quantity !== null ? row.quantity * conversion.factor : null,
+            quantityTiers: row.quantityTiers.map(tier => ({ ...tier, quantity: tier.quantity * conversion.factor })),
+            unitPrice: row.unitPrice !== null ? row.unitPrice / conversion.factor : null,
+            unitOfMeasure: conversion.unit,
+        };
+    });
+}
+
+/**
+ * Attach catalog lookups to rows, in row order; catalog MOQs and pack multiples change the quoted quantities
+ */
+export function withCatalogMatches(rows: ParsedRow[], matches: (CatalogMatch | null)[]): ParsedRow[] {
+    return withQuotedQuantities(rows.map((row, i) => ({ ...row, catalogMatch: matches[i] ?? null })));
+}
+
+/**
+ * Attach lifecycle list entries to rows, in row order
+ */
+export function withLifecycleEntries(rows: ParsedRow[], entries: (LifecycleEntry | null)[]): ParsedRow[] {
+    return rows.map((row, i) => ({ ...row, lifecycle: entries[i] ?? null }));
+}
+
+/**
+ * Attach price book entries to rows, in row order; prices follow with withPricing
+ */
+export function withPriceBookEntries(rows: ParsedRow[], entries: (PriceBookEntry | null)[]): ParsedRow[] {
+    return rows.map((row, i) => ({ ...row, cost: entries[i] ?? null }));
+}
+
+/**
+ * Re-derive rolled-up BOM quantities, quantities in base units and as quoted, and the
+ * prices that follow from them after rows are edited, added or deleted in place
+ */
+export function withDerivedValues(rows: ParsedRow[], pricing: PricingConfig, customerTier: string | null): ParsedRow[] {
+    return withPricing(withQuotedQuantities(withBaseQuantities(withRolledUpQuantities(rows))), pricing, customerTier);
+}
+
+/**
+ * Most common currency across priced rows, else whatever the document states
+ */
+export function detectFileCurrency(rows: ParsedRow[], columnMapping: ColumnMapping, rawText: string): string | null {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+        if (row.currency) counts.set(row.currency, (counts.get(row.currency) ?? 0) + 1);
+    }
+
+    let best: string | null = null;
+    for (const [code, count] of counts) {
+        if (best === null || count > (counts.get(best) ?? 0)) best = code;
+    }
+    return best ?? detectCurrency(columnMapping.unitPrice) ?? detectStatedCurrency(rawText);
+}
+
+/**
+ * Calculate the analysis summary counts and the deal score of the open risks
+ */
+export function buildSummary(
+    rows: ParsedRow[],
+    risks: RiskFlag[],
+    reviews: Record<string, RiskReview> = {},
+    scoreWeights: DealScoreWeights = DEFAULT_RISK_THRESHOLDS.dealScore
+): QuoteAnalysis['summary'] {
+    const validRows = rows.filter(r => r.partNumber && r.partNumber.trim() !== '').length;
+    const open = risks.filter(r => riskStatus(r, reviews) === 'open');
+
+    return {
+        totalRows: rows.length,
+        validRows,
+        totalRisks: open.length,
+        criticalRisks: open.filter(r => r.level === 'critical').length,
+        highRisks: open.filter(r => r.level === 'high').length,
+        mediumRisks: open.filter(r => r.level === 'medium').length,
+        lowRisks: open.filter(r => r.level === 'low').length,
+        reviewedRisks: risks.length - open.length,
+        dealScore: scoreDeal(rows, open, scoreWeights),
+    };
+}
+
+/**
+ * Review status of a risk; risks nobody has reviewed are open
+ */
+export function riskStatus(risk: RiskFlag, reviews: Record<string, RiskReview>): RiskStatus {
+    return reviews[risk.id]?.status ?? 'open';
+}
+
+/**
+ * Replace the review decisions of an analysis and recount its open risks.
+ * Reviews are keyed by risk id, so they survive re-mapping and re-analysis of
+ * the same file as long as the risk is still raised.
+ */
+export function applyRiskReviews(analysis: QuoteAnalysis, reviews: Record<string, RiskReview>): QuoteAnalysis {
+    return {
+        ...analysis,
+        reviews,
+        summary: buildSummary(analysis.rows, analysis.risks, reviews, analysis.riskRules.thresholds.dealScore),
+    };
+}
+
+/**
+ * Record a review decision for one risk; reopening a risk drops its review
+ */
+export function reviewRisk(analysis: QuoteAnalysis, riskId: string, review: Omit<RiskReview, 'riskId'> | null): QuoteAnalysis {
+    const reviews = { ...analysis.reviews };
+    if (review) {
+        reviews[riskId] = { riskId, ...review };
+    } else {
+        delete reviews[riskId];
+    }
+    return applyRiskReviews(analysis, reviews);
+}
+
+/**
+ * Re-derive rows from rawData with a new column mapping for one sheet (or the
+ * current mappings) and re-run risk detection.
+ * Processing warnings (general risks such as the row limit) are carried over as-is;
+ * mapping risks and field assessments are re-validated.
+ */
+export function remapAnalysis(analysis: QuoteAnalysis, edit?: { sheetName: string; columnMapping: ColumnMapping }): QuoteAnalysis {
+    const sourceRows: SheetRow[] = analysis.rows.map(row => ({
+        sheetName: row.sheetName,
+        rowNumber: row.rowNumber,
+        data: row.rawData,
+        cellTypes: row.rawCellTypes,
+    }));
+
+    // Fields that kept their column keep their original assessment; edited ones are the user's call
+    const mappings = Object.fromEntries(Object.entries(analysis.sheetMappings).map(([sheetName, current]) => {
+        const columnMapping = edit?.sheetName === sheetName ? edit.columnMapping : current.columnMapping;
+        const sourceData = sourceRows.filter(row => row.sheetName === sheetName).map(row => row.data);
+        const reported: ReportedAssessments = {};
+        for (const { field } of MAPPABLE_FIELDS) {
+            const header = columnMapping[field];
+            const previous = current.mappingAssessment.find(a => a.field === field);
+            if (previous && previous.header === header) {
+                reported[field] = previous;
+            } else if (header) {
+                reported[field] = {
+                    confidence: estimateMappingConfidence(field, header, sourceData),
+                    rationale: 'Selected manually.',
+                    source: 'user',
+                };
+            }
+        }
+        return [sheetName, { columnMapping, reported }];
+    }));
+
+    const validation = validateSheetMappings(analysis.sheets, sourceRows, mappings);
+    const primary = validation.sheetMappings[primarySheetName(analysis.sheets) ?? ''];
+    const columnMapping = primary?.columnMapping ?? analysis.columnMapping;
+
+    const { rows: bomRows, bom } = resolveHierarchy(sourceRows, mapSheetRows(sourceRows, validation.sheetMappings, {
+        rawText: analysis.rawText,
+        unitConversions: analysis.mappingProfile?.unitConversions,
+    }));
+
+    // Catalog, lifecycle and price book lookups hold while the part number (and description) they were made for are unchanged
+    const previous = new Map(analysis.rows.map(row => [rowKey(row), row]));
+    const rows = withPricing(withQuotedQuantities(bomRows.map(row => {
+        const before = previous.get(rowKey(row));
+        if (!before || before.partNumber !== row.partNumber) return row;
+        return {
+            ...row,
+            catalogMatch: before.description === row.description ? before.catalogMatch : null,
+            lifecycle: before.lifecycle,
+            cost: before.cost,
+        };
+    })), analysis.pricing, analysis.customerTier);
+
+    const risks = uniqueRiskIds([
+        ...analysis.risks.filter(risk => risk.type === 'general'),
+        ...validation.risks,
+        ...analyzeAllRisks(analysis.rawText, analysis.cells, rows, analysis.riskRules, termsColumns(validation.sheetMappings)),
+    ]);
+
+    return {
+        ...analysis,
+        columnMapping,
+        mappingAssessment: primary?.mappingAssessment ?? analysis.mappingAssessment,
+        sheetMappings: validation.sheetMappings,
+        currency: detectFileCurrency(rows, columnMapping, analysis.rawText),
+        rows,
+        bom,
+        risks,
+        summary: buildSummary(rows, risks, analysis.reviews, analysis.riskRules.thresholds.dealScore),
+    };
+}
+
+/**
+ * Apply rows edited in place (by the AI copilot: changed cells, deleted rows, …):
+ * re-derive their values, rebuild the assembly tree and re-run risk detection.
+ * Unlike remapAnalysis, rows are not re-read from rawData, so the edits hold.
+ */
+export function applyRowEdits(analysis: QuoteAnalysis, editedRows: ParsedRow[]): QuoteAnalysis {
+    const rows = withDerivedValues(editedRows, analysis.pricing, analysis.customerTier);
+
+    // Processing warnings and mapping risks don't depend on the cell values
+    const risks = uniqueRiskIds([
+        ...analysis.risks.filter(risk => risk.type === 'general' || risk.type === 'mapping'),
+        ...analyzeAllRisks(analysis.rawText, analysis.cells, rows, analysis.riskRules, termsColumns(analysis.sheetMappings)),
+    ]);
+
+    return {
+        ...analysis,
+        rows,
+        bom: analysis.bom ? buildBomTree(rows, { column: analysis.bom.column, kind: analysis.bom.kind }) : null,
+        risks,
+        summary: buildSummary(rows, risks, analysis.reviews, analysis.riskRules.thresholds.dealScore),
+    };
+}
+
+/**
+ * Apply catalog lookups made on the server (after a re-map, or a new catalog upload)
+ * and re-run risk detection with them
+ */
+export function applyCatalogMatches(
+    analysis: QuoteAnalysis,
+    catalog: PartCatalogInfo | null,
+    matches: (CatalogMatch | null)[]
+): QuoteAnalysis {
+    return remapAnalysis(
+        { ...analysis, catalog, rows: withCatalogMatches(analysis.rows, matches) }
+    );
+}
+
+/**
+ * Apply lifecycle list lookups made on the server (after a re-map) and re-run risk detection with them
+ */
+export function applyLifecycleEntries(
+    analysis: QuoteAnalysis,
+    lifecycleList: LifecycleListInfo | null,
+    entries: (LifecycleEntry | null)[]
+): QuoteAnalysis {
+    return remapAnalysis(
+        { ...analysis, lifecycleList, rows: withLifecycleEntries(analysis.rows, entries) }
+    );
+}
+
+/**
+ * Apply price book lookups made on the server (after a re-map) and re-run pricing and risk detection with them
+ */
+export function applyPriceBookEntries(
+    analysis: QuoteAnalysis,
+    priceBook: PriceBookInfo | null,
+    entries: (PriceBookEntry | null)[]
+): QuoteAnalysis {
+    return remapAnalysis(
+        { ...analysis, priceBook, rows: withPriceBookEntries(analysis.rows, entries) }
+    );
+}
+
+/**
+ * Reprice the rows for another customer tier and re-run risk detection (margins change with the price)
+ */
+export function applyCustomerTier(analysis: QuoteAnalysis, customerTier: string | null): QuoteAnalysis {
+    return remapAnalysis({ ...analysis, customerTier });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuoteDocument, DEFAULT_QUOTE_DOCUMENT_SETTINGS, EMPTY_QUOTE_DOCUMENT_DETAILS, quoteDocumentView, type QuoteDocumentRow } from './quoteDocument';
+import type { RowPricing } from '@/types/quote';
+
+const issuedAt = new Date('2026-03-02T09:30:00Z');
+
+const pricing = (sellPrice: number, extendedSell: number | null, currency = 'USD'): RowPricing =>
+    ({ sellPrice, extendedSell, marginPercent: 25, currency, ruleId: null });
+
+const row = (overrides: Partial<QuoteDocumentRow> = {}): QuoteDocumentRow => ({
+    partNumber: 'LM317T',
+    manufacturer: 'TI',
+    description: 'Voltage regulator',
+    unitOfMeasure: 'EA',
+    leadTime: '4 weeks',
+    quantity: 90,
+    quotedQuantity: 100,
+    currency: null,
+    pricing: pricing(0.56, 56),
+    quantityTiers: [],
+    ...overrides,
+});
+
+describe('buildQuoteDocument', () => {
+    it('quotes each line at its quoted quantity and sell price', () => {
+        const quote = buildQuoteDocument([row()], EMPTY_QUOTE_DOCUMENT_DETAILS, DEFAULT_QUOTE_DOCUMENT_SETTINGS, issuedAt, null);
+        expect(quote.lines).toEqual([expect.objectContaining({ position: 1, quantity: 100, unitPrice: 0.56, amount: 56, currency: 'USD' })]);
+        expect(quote.totals).toEqual([{ currency: 'USD', amount: 56 }]);
+    });
+
+    it('totals per currency and lists quantity breaks', () => {
+        const quote = buildQuoteDocument([
+            row({ quantityTiers: [{ quotedQuantity: 1000, pricing: pricing(0.48, 480) }, { quotedQuantity: 10, pricing: null }] }),
+            row({ partNumber: 'BC547', pricing: pricing(0.1, 10, 'EUR') }),
+            row({ partNumber: 'LM7805', pricing: pricing(1.5, 150) }),
+        ], EMPTY_QUOTE_DOCUMENT_DETAILS, DEFAULT_QUOTE_DOCUMENT_SETTINGS, issuedAt, null);
+
+        expect(quote.lines[0].breaks).toEqual([{ quantity: 1000, unitPrice: 0.48 }]);
+        expect(quote.totals).toEqual([{ currency: 'USD', amount: 206 }, { currency: 'EUR', amount: 10 }]);
+    });
+
+    it('quotes rows without a sell price on request', () => {
+        const quote = buildQuoteDocument([row(), row({ partNumber: 'XYZ-1', pricing: null, currency: 'USD' })], EMPTY_QUOTE_DOCUMENT_DETAILS, DEFAULT_QUOTE_DOCUMENT_SETTINGS, issuedAt, null);
+        expect(quote.lines[1]).toMatchObject({ unitPrice: null, amount: null });
+        expect(quote.totals).toEqual([{ currency: 'USD', amount: 56 }]);
+        expect(quoteDocumentView(quote).lines[1].unitPrice).toBe('On request');
+    });
+
+    it('leaves out rows without part number and description', () => {
+        const quote = buildQuoteDocument([row({ partNumber: ' ', description: '' }), row()], EMPTY_QUOTE_DOCUMENT_DETAILS, DEFAULT_QUOTE_DOCUMENT_SETTINGS, issuedAt, null);
+        expect(quote.lines.map(line => line.position)).toEqual([1]);
+    });
+
+    it('fills empty details from the settings', () => {
+        const settings = { ...DEFAULT_QUOTE_DOCUMENT_SETTINGS, incoterm: 'FCA Hamburg', paymentTerms: 'Net 30', validityDays: 14 };
+        const quote = buildQuoteDocument([row()], EMPTY_QUOTE_DOCUMENT_DETAILS, settings, issuedAt, null);
+        expect(quote).toMatchObject({
+            quoteNumber: 'Q-20260302-0930',
+            issueDate: '2026-03-02',
+            validUntil: '2026-03-16',
+            incoterm: 'FCA Hamburg',
+            paymentTerms: 'Net 30',
+        });
+    });
+
+    it('keeps the details the user entered', () => {
+        const details = { ...EMPTY_QUOTE_DOCUMENT_DETAILS, quoteNumber: 'Q-42', customerName: ' ACME ', customerAddress: 'Main St 1\nSpringfield', incoterm: 'DAP Paris' };
+        const quote = buildQuoteDocument([row()], details, DEFAULT_QUOTE_DOCUMENT_SETTINGS, issuedAt, null);
+        expect(quote).toMatchObject({ quoteNumber: 'Q-42', incoterm: 'DAP Paris', customer: { name: 'ACME', address: ['Main St 1', 'Springfield'] } });
+    });
+});
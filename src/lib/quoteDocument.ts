@@ -0,0 +1,320 @@
+import { quoteDocumentSettingsSchema } from './schemas';
+import type { ParsedRow, QuantityTier, QuoteDocument, QuoteDocumentDetails, QuoteDocumentSettings } from '@/types/quote';
+
+/**
+ * Customer-facing quote documents
+ *
+ * The analyzed rows become a quotation: our company details and standard terms
+ * from the quote document settings, the customer, quote number, validity,
+ * Incoterm and payment terms as entered, and one line per item at its quoted
+ * quantity and sell price. The document is rendered to HTML from a template
+ * (see quoteTemplate.ts) and to PDF (see quotePdf.ts) on the server.
+ */
+
+// What a quote document needs of an analyzed row
+export type QuoteDocumentRow = Pick<
+    ParsedRow,
+    'partNumber' | 'manufacturer' | 'description' | 'unitOfMeasure' | 'leadTime' | 'quantity' | 'quotedQuantity' | 'currency' | 'pricing'
+> & { quantityTiers: Pick<QuantityTier, 'quotedQuantity' | 'pricing'>[] };
+
+export const DEFAULT_QUOTE_DOCUMENT_SETTINGS: QuoteDocumentSettings = {
+    company: { name: 'Your Company', address: [], phone: '', email: '', website: '', taxId: '' },
+    quoteNumberPrefix: 'Q-',
+    validityDays: 30,
+    incoterm: '',
+    paymentTerms: '',
+    terms: [
+        'Prices are in the currency stated per line and exclude VAT and other taxes.',
+        'This quotation is valid until the date above. Lead times are subject to availability at the time of order.',
+        'Delivery and payment are as per the Incoterm and payment terms above.',
+    ],
+    signatory: { name: '', title: '' },
+    locale: 'en-US',
+};
+
+export const EMPTY_QUOTE_DOCUMENT_DETAILS: QuoteDocumentDetails = {
+    customerName: '',
+    customerAddress: '',
+    customerReference: '',
+    quoteNumber: '',
+    validUntil: '',
+    incoterm: '',
+    paymentTerms: '',
+    notes: '',
+};
+
+/**
+ * Validate raw quote document settings and fill in the defaults.
+ * Throws a readable error listing every problem when the data is invalid.
+ */
+export function resolveQuoteDocumentSettings(data: unknown): QuoteDocumentSettings {
+    const parsed = quoteDocumentSettingsSchema.safeParse(data);
+    if (!parsed.success) {
+        const problems = parsed.error.issues
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid quote document settings: ${problems}`);
+    }
+
+    return parsed.data;
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+/**
+ * Quote number for a quote issued at a time: the prefix plus date and time, e.g. Q-20261019-1432
+ */
+export function generateQuoteNumber(prefix: string, issuedAt: Date): string {
+    const iso = issuedAt.toISOString();
+    return `${prefix}${iso.slice(0, 10).replace(/-/g, '')}-${iso.slice(11, 16).replace(':', '')}`;
+}
+
+/**
+ * Build the quotation for the analyzed rows. Rows without part number and
+ * description are left out, rows without a sell price are quoted on request;
+ * empty details take the settings' defaults.
+ */
+export function buildQuoteDocument(
+    rows: QuoteDocumentRow[],
+    details: QuoteDocumentDetails,
+    settings: QuoteDocumentSettings,
+    issuedAt: Date,
+    fileCurrency: string | null
+): QuoteDocument {
+    const issueDate = issuedAt.toISOString().slice(0, 10);
+    const validUntil = details.validUntil.trim()
+        || new Date(issuedAt.getTime() + settings.validityDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const documentLines = rows
+        .filter(row => row.partNumber.trim() || row.description.trim())
+        .map((row, index) => {
+            return {
+                position: index + 1,
+                partNumber: row.partNumber.trim(),
+                manufacturer: row.manufacturer.trim(),
+                description: row.description.trim(),
+                quantity: row.quotedQuantity ?? row.quantity,
+                unit: row.unitOfMeasure.trim(),
+                // The file's unit price is the customer's own (target) price, never ours to quote
+                unitPrice: row.pricing?.sellPrice ?? null,
+                amount: row.pricing?.extendedSell ?? null,
+                currency: row.pricing?.currency ?? row.currency ?? fileCurrency,
+                leadTime: row.leadTime.trim(),
+                breaks: row.quantityTiers.flatMap(tier => (tier.pricing
+                    ? [{ quantity: tier.quotedQuantity, unitPrice: tier.pricing.sellPrice }]
+                    : [])),
+            };
+        });
+
+    const totals = new Map<string | null, number>();
+    for (const line of documentLines) {
+        if (line.amount === null) continue;
+        totals.set(line.currency, (totals.get(line.currency) ?? 0) + line.amount);
+    }
+
+    return {
+        company: settings.company,
+        customer: {
+            name: details.customerName.trim(),
+            address: lines(details.customerAddress),
+            reference: details.customerReference.trim(),
+        },
+        quoteNumber: details.quoteNumber.trim() || generateQuoteNumber(settings.quoteNumberPrefix, issuedAt),
+        issueDate,
+        validUntil,
+        incoterm: details.incoterm.trim() || settings.incoterm,
+        paymentTerms: details.paymentTerms.trim() || settings.paymentTerms,
+        lines: documentLines,
+        totals: [...totals].map(([currency, amount]) => ({ currency, amount: round(amount, 2) })),
+        notes: lines(details.notes),
+        terms: settings.terms,
+        signatory: settings.signatory,
+        locale: settings.locale,
+    };
+}
+
+function formatMoney(value: number, currency: string | null, locale: string, maximumFractionDigits: number): string {
+    const options = { minimumFractionDigits: 2, maximumFractionDigits };
+    if (currency) {
+        try {
+            return value.toLocaleString(locale, { ...options, style: 'currency', currency });
+        } catch {
+            // Unknown ISO code - fall through to the plain format with the code appended
+            return `${value.toLocaleString(locale, options)} ${currency}`;
+        }
+    }
+    return value.toLocaleString(locale, options);
+}
+
+function formatDate(isoDate: string, locale: string): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    return Number.isNaN(date.getTime())
+        ? isoDate
+        : date.toLocaleDateString(locale, { dateStyle: 'long', timeZone: 'UTC' });
+}
+
+/**
+ * The document with every number and date formatted for its locale, as the
+ * HTML template and the PDF layout show it. Placeholders in templates are the
+ * keys of this object.
+ */
+export function quoteDocumentView(quote: QuoteDocument) {
+    const { locale } = quote;
+    const onRequest = 'On request';
+
+    return {
+        company: quote.company,
+        customer: quote.customer,
+        quoteNumber: quote.quoteNumber,
+        issueDate: formatDate(quote.issueDate, locale),
+        validUntil: formatDate(quote.validUntil, locale),
+        incoterm: quote.incoterm,
+        paymentTerms: quote.paymentTerms,
+        currencies: [...new Set(quote.lines.map(line => line.currency).filter(Boolean))].join(', '),
+        lines: quote.lines.map(line => ({
+            position: line.position,
+            partNumber: line.partNumber,
+            manufacturer: line.manufacturer,
+            description: line.description,
+            quantity: line.quantity !== null ? line.quantity.toLocaleString(locale) : '',
+            unit: line.unit,
+            unitPrice: line.unitPrice !== null ? formatMoney(line.unitPrice, line.currency, locale, 4) : onRequest,
+            amount: line.amount !== null ? formatMoney(line.amount, line.currency, locale, 2) : onRequest,
+            leadTime: line.leadTime,
+            breaks: line.breaks.map(({ quantity, unitPrice }) => ({
+                quantity: quantity.toLocaleString(locale),
+                unitPrice: formatMoney(unitPrice, line.currency, locale, 4),
+            })),
+        })),
+        totals: quote.totals.map(total => ({
+            currency: total.currency ?? '',
+            amount: formatMoney(total.amount, total.currency, locale, 2),
+        })),
+        hasUnpricedLines: quote.lines.some(line => line.amount === null),
+        notes: quote.notes,
+        terms: quote.terms,
+        signatory: quote.signatory,
+    };
+}
+
+export type QuoteDocumentView = ReturnType<typeof quoteDocumentView>;
+
+// ═══════════════════════════════════════════════════════════════
+// TEMPLATES
+// ═══════════════════════════════════════════════════════════════
+
+// A subset of Mustache: {{name}} and {{a.b}} insert HTML-escaped values, {{.}} the
+// current list item; {{#name}}…{{/name}} repeats for lists and shows for other
+// truthy values, {{^name}}…{{/name}} shows for false, empty or missing values
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; name: string }
+    | { kind: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TEMPLATE_TAG = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Parse a template; throws on sections that are not closed or closed out of order
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const open: { name: string; children: TemplateNode[] }[] = [{ name: '', children: root }];
+    let index = 0;
+
+    for (const match of template.matchAll(TEMPLATE_TAG)) {
+        const [tag, kind, name] = match;
+        const { children } = open[open.length - 1];
+        if (match.index > index) children.push({ kind: 'text', text: template.slice(index, match.index) });
+        index = match.index + tag.length;
+
+        if (kind === '#' || kind === '^') {
+            const section: TemplateNode = { kind: 'section', name, inverted: kind === '^', children: [] };
+            children.push(section);
+            open.push({ name, children: section.children });
+        } else if (kind === '/') {
+            if (open.length === 1 || open[open.length - 1].name !== name) {
+                throw new Error(`{{/${name}}} does not close an open section`);
+            }
+            open.pop();
+        } else {
+            children.push({ kind: 'value', name });
+        }
+    }
+
+    if (open.length > 1) {
+        throw new Error(`Section {{#${open[open.length - 1].name}}} is not closed`);
+    }
+    if (index < template.length) root.push({ kind: 'text', text: template.slice(index) });
+    return root;
+}
+
+/**
+ * Check a template without rendering it; the problem found, or null
+ */
+export function validateTemplate(template: string): string | null {
+    try {
+        parseTemplate(template);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Innermost context first; a name is looked up where its first segment is found
+function lookup(name: string, stack: unknown[]): unknown {
+    if (name === '.') return stack[stack.length - 1];
+
+    const [first, ...rest] = name.split('.');
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const context = stack[i];
+        if (context !== null && typeof context === 'object' && first in context) {
+            return rest.reduce<unknown>(
+                (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+                (context as Record<string, unknown>)[first]
+            );
+        }
+    }
+    return undefined;
+}
+
+function renderNodes(nodes: TemplateNode[], stack: unknown[]): string {
+    return nodes.map(node => {
+        if (node.kind === 'text') return node.text;
+
+        const value = lookup(node.name, stack);
+        if (node.kind === 'value') {
+            return value === null || value === undefined ? '' : escapeHtml(String(value));
+        }
+
+        const empty = !value || (Array.isArray(value) && value.length === 0);
+        if (node.inverted) return empty ? renderNodes(node.children, stack) : '';
+        if (empty) return '';
+        if (Array.isArray(value)) return value.map(item => renderNodes(node.children, [...stack, item])).join('');
+        return renderNodes(node.children, typeof value === 'object' ? [...stack, value] : stack);
+    }).join('');
+}
+
+/**
+ * Fill a template with data; throws on a malformed template
+ */
+export function renderTemplate(template: string, data: object): string {
+    return renderNodes(parseTemplate(template), [data]);
+}
+
+/**
+ * The quotation as a standalone HTML page
+ */
+export function renderQuoteHtml(quote: QuoteDocument, template: string): string {
+    return renderTemplate(template, quoteDocumentView(quote));
+}
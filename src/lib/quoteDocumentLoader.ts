@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { DEFAULT_QUOTE_DOCUMENT_SETTINGS, resolveQuoteDocumentSettings, validateTemplate } from './quoteDocument';
+import { DEFAULT_QUOTE_TEMPLATE } from './quoteTemplate';
+import type { QuoteDocumentSettings } from '@/types/quote';
+
+/**
+ * Quote document settings and template files
+ *
+ * The settings (company details, quote numbering, validity, standard Incoterm
+ * and payment terms, terms and conditions, signatory) are one JSON or YAML
+ * file; the template is one HTML file. Both are read on the server for every
+ * document, so edits apply to the next one. Override the locations with:
+ *   QUOTE_SETTINGS_PATH=/path/to/quote-document.yaml
+ *   QUOTE_TEMPLATE_PATH=/path/to/quote-template.html
+ */
+const QUOTE_SETTINGS_PATH = process.env.QUOTE_SETTINGS_PATH
+    ?? path.join(process.cwd(), 'config', 'quote-document.yaml');
+
+const QUOTE_TEMPLATE_PATH = process.env.QUOTE_TEMPLATE_PATH
+    ?? path.join(process.cwd(), 'config', 'quote-template.html');
+
+export interface QuoteSettingsLoadResult {
+    settings: QuoteDocumentSettings;
+    errors: string[];
+}
+
+export interface QuoteTemplateLoadResult {
+    template: string;
+    errors: string[];
+}
+
+/**
+ * Load the quote document settings; without a settings file, or with an invalid one, the built-in defaults apply
+ */
+export async function loadQuoteDocumentSettings(): Promise<QuoteSettingsLoadResult> {
+    let content: string;
+    try {
+        content = await fs.readFile(QUOTE_SETTINGS_PATH, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { settings: DEFAULT_QUOTE_DOCUMENT_SETTINGS, errors: [] };
+        }
+        throw error;
+    }
+
+    const fileName = path.basename(QUOTE_SETTINGS_PATH);
+    try {
+        const data: unknown = /\.json$/i.test(fileName) ? JSON.parse(content) : yaml.load(content);
+        return { settings: resolveQuoteDocumentSettings(data), errors: [] };
+    } catch (error) {
+        return { settings: DEFAULT_QUOTE_DOCUMENT_SETTINGS, errors: [`${fileName}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+}
+
+/**
+ * Load the quote template; without a template file, or with a malformed one, the built-in template applies
+ */
+export async function loadQuoteTemplate(): Promise<QuoteTemplateLoadResult> {
+    let template: string;
+    try {
+        template = await fs.readFile(QUOTE_TEMPLATE_PATH, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { template: DEFAULT_QUOTE_TEMPLATE, errors: [] };
+        }
+        throw error;
+    }
+
+    const problem = validateTemplate(template);
+    return problem
+        ? { template: DEFAULT_QUOTE_TEMPLATE, errors: [`${path.basename(QUOTE_TEMPLATE_PATH)}: ${problem}`] }
+        : { template, errors: [] };
+}
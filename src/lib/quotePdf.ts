@@ -0,0 +1,246 @@
+import { A4, addPage, createPdf, drawLine, drawText, fillRect, pdfBytes, textWidth, wrapText, type PdfFont, type PdfTextOptions } from './pdfWriter';
+import { quoteDocumentView } from './quoteDocument';
+import type { QuoteDocument } from '@/types/quote';
+
+/**
+ * Quote documents as PDF
+ *
+ * The same sections as the built-in HTML template - company and quote header,
+ * customer, Incoterm and payment terms, line items, totals, terms and
+ * conditions, signatures - in a fixed A4 layout. A custom quote-template.html
+ * does not apply here: the settings change the PDF's content (company details,
+ * terms, numbering, locale), not its sections or labels.
+ */
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const CONTENT_WIDTH = A4.width - MARGIN * 2;
+const GRAY = 0.4;
+
+interface Column {
+    title: string;
+    width: number;
+    align: 'left' | 'right';
+}
+
+// The description takes the width the other columns leave
+const COLUMNS: Column[] = [
+    { title: '#', width: 22, align: 'left' },
+    { title: 'Part Number', width: 100, align: 'left' },
+    { title: 'Description', width: CONTENT_WIDTH - (22 + 100 + 52 + 34 + 72 + 76), align: 'left' },
+    { title: 'Qty', width: 52, align: 'right' },
+    { title: 'Unit', width: 34, align: 'left' },
+    { title: 'Unit Price', width: 72, align: 'right' },
+    { title: 'Amount', width: 76, align: 'right' },
+];
+
+const CELL_PADDING = 4;
+const TABLE_SIZE = 8.5;
+const TABLE_LEADING = 11;
+
+/**
+ * Render the quotation as a PDF file
+ */
+export function renderQuotePdf(quote: QuoteDocument): Uint8Array {
+    const view = quoteDocumentView(quote);
+    const pdf = createPdf(A4.width, A4.height);
+    let page = addPage(pdf);
+    let y = A4.height - MARGIN;
+
+    const text = (value: string, x: number, options: PdfTextOptions = {}) => drawText(page, value, x, y, options);
+
+    // Continue on a new page when the next block does not fit
+    const ensureSpace = (height: number) => {
+        if (y - height < MARGIN + FOOTER_HEIGHT) {
+            page = addPage(pdf);
+            y = A4.height - MARGIN;
+            return true;
+        }
+        return false;
+    };
+
+    // ── Header: company left, quote number and dates right ──
+    const headerTop = y;
+    y -= 16;
+    text(view.company.name, MARGIN, { font: 'bold', size: 16 });
+    y -= 14;
+    for (const line of view.company.address) {
+        text(line, MARGIN, { size: 9 });
+        y -= 12;
+    }
+    const contacts = [
+        view.company.phone && `Tel. ${view.company.phone}`,
+        view.company.email,
+        view.company.website,
+        view.company.taxId && `Tax ID ${view.company.taxId}`,
+    ].filter(Boolean);
+    for (const line of contacts) {
+        text(line, MARGIN, { size: 9, gray: GRAY });
+        y -= 12;
+    }
+    const companyBottom = y;
+
+    y = headerTop - 20;
+    text('QUOTATION', A4.width - MARGIN, { font: 'bold', size: 20, align: 'right' });
+    y -= 20;
+    for (const [label, value] of [['Quote No.', view.quoteNumber], ['Date', view.issueDate], ['Valid until', view.validUntil]]) {
+        text(value, A4.width - MARGIN, { font: 'bold', size: 9, align: 'right' });
+        text(label, A4.width - MARGIN - Math.max(130, textWidth(value, 'bold', 9) + 60), { size: 9, gray: GRAY });
+        y -= 12;
+    }
+
+    y = Math.min(y, companyBottom) - 4;
+    drawLine(page, MARGIN, y, A4.width - MARGIN, y, 1.5);
+    y -= 22;
+
+    // ── Customer left, delivery and payment terms right ──
+    const partiesTop = y;
+    text('QUOTE FOR', MARGIN, { font: 'bold', size: 8, gray: GRAY });
+    y -= 14;
+    if (view.customer.name) {
+        text(view.customer.name, MARGIN, { font: 'bold', size: 11 });
+        y -= 13;
+    }
+    for (const line of view.customer.address) {
+        text(line, MARGIN, { size: 9 });
+        y -= 12;
+    }
+    if (view.customer.reference) {
+        text(`Your reference: ${view.customer.reference}`, MARGIN, { size: 9, gray: GRAY });
+        y -= 12;
+    }
+    const customerBottom = y;
+
+    y = partiesTop;
+    const summary = [['Incoterm', view.incoterm], ['Payment terms', view.paymentTerms], ['Currency', view.currencies]]
+        .filter(([, value]) => value);
+    const summaryX = A4.width - MARGIN - 200;
+    for (const [label, value] of summary) {
+        text(label, summaryX, { size: 9, gray: GRAY });
+        for (const line of wrapText(value, 'bold', 9, 120)) {
+            text(line, summaryX + 80, { font: 'bold', size: 9 });
+            y -= 12;
+        }
+    }
+
+    y = Math.min(y, customerBottom) - 16;
+
+    // ── Line items ──
+    const drawTableHeader = () => {
+        fillRect(page, MARGIN, y - 6, CONTENT_WIDTH, 18, 0.93);
+        let x = MARGIN;
+        for (const column of COLUMNS) {
+            const cellX = column.align === 'right' ? x + column.width - CELL_PADDING : x + CELL_PADDING;
+            text(column.title.toUpperCase(), cellX, { font: 'bold', size: 7.5, align: column.align });
+            x += column.width;
+        }
+        y -= 20;
+    };
+    drawTableHeader();
+
+    for (const line of view.lines) {
+        const descriptionWidth = COLUMNS[2].width - CELL_PADDING * 2;
+        const cells: { lines: string[]; font: PdfFont; gray: number }[][] = [
+            [{ lines: [String(line.position)], font: 'regular', gray: 0 }],
+            [{ lines: wrapText(line.partNumber, 'bold', TABLE_SIZE, COLUMNS[1].width - CELL_PADDING * 2), font: 'bold', gray: 0 }],
+            [
+                { lines: wrapText(line.description, 'regular', TABLE_SIZE, descriptionWidth), font: 'regular', gray: 0 },
+                { lines: line.manufacturer ? wrapText(line.manufacturer, 'regular', TABLE_SIZE, descriptionWidth) : [], font: 'regular', gray: GRAY },
+                { lines: line.leadTime ? wrapText(`Lead time: ${line.leadTime}`, 'regular', TABLE_SIZE, descriptionWidth) : [], font: 'regular', gray: GRAY },
+                { lines: line.breaks.map(b => `Qty ${b.quantity}: ${b.unitPrice}`), font: 'regular', gray: GRAY },
+            ],
+            [{ lines: [line.quantity], font: 'regular', gray: 0 }],
+            [{ lines: wrapText(line.unit, 'regular', TABLE_SIZE, COLUMNS[4].width - CELL_PADDING * 2), font: 'regular', gray: 0 }],
+            [{ lines: [line.unitPrice], font: 'regular', gray: 0 }],
+            [{ lines: [line.amount], font: 'bold', gray: 0 }],
+        ];
+        const rowLines = Math.max(...cells.map(blocks => blocks.reduce((sum, block) => sum + block.lines.length, 0)));
+        const rowHeight = rowLines * TABLE_LEADING + 8;
+
+        if (ensureSpace(rowHeight + 4)) {
+            drawTableHeader();
+        }
+
+        let x = MARGIN;
+        cells.forEach((blocks, index) => {
+            const column = COLUMNS[index];
+            const cellX = column.align === 'right' ? x + column.width - CELL_PADDING : x + CELL_PADDING;
+            let lineY = y;
+            for (const block of blocks) {
+                for (const value of block.lines) {
+                    drawText(page, value, cellX, lineY, { font: block.font, size: TABLE_SIZE, gray: block.gray, align: column.align });
+                    lineY -= TABLE_LEADING;
+                }
+            }
+            x += column.width;
+        });
+
+        y -= rowHeight;
+        drawLine(page, MARGIN, y + 12, A4.width - MARGIN, y + 12, 0.5, 0.85);
+    }
+
+    // ── Totals ──
+    y -= 14;
+    ensureSpace(view.totals.length * 18 + 20);
+    for (const total of view.totals) {
+        drawLine(page, A4.width - MARGIN - 220, y + 12, A4.width - MARGIN, y + 12, 1.5);
+        text(`Total ${total.currency}`.trim(), A4.width - MARGIN - 220 + CELL_PADDING, { font: 'bold', size: 11 });
+        text(total.amount, A4.width - MARGIN - CELL_PADDING, { font: 'bold', size: 11, align: 'right' });
+        y -= 18;
+    }
+    if (view.hasUnpricedLines) {
+        text('Items marked "On request" are not included in the total.', A4.width - MARGIN - CELL_PADDING, { size: 8, gray: GRAY, align: 'right' });
+        y -= 12;
+    }
+
+    // ── Notes and terms and conditions ──
+    const paragraphs = (title: string, items: string[], numbered: boolean) => {
+        if (items.length === 0) return;
+        y -= 14;
+        ensureSpace(40);
+        text(title.toUpperCase(), MARGIN, { font: 'bold', size: 9 });
+        y -= 14;
+        items.forEach((item, index) => {
+            const indent = numbered ? 16 : 0;
+            const wrapped = wrapText(item, 'regular', 8.5, CONTENT_WIDTH - indent);
+            ensureSpace(wrapped.length * 11);
+            if (numbered) text(`${index + 1}.`, MARGIN, { size: 8.5 });
+            for (const line of wrapped) {
+                text(line, MARGIN + indent, { size: 8.5 });
+                y -= 11;
+            }
+            y -= 3;
+        });
+    };
+    paragraphs('Notes', view.notes, false);
+    paragraphs('Terms and Conditions', view.terms, true);
+
+    // ── Signatures ──
+    y -= 24;
+    ensureSpace(110);
+    const signatureWidth = (CONTENT_WIDTH - 48) / 2;
+    const signatory = view.signatory.name
+        ? [view.signatory.name, view.signatory.title].filter(Boolean).join(', ')
+        : 'Name, title';
+    const blocks = [
+        { x: MARGIN, title: `For ${view.company.name}`, name: signatory },
+        { x: MARGIN + signatureWidth + 48, title: `Accepted by ${view.customer.name || 'the customer'}`, name: 'Name, title' },
+    ];
+    for (const block of blocks) {
+        const title = wrapText(block.title.toUpperCase(), 'bold', 8, signatureWidth)[0];
+        drawText(page, title, block.x, y, { font: 'bold', size: 8, gray: GRAY });
+        drawLine(page, block.x, y - 50, block.x + signatureWidth, y - 50, 0.75);
+        drawText(page, block.name, block.x, y - 62, { size: 8.5, gray: GRAY });
+        drawLine(page, block.x, y - 92, block.x + signatureWidth / 2, y - 92, 0.5, 0.6);
+        drawText(page, 'Date', block.x, y - 102, { size: 8.5, gray: GRAY });
+    }
+
+    // ── Footer on every page ──
+    pdf.pages.forEach((footerPage, index) => {
+        const footer = `${view.company.name} · Quotation ${view.quoteNumber} · Page ${index + 1} of ${pdf.pages.length}`;
+        const size = textWidth(footer, 'regular', 7.5) > CONTENT_WIDTH ? 6.5 : 7.5;
+        drawText(footerPage, footer, A4.width / 2, MARGIN - 20, { size, gray: GRAY, align: 'center' });
+    });
+
+    return pdfBytes(pdf, `Quotation ${view.quoteNumber}`);
+}
@@ -0,0 +1,157 @@
+/**
+ * Built-in quote document template
+ *
+ * Used when there is no config/quote-template.html. A custom template can use
+ * the same placeholders (see quoteDocumentView in quoteDocument.ts).
+ */
+export const DEFAULT_QUOTE_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Quotation {{quoteNumber}} - {{company.name}}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 13px/1.45 "Helvetica Neue", Helvetica, Arial, sans-serif; color: #1f2933; }
+  .page { max-width: 820px; margin: 0 auto; }
+  header { display: flex; justify-content: space-between; gap: 24px; padding-bottom: 16px; border-bottom: 2px solid #1f2933; }
+  .company-name { font-size: 20px; font-weight: 700; margin-bottom: 4px; }
+  .company p, .customer p { margin: 0; }
+  .muted { color: #616e7c; }
+  .title { text-align: right; }
+  .title h1 { margin: 0 0 8px; font-size: 26px; letter-spacing: 0.08em; }
+  .title dl, .terms-summary dl { display: grid; grid-template-columns: auto auto; gap: 2px 12px; margin: 0; }
+  .title dt, .terms-summary dt { color: #616e7c; }
+  .title dd, .terms-summary dd { margin: 0; font-weight: 600; }
+  .parties { display: flex; justify-content: space-between; gap: 24px; margin: 24px 0; }
+  .label { font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.06em; color: #616e7c; margin-bottom: 4px; }
+  .customer-name { font-weight: 700; font-size: 15px; }
+  table { width: 100%; border-collapse: collapse; }
+  thead th { background: #eef0f3; text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; padding: 8px; }
+  tbody td { padding: 8px; border-bottom: 1px solid #e4e7eb; vertical-align: top; }
+  tbody tr { page-break-inside: avoid; }
+  .num { text-align: right; white-space: nowrap; }
+  .part { font-weight: 600; white-space: nowrap; }
+  .detail { font-size: 11px; color: #616e7c; }
+  .breaks { margin: 4px 0 0; padding: 0; list-style: none; font-size: 11px; color: #616e7c; }
+  .totals { margin: 12px 0 0 auto; width: 320px; }
+  .totals td { padding: 6px 8px; font-size: 15px; font-weight: 700; border-top: 2px solid #1f2933; }
+  .footnote { font-size: 11px; color: #616e7c; text-align: right; margin-top: 4px; }
+  section { margin-top: 28px; }
+  section h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.06em; margin: 0 0 8px; }
+  .conditions ol { margin: 0; padding-left: 18px; font-size: 12px; }
+  .signatures { display: flex; gap: 48px; margin-top: 40px; page-break-inside: avoid; }
+  .signature { flex: 1; }
+  .signature-line { border-bottom: 1px solid #1f2933; height: 56px; margin-bottom: 6px; }
+  .signature p { margin: 0 0 14px; font-size: 12px; color: #616e7c; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="page">
+  <header>
+    <div class="company">
+      <div class="company-name">{{company.name}}</div>
+      {{#company.address}}<p>{{.}}</p>{{/company.address}}
+      {{#company.phone}}<p class="muted">Tel. {{company.phone}}</p>{{/company.phone}}
+      {{#company.email}}<p class="muted">{{company.email}}</p>{{/company.email}}
+      {{#company.website}}<p class="muted">{{company.website}}</p>{{/company.website}}
+      {{#company.taxId}}<p class="muted">Tax ID {{company.taxId}}</p>{{/company.taxId}}
+    </div>
+    <div class="title">
+      <h1>QUOTATION</h1>
+      <dl>
+        <dt>Quote No.</dt><dd>{{quoteNumber}}</dd>
+        <dt>Date</dt><dd>{{issueDate}}</dd>
+        <dt>Valid until</dt><dd>{{validUntil}}</dd>
+      </dl>
+    </div>
+  </header>
+
+  <div class="parties">
+    <div class="customer">
+      <div class="label">Quote for</div>
+      {{#customer.name}}<p class="customer-name">{{customer.name}}</p>{{/customer.name}}
+      {{#customer.address}}<p>{{.}}</p>{{/customer.address}}
+      {{#customer.reference}}<p class="muted">Your reference: {{customer.reference}}</p>{{/customer.reference}}
+    </div>
+    <div class="terms-summary">
+      <dl>
+        {{#incoterm}}<dt>Incoterm</dt><dd>{{incoterm}}</dd>{{/incoterm}}
+        {{#paymentTerms}}<dt>Payment terms</dt><dd>{{paymentTerms}}</dd>{{/paymentTerms}}
+        {{#currencies}}<dt>Currency</dt><dd>{{currencies}}</dd>{{/currencies}}
+      </dl>
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Part Number</th>
+        <th>Description</th>
+        <th class="num">Qty</th>
+        <th>Unit</th>
+        <th class="num">Unit Price</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>
+      {{#lines}}
+      <tr>
+        <td>{{position}}</td>
+        <td class="part">{{partNumber}}</td>
+        <td>
+          {{description}}
+          {{#manufacturer}}<div class="detail">{{manufacturer}}</div>{{/manufacturer}}
+          {{#leadTime}}<div class="detail">Lead time: {{leadTime}}</div>{{/leadTime}}
+          {{#breaks.length}}<ul class="breaks">{{#breaks}}<li>Qty {{quantity}}: {{unitPrice}}</li>{{/breaks}}</ul>{{/breaks.length}}
+        </td>
+        <td class="num">{{quantity}}</td>
+        <td>{{unit}}</td>
+        <td class="num">{{unitPrice}}</td>
+        <td class="num">{{amount}}</td>
+      </tr>
+      {{/lines}}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    {{#totals}}
+    <tr><td>Total {{currency}}</td><td class="num">{{amount}}</td></tr>
+    {{/totals}}
+  </table>
+  {{#hasUnpricedLines}}<p class="footnote">Items marked "On request" are not included in the total.</p>{{/hasUnpricedLines}}
+
+  {{#notes.length}}
+  <section>
+    <h2>Notes</h2>
+    {{#notes}}<p>{{.}}</p>{{/notes}}
+  </section>
+  {{/notes.length}}
+
+  {{#terms.length}}
+  <section class="conditions">
+    <h2>Terms and Conditions</h2>
+    <ol>{{#terms}}<li>{{.}}</li>{{/terms}}</ol>
+  </section>
+  {{/terms.length}}
+
+  <div class="signatures">
+    <div class="signature">
+      <div class="label">For {{company.name}}</div>
+      <div class="signature-line"></div>
+      <p>{{#signatory.name}}{{signatory.name}}{{#signatory.title}}, {{signatory.title}}{{/signatory.title}}{{/signatory.name}}{{^signatory.name}}Name, title{{/signatory.name}}</p>
+      <p>Date</p>
+    </div>
+    <div class="signature">
+      <div class="label">Accepted by {{#customer.name}}{{customer.name}}{{/customer.name}}{{^customer.name}}the customer{{/customer.name}}</div>
+      <div class="signature-line"></div>
+      <p>Name, title</p>
+      <p>Date</p>
+    </div>
+  </div>
+</div>
+</body>
+</html>
+`;
@@ -1,45 +1,121 @@
-import type { RiskFlag, ParsedRow, RiskLevel } from '@/types/quote';
+import type { RiskFlag, ParsedRow, RiskLevel, RiskRuleSet, RiskThresholds, BuiltInDetector, CellSource, LifecycleEntry, LifecycleStatus, RowRef, TextCell } from '@/types/quote';
 import { INCOTERMS_DATA } from './schemas';
+import { inferNumberFormat, parseLocaleNumber } from './numberParser';
+import { DEFAULT_RISK_THRESHOLDS, DEFAULT_RULE_SET, evaluateRiskRules, incotermLevel } from './riskRules';
+import { annualizedDiscountCost, extractPaymentTerms, type PaymentTermsExtraction } from './paymentTerms';
+import { cellSource, findInCells, locateText, matchSource, rowContext } from './cellProvenance';
+import { extractIncoterms, LEGACY_INCOTERMS, SELLER_COSTS, type IncotermOccurrence } from './incoterms';
+import { riskId, uniqueRiskIds } from './riskIds';
+import { rowRef } from './rowRefs';
+import { BASE_UNITS, parseUnit, type ParsedUnit } from './units';
+import { findCorruptedPartNumbers, normalizePartNumber, type CorruptedPartNumber, type PartNumberCorruptionKind } from './partNumbers';
+import { findOrderQuantityIssues, findUnconvertibleOrderRules, type OrderQuantityIssue } from './orderQuantities';
+import { hasUnconvertibleCost } from './pricing';
+
+// Allowed drift between stated and computed amounts: rounding to cents, or 0.5% of the amount
+const ARITHMETIC_TOLERANCE = { absolute: 0.01, relative: 0.005 };
 
 /**
- * Scan raw text for Incoterms mentions
+ * Grade the Incoterms stated in the file: one flag per term with its named place,
+ * version and every cell that states it, plus a conflict flag when the file
+ * names more than one term or place
  */
-export function detectIncoterms(rawText: string): RiskFlag[] {
+export function detectIncoterms(cells: TextCell[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
     const risks: RiskFlag[] = [];
-    const upperText = rawText.toUpperCase();
+    const occurrences = extractIncoterms(cells);
 
-    for (const [term, info] of Object.entries(INCOTERMS_DATA)) {
-        // Look for the incoterm followed by optional location
-        const regex = new RegExp(`\\b${term}\\s*[\\-–:]?\\s*([A-Za-z\\s,]+)?`, 'gi');
-        const matches = upperText.match(regex);
+    const byTerm = new Map<string, IncotermOccurrence[]>();
+    for (const occurrence of occurrences) {
+        const key = `${occurrence.convention}:${occurrence.term}`;
+        byTerm.set(key, [...(byTerm.get(key) ?? []), occurrence]);
+    }
 
-        if (matches) {
-            const extractedValue = matches[0];
+    for (const found of byTerm.values()) {
+        const first = found.find(o => o.place) ?? found[0];
+        const { term, place, version, replacedBy } = first;
+        const places = [...new Set(found.map(o => o.place).filter((p): p is string => p !== null))];
+        const allCells = found.length > 1 ? found.map(o => o.source) : undefined;
 
+        if (first.convention === 'ucc') {
+            const toDestination = /^destination/i.test(place ?? '');
             risks.push({
-                id: `incoterm-${term}-${Date.now()}`,
+                id: riskId('incoterm-ucc', term),
                 type: 'incoterms',
-                level: info.riskLevel,
-                title: `Incoterm Detected: ${term}`,
-                description: info.description,
-                extractedValue: extractedValue.trim(),
-                recommendation: info.riskLevel === 'critical' || info.riskLevel === 'high'
-                    ? `⚠️ Review required. ${term} places significant responsibility on the seller. Ensure pricing includes all associated costs.`
-                    : `Standard ${term} terms detected. Verify alignment with your standard commercial terms.`,
+                level: toDestination ? 'high' : 'medium',
+                title: `US Shipping Term: ${first.text}`,
+                description: `"${first.text}" is a US Uniform Commercial Code shipping term, not an Incoterm. ${toDestination
+                    ? 'Under UCC, FOB Destination leaves freight risk with the seller until the goods reach the buyer.'
+                    : 'Under UCC, risk passes to the buyer once the goods leave the named point.'}`,
+                extractedValue: first.text,
+                recommendation: toDestination
+                    ? 'Confirm which rules apply. If delivery to the customer site is intended, restate as "DAP <customer site> (Incoterms 2020)" and price freight to site.'
+                    : 'Confirm which rules apply. If the customer collects, restate as "FCA <shipping point> (Incoterms 2020)".',
+                source: first.source,
+                occurrences: allCells,
             });
+            continue;
+        }
+
+        const current = replacedBy ?? term;
+        const level = incotermLevel(current, thresholds);
+        const label = place ? `${term} ${place}` : term;
+        const costs = `${SELLER_COSTS[term]} ${place ?? 'the named place'}`;
+        const placeRequest = place
+            ? ''
+            : ` Ask the customer to name the ${['FAS', 'FOB', 'CFR', 'CIF'].includes(current) ? 'port' : 'place'} (e.g. "${term} Hamburg").`;
+
+        risks.push({
+            id: riskId('incoterm', term),
+            type: 'incoterms',
+            level,
+            title: `Incoterm Detected: ${label}${version ? ` (Incoterms ${version})` : ''}`,
+            description: [
+                `${replacedBy ? LEGACY_INCOTERMS[term].description : INCOTERMS_DATA[term].description}.`,
+                replacedBy ? `${term} is not part of Incoterms 2020; the closest current term is ${replacedBy}.` : '',
+                place ? `Named place: ${place}.` : 'No named place is stated, so it is unclear where costs and risk pass to the buyer.',
+                places.length > 1 ? `Different named places are given: ${places.join(', ')}.` : '',
+                version && version !== '2020' && !replacedBy ? `Stated under Incoterms ${version}; obligations changed in 2020 (e.g. CIP now requires all-risks insurance).` : '',
+                found.length > 1 ? `Stated in ${found.length} cells.` : '',
+            ].filter(Boolean).join(' '),
+            extractedValue: first.text,
+            recommendation: (replacedBy ? `Restate as "${replacedBy} ${place ?? '<named place>'} (Incoterms 2020)". ` : '')
+                + (level === 'critical' || level === 'high'
+                    ? `⚠️ Review required. ${label} makes the seller responsible for ${costs}. Ensure pricing includes all associated costs.`
+                    : `Standard ${label} terms: our price covers ${costs}. Verify alignment with your standard commercial terms.`)
+                + placeRequest,
+            source: first.source,
+            occurrences: allCells,
+        });
+    }
+
+    // Two terms (or one term with two places) cannot both apply
+    const stated = new Map<string, IncotermOccurrence>();
+    for (const occurrence of occurrences.filter(o => o.convention === 'incoterms')) {
+        const current = occurrence.replacedBy ?? occurrence.term;
+        const key = `${current}|${occurrence.place?.toLowerCase() ?? ''}`;
+        const hasNamedPlace = occurrences.some(o => (o.replacedBy ?? o.term) === current && o.place);
+        if (!stated.has(key) && (occurrence.place || !hasNamedPlace)) {
+            stated.set(key, occurrence);
         }
     }
 
-    // Also detect "Delivered" or "Duty Paid" phrases that might indicate DDP-like terms
-    if (/delivered\s+duty\s+paid/i.test(rawText) && !risks.some(r => r.extractedValue?.includes('DDP'))) {
+    if (stated.size > 1) {
+        const levelRank: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+        const terms = [...stated.values()];
+        const labelOf = (o: IncotermOccurrence) => (o.place ? `${o.term} ${o.place}` : o.term);
+        const worst = terms.reduce((max, o) =>
+            levelRank[incotermLevel(o.replacedBy ?? o.term, thresholds)] > levelRank[incotermLevel(max.replacedBy ?? max.term, thresholds)] ? o : max);
+
         risks.push({
-            id: `incoterm-ddp-phrase-${Date.now()}`,
+            id: riskId('incoterm-conflict', terms.map(o => [o.term, o.place, o.source.cellRef])),
             type: 'incoterms',
-            level: 'critical',
-            title: 'DDP-equivalent Terms Detected',
-            description: 'The phrase "Delivered Duty Paid" suggests the seller is responsible for all costs including import duties.',
-            extractedValue: 'Delivered Duty Paid',
-            recommendation: '🚨 CRITICAL: This implies DDP terms. Verify your quote includes import duties, taxes, and all delivery costs.',
+            level: 'high',
+            title: `Conflicting Incoterms: ${terms.map(labelOf).join(' vs ')}`,
+            description: `The file states more than one delivery term: ${terms.map(o => `${labelOf(o)} (${o.source.cellRef})`).join(', ')}. Only one can govern the order.`,
+            extractedValue: terms.map(labelOf).join(' / '),
+            recommendation: `Confirm a single Incoterm and named place with the customer. Until then, price for ${labelOf(worst)}, the most demanding term stated.`,
+            source: terms[1].source,
+            occurrences: terms.map(o => o.source),
         });
     }
 
@@ -47,11 +123,12 @@ export function detectIncoterms(rawText: string): RiskFlag[] {
 }
 
 /**
- * Scan raw text for Liquidated Damages clauses
+ * Scan text cells for Liquidated Damages clauses.
+ * The rate and cap are read from the clause's cell, then from the rest of its row.
  */
-export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
+export function detectLiquidatedDamages(cells: TextCell[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const { criticalRatePercent, highRatePercent, criticalCapPercent } = thresholds.liquidatedDamages;
     const risks: RiskFlag[] = [];
-    const lowerText = rawText.toLowerCase();
 
     // Patterns that indicate LD clauses
     const ldPatterns = [
@@ -64,11 +141,13 @@ export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
     ];
 
     for (const pattern of ldPatterns) {
-        const match = rawText.match(pattern);
-        if (match) {
+        const found = findInCells(cells, pattern);
+        if (found) {
+            const context = rowContext(cells, found.cell);
+
             // Try to extract the percentage if present
-            const percentMatch = rawText.match(/(\d+\.?\d*)\s*%\s*(per|each)?\s*(day|week|month)?/i);
-            let extractedValue = match[0];
+            const percentMatch = findInCells(context, /(\d+\.?\d*)\s*%\s*(per|each)?\s*(day|week|month)?/i)?.match;
+            let extractedValue = found.match[0];
             let level: RiskLevel = 'high';
 
             if (percentMatch) {
@@ -76,9 +155,9 @@ export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
                 extractedValue = percentMatch[0];
 
                 // Higher percentages = higher risk
-                if (percentage >= 1) {
+                if (percentage >= criticalRatePercent) {
                     level = 'critical';
-                } else if (percentage >= 0.5) {
+                } else if (percentage >= highRatePercent) {
                     level = 'high';
                 } else {
                     level = 'medium';
@@ -86,18 +165,19 @@ export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
             }
 
             // Try to find cap percentage
-            const capMatch = rawText.match(/(?:cap|maximum|max|up\s+to|not\s+(?:to\s+)?exceed)\s*(?:of\s*)?(\d+\.?\d*)\s*%/i);
+            const capMatch = findInCells(context, /(?:cap|maximum|max|up\s+to|not\s+(?:to\s+)?exceed)\s*(?:of\s*)?(\d+\.?\d*)\s*%/i)?.match;
             let capInfo = '';
             if (capMatch) {
                 const cap = parseFloat(capMatch[1]);
                 capInfo = ` (Capped at ${cap}%)`;
-                if (cap > 10) {
+                if (cap > criticalCapPercent) {
                     level = 'critical';
                 }
             }
 
+            const source = matchSource(found);
             risks.push({
-                id: `ld-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                id: riskId('ld', found.match[0], source.cellRef),
                 type: 'liquidated_damages',
                 level,
                 title: `Liquidated Damages Clause Detected${capInfo}`,
@@ -106,6 +186,7 @@ export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
                 recommendation: level === 'critical'
                     ? '🚨 CRITICAL: High-risk LD clause detected. Escalate to Deal Desk before quoting. Consider risk premium pricing.'
                     : '⚠️ Review LD terms with legal/commercial team. Ensure delivery timeline is achievable with buffer.',
+                source,
             });
 
             break; // Only report one LD risk to avoid duplicates
@@ -116,87 +197,513 @@ export function detectLiquidatedDamages(rawText: string): RiskFlag[] {
 }
 
 /**
- * Detect duplicate part numbers in the parsed rows
+ * Detect duplicate part numbers in the parsed rows, compared after normalization
+ * ("ABC-123" and "abc 123" are the same part).
+ * In an indented BOM the same component legitimately appears under several
+ * assemblies (where-used); only repeats under the same parent are duplicates.
  */
-export function detectDuplicates(rows: ParsedRow[]): RiskFlag[] {
+export function detectDuplicates(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
     const risks: RiskFlag[] = [];
-    const partNumberMap = new Map<string, number[]>();
+    const partNumberMap = new Map<string, ParsedRow[]>();
 
     for (const row of rows) {
         if (row.partNumber && row.partNumber.trim()) {
-            const pn = row.partNumber.trim().toUpperCase();
-            const existing = partNumberMap.get(pn) || [];
-            existing.push(row.rowNumber);
-            partNumberMap.set(pn, existing);
+            const key = normalizePartNumber(row.partNumber, thresholds.partNumbers);
+            const existing = partNumberMap.get(key) || [];
+            existing.push(row);
+            partNumberMap.set(key, existing);
         }
     }
 
-    for (const [partNumber, rowNumbers] of partNumberMap) {
-        if (rowNumbers.length > 1) {
+    for (const [key, occurrences] of partNumberMap) {
+        if (occurrences.length < 2) continue;
+
+        const partNumber = occurrences[0].partNumber.trim();
+        const spellings = [...new Set(occurrences.map(row => row.partNumber.trim()))];
+        const spelledDifferently = spellings.length > 1
+            ? ` It is written as ${spellings.slice(0, 5).map(pn => `"${pn}"`).join(', ')}, which normalize to the same part number.`
+            : '';
+
+        const isHierarchical = occurrences.some(row => row.level !== null);
+        if (!isHierarchical) {
+            const refs = occurrences.map(rowRef);
             risks.push({
-                id: `duplicate-${partNumber}-${Date.now()}`,
+                id: riskId('duplicate', key),
                 type: 'duplicate',
                 level: 'medium',
                 title: `Duplicate Part Number: ${partNumber}`,
-                description: `Part number "${partNumber}" appears ${rowNumbers.length} times in the document.`,
-                affectedRows: rowNumbers,
+                description: `Part number "${partNumber}" appears ${refs.length} times in the document.${spelledDifferently}`,
+                affectedRows: refs,
                 extractedValue: partNumber,
                 recommendation: 'Consider consolidating duplicate line items to avoid over-ordering or pricing errors.',
             });
+            continue;
+        }
+
+        // Group by parent assembly; different parents are where-used, not duplicates
+        const byParent = new Map<string, ParsedRow[]>();
+        for (const row of occurrences) {
+            const key = `${row.sheetName}:${row.parentRowNumber ?? 'top'}`;
+            byParent.set(key, [...(byParent.get(key) ?? []), row]);
+        }
+
+        for (const siblings of byParent.values()) {
+            if (siblings.length < 2) continue;
+
+            const rowNumbers = siblings.map(row => row.rowNumber);
+            const parentRow = siblings[0].parentRowNumber;
+            const whereUsed = byParent.size > 1
+                ? ` It is also used in ${byParent.size - 1} other assembl${byParent.size === 2 ? 'y' : 'ies'}, which is expected.`
+                : '';
+            risks.push({
+                id: riskId('duplicate', key, siblings[0].sheetName, parentRow),
+                type: 'duplicate',
+                level: 'medium',
+                title: `Duplicate Part Number: ${partNumber}`,
+                description: `Part number "${partNumber}" appears ${rowNumbers.length} times ${parentRow !== null ? `under the assembly in row ${parentRow}` : 'at the top level'}.${whereUsed}${spelledDifferently}`,
+                affectedRows: siblings.map(rowRef),
+                extractedValue: partNumber,
+                recommendation: 'Consolidate the repeated lines within this assembly, or confirm they are intentionally separate (e.g. different reference designators).',
+            });
         }
     }
 
     return risks;
 }
 
+// Wording per kind of conversion Excel applied to a part number cell
+const CORRUPTION_TEXT: Record<PartNumberCorruptionKind, { title: string; describe: (found: CorruptedPartNumber) => string; recommendation: string }> = {
+    date: {
+        title: 'Part Numbers Converted to Dates',
+        describe: ({ row, shown, stored, candidates }) => `Row ${row.rowNumber}: "${shown}" is stored as the date ${stored}; probably entered as ${candidates.map(c => `"${c}"`).join(' or ')}`,
+        recommendation: 'Excel cannot undo this conversion. Ask the customer for the original part numbers, or for the file exported with the part number column formatted as Text.',
+    },
+    scientific: {
+        title: 'Part Numbers in Scientific Notation',
+        describe: ({ row, shown, stored, recoverable }) => `Row ${row.rowNumber}: shown as "${shown}", stored as ${stored}${recoverable ? '' : ' (digits past the fifteenth are lost)'}`,
+        recommendation: 'Use the stored digits as the part number where they are complete; if the file was exported from another system, confirm them with the customer, as the digits may have been rounded before Excel saw them.',
+    },
+    precision: {
+        title: 'Part Numbers Longer Than Excel Can Store',
+        describe: ({ row, shown }) => `Row ${row.rowNumber}: "${shown}" was stored as a number, so every digit past the fifteenth is now zero`,
+        recommendation: 'Ask the customer for the original part numbers, or for the file exported with the part number column formatted as Text.',
+    },
+    leading_zeros: {
+        title: 'Part Numbers Missing Leading Zeros',
+        describe: ({ row, shown, candidates }) => `Row ${row.rowNumber}: stored as the number ${shown}; other part numbers in the file are zero-padded, so it was probably "${candidates[0]}"`,
+        recommendation: 'Restore the leading zeros (or confirm the part numbers with the customer) before matching against the catalog.',
+    },
+};
+
+/**
+ * Flag part numbers Excel converted when they were entered: dates, scientific
+ * notation, digits past the fifteenth, and lost leading zeros. One flag per
+ * kind, listing each row with the value Excel stored.
+ */
+export function detectCorruptedPartNumbers(rows: ParsedRow[]): RiskFlag[] {
+    const byKind = new Map<PartNumberCorruptionKind, CorruptedPartNumber[]>();
+    for (const found of findCorruptedPartNumbers(rows)) {
+        byKind.set(found.kind, [...(byKind.get(found.kind) ?? []), found]);
+    }
+
+    return [...byKind].map(([kind, found]) => {
+        const text = CORRUPTION_TEXT[kind];
+        const lost = found.some(f => !f.recoverable);
+        return {
+            id: riskId(`pn-${kind.replace('_', '-')}`),
+            type: 'part_number' as const,
+            level: lost ? 'high' as const : 'medium' as const,
+            title: `${text.title} (${found.length} row${found.length > 1 ? 's' : ''})`,
+            description: `${found.slice(0, 5).map(text.describe).join('; ')}${found.length > 5 ? '; …' : '.'}`,
+            affectedRows: found.map(f => rowRef(f.row)),
+            extractedValue: `${found[0].shown} (stored: ${found[0].stored})`,
+            recommendation: text.recommendation,
+        };
+    });
+}
+
 /**
- * Detect potential UoM conflicts
+ * Flag rows the part catalog does not know, rows matched only approximately,
+ * and matched rows whose description disagrees with the catalog's. Catalog
+ * contents stay out of the flags, which are shared with the AI assistant;
+ * the matched items are shown in the results table.
  */
-export function detectUoMConflicts(rows: ParsedRow[]): RiskFlag[] {
+export function detectCatalogMismatches(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
     const risks: RiskFlag[] = [];
+    const looked = rows.filter(row => row.catalogMatch !== null);
+    const list = (found: ParsedRow[], describe: (row: ParsedRow) => string) =>
+        `${found.slice(0, 5).map(describe).join('; ')}${found.length > 5 ? '; …' : '.'}`;
 
-    // Common UoM mismatches
-    const conflictPairs: [string[], string[]][] = [
-        [['each', 'ea', 'pc', 'pcs', 'piece', 'pieces'], ['box', 'case', 'pack', 'pkg', 'carton']],
-        [['feet', 'ft', 'foot'], ['meter', 'm', 'meters', 'reel', 'roll']],
-        [['kg', 'kilogram', 'kilograms'], ['lb', 'lbs', 'pound', 'pounds']],
-        [['liter', 'liters', 'l'], ['gallon', 'gal', 'gallons']],
-    ];
+    const unknown = looked.filter(row => row.catalogMatch?.entry === null && row.partNumber.trim());
+    if (unknown.length > 0) {
+        risks.push({
+            id: riskId('catalog-unknown'),
+            type: 'catalog',
+            level: unknown.length > 5 ? 'high' : 'medium',
+            title: `Parts Not in Catalog (${unknown.length} row${unknown.length > 1 ? 's' : ''})`,
+            description: `No catalog item matches ${list(unknown, row => `row ${row.rowNumber} "${row.partNumber.trim()}"`)}`,
+            affectedRows: unknown.map(rowRef),
+            extractedValue: unknown[0].partNumber.trim(),
+            recommendation: 'Check for typos or customer part numbers that need cross-referencing; new items need costing and setup before they can be quoted.',
+        });
+    }
+
+    const approximate = looked.filter(row => row.catalogMatch?.method === 'fuzzy' || row.catalogMatch?.method === 'description');
+    if (approximate.length > 0) {
+        risks.push({
+            id: riskId('catalog-fuzzy'),
+            type: 'catalog',
+            level: 'low',
+            title: `Approximate Catalog Matches (${approximate.length} row${approximate.length > 1 ? 's' : ''})`,
+            description: `These rows matched a catalog item only approximately: ${list(approximate, row =>
+                `row ${row.rowNumber} ${row.partNumber.trim() ? `"${row.partNumber.trim()}"` : 'by description'} (${Math.round((row.catalogMatch?.confidence ?? 0) * 100)}% confidence)`)}`,
+            affectedRows: approximate.map(rowRef),
+            extractedValue: approximate[0].partNumber.trim() || approximate[0].description.trim(),
+            recommendation: 'Confirm the suggested catalog item shown in the results table before quoting it.',
+        });
+    }
+
+    const mismatched = looked.filter(row => {
+        const match = row.catalogMatch;
+        return match?.entry && match.method !== 'description' && match.descriptionSimilarity !== null
+            && match.descriptionSimilarity < thresholds.catalog.descriptionMismatchScore;
+    });
+    if (mismatched.length > 0) {
+        risks.push({
+            id: riskId('catalog-description'),
+            type: 'catalog',
+            level: 'medium',
+            title: `Descriptions Differ From Catalog (${mismatched.length} row${mismatched.length > 1 ? 's' : ''})`,
+            description: `The part number matches a catalog item but the description does not: ${list(mismatched, row =>
+                `row ${row.rowNumber} "${row.partNumber.trim()}" (${Math.round((row.catalogMatch?.descriptionSimilarity ?? 0) * 100)}% similar)`)}`,
+            affectedRows: mismatched.map(rowRef),
+            extractedValue: mismatched[0].partNumber.trim(),
+            recommendation: 'The customer may have the wrong part number or an outdated description. Compare with the catalog description in the results table and confirm which item is meant.',
+        });
+    }
+
+    return risks;
+}
+
+const LIFECYCLE_TEXT: Record<Exclude<LifecycleStatus, 'active'>, { title: string; state: string; recommendation: (entry: LifecycleEntry) => string }> = {
+    nrnd: {
+        title: 'Part Not Recommended for New Designs',
+        state: 'not recommended for new designs',
+        recommendation: entry => entry.replacement
+            ? `Quote it, but propose the successor ${entry.replacement} for new designs and tell the customer the part is heading for end of life.`
+            : 'Quote it, but tell the customer the part is heading for end of life and check long-term supply before committing to delivery schedules.',
+    },
+    last_time_buy: {
+        title: 'Last-Time-Buy Part',
+        state: 'in its last-time-buy window',
+        recommendation: entry => `Only quote quantities that can be ordered${entry.lastTimeBuyDate ? ` by ${entry.lastTimeBuyDate}` : ' before the last-time-buy date'}; ${entry.replacement
+            ? `offer the successor ${entry.replacement} for anything beyond that.`
+            : 'no successor is listed, so confirm the customer\'s lifetime demand.'}`,
+    },
+    obsolete: {
+        title: 'Obsolete Part',
+        state: 'obsolete',
+        recommendation: entry => entry.replacement
+            ? `Do not quote it as is: offer the successor ${entry.replacement} and confirm it with the customer, or quote remaining stock only.`
+            : 'Do not quote it as is: no successor is listed, so ask engineering for an alternative or quote remaining stock only.',
+    },
+};
+
+/**
+ * Flag rows quoting parts the lifecycle list marks NRND, last-time buy or
+ * obsolete: one flag per row, so each can be remediated and reviewed on its own
+ */
+export function detectLifecycleIssues(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    return rows.flatMap(row => {
+        const entry = row.lifecycle;
+        if (!entry || entry.status === 'active') return [];
+
+        const text = LIFECYCLE_TEXT[entry.status];
+        const partNumber = row.partNumber.trim();
+        const details = [
+            entry.lastTimeBuyDate ? `last-time-buy date ${entry.lastTimeBuyDate}` : '',
+            entry.replacement ? `successor ${entry.replacement}` : 'no successor listed',
+            entry.note,
+        ].filter(Boolean).join('; ');
+
+        return [{
+            id: riskId('lifecycle', row.sheetName, row.rowNumber, partNumber),
+            type: 'lifecycle' as const,
+            level: thresholds.lifecycleLevels[entry.status],
+            title: `${text.title}: ${partNumber}`,
+            description: `Row ${row.rowNumber} quotes "${partNumber}", which is ${text.state} (${details}).`,
+            affectedRows: [rowRef(row)],
+            extractedValue: partNumber,
+            recommendation: text.recommendation(entry),
+        }];
+    });
+}
+
+function describeOrderRules({ rules }: OrderQuantityIssue): string {
+    return [
+        rules.moq !== null ? `MOQ ${rules.moq.toLocaleString('en-US')}` : '',
+        rules.packMultiple !== null ? `multiples of ${rules.packMultiple.toLocaleString('en-US')}` : '',
+    ].filter(Boolean).join(', ');
+}
+
+/**
+ * Flag requested quantities below the minimum order quantity or not in whole
+ * pack multiples, with the quantity they round up to, and rows whose catalog
+ * values could not be converted to their unit
+ */
+export function detectOrderQuantityIssues(rows: ParsedRow[]): RiskFlag[] {
+    const risks: RiskFlag[] = [];
+    const issues = findOrderQuantityIssues(rows);
+    const list = (found: OrderQuantityIssue[]) =>
+        `${found.slice(0, 5).map(issue =>
+            `row ${issue.row.rowNumber} "${issue.row.partNumber.trim()}" ${issue.requested.toLocaleString('en-US')} → ${issue.quoted.toLocaleString('en-US')} (${describeOrderRules(issue)})`
+        ).join('; ')}${found.length > 5 ? '; …' : '.'}`;
+
+    const belowMoq = issues.filter(issue => issue.kind === 'below_moq');
+    if (belowMoq.length > 0) {
+        risks.push({
+            id: riskId('moq-below'),
+            type: 'order_quantity',
+            level: 'medium',
+            title: `Quantities Below MOQ (${belowMoq.length} row${belowMoq.length > 1 ? 's' : ''})`,
+            description: `Requested quantities are below the minimum order quantity and were rounded up for the quote: ${list(belowMoq)}`,
+            affectedRows: belowMoq.map(issue => rowRef(issue.row)),
+            extractedValue: `${belowMoq[0].requested} (MOQ ${belowMoq[0].rules.moq})`,
+            recommendation: 'Quote the rounded-up quantity and tell the customer about the MOQ, or price the small quantity with a surcharge. Make sure the extra cost is in the price.',
+        });
+    }
+
+    const packs = issues.filter(issue => issue.kind === 'pack_multiple');
+    if (packs.length > 0) {
+        risks.push({
+            id: riskId('pack-multiple'),
+            type: 'order_quantity',
+            level: 'low',
+            title: `Quantities Not in Pack Multiples (${packs.length} row${packs.length > 1 ? 's' : ''})`,
+            description: `Requested quantities are not whole packs and were rounded up to the next pack for the quote: ${list(packs)}`,
+            affectedRows: packs.map(issue => rowRef(issue.row)),
+            extractedValue: `${packs[0].requested} (multiples of ${packs[0].rules.packMultiple})`,
+            recommendation: 'Quote full packs, or confirm that breaking a pack (cut tape, loose pieces) is possible and priced accordingly.',
+        });
+    }
+
+    const unconvertible = findUnconvertibleOrderRules(rows);
+    if (unconvertible.length > 0) {
+        risks.push({
+            id: riskId('moq-unit-mismatch'),
+            type: 'order_quantity',
+            level: 'medium',
+            title: `MOQ / Pack Multiple Not Checked (${unconvertible.length} row${unconvertible.length > 1 ? 's' : ''})`,
+            description: `The catalog states the MOQ or pack multiple in a unit that does not convert to the row's unit, so these quantities were quoted as requested: ${unconvertible.slice(0, 5).map(({ row, catalogUnit }) =>
+                `row ${row.rowNumber} "${row.partNumber.trim()}" in ${row.unitOfMeasure.trim() || 'no unit'}, catalog in ${catalogUnit}`
+            ).join('; ')}${unconvertible.length > 5 ? '; …' : '.'}`,
+            affectedRows: unconvertible.map(({ row }) => rowRef(row)),
+            extractedValue: `${unconvertible[0].row.unitOfMeasure.trim() || 'no unit'} vs ${unconvertible[0].catalogUnit}`,
+            recommendation: 'Check the quantities against the supplier\'s MOQ and pack size by hand, or state the pack size in the unit (e.g. "BOX/100") so it converts.',
+        });
+    }
+
+    return risks;
+}
+
+/**
+ * Check the priced rows against the minimum margin: rows sold below cost are
+ * critical, rows under the minimum high. Once any row is costed, rows missing
+ * from the price book are reported too, since the quote total leaves them out;
+ * so are rows costed in a unit their own doesn't convert to.
+ */
+export function detectMarginIssues(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const risks: RiskFlag[] = [];
+    const { minPercent } = thresholds.margins;
+    const priced = rows.flatMap(row => (row.pricing ? [{ row, pricing: row.pricing }] : []));
+
+    const unconvertible = rows.filter(hasUnconvertibleCost);
+    if (unconvertible.length > 0) {
+        risks.push({
+            id: riskId('cost-unit-mismatch'),
+            type: 'margin',
+            level: 'medium',
+            title: `Price Book Unit Does Not Match (${unconvertible.length} row${unconvertible.length > 1 ? 's' : ''})`,
+            description: `The price book costs these parts in a unit that does not convert to the row's unit, so they are not priced and not in the quote total: ${unconvertible.slice(0, 5).map(row =>
+                `row ${row.rowNumber} "${row.partNumber.trim()}" in ${row.unitOfMeasure.trim() || 'no unit'}, price book per ${row.cost?.unitOfMeasure.trim() || BASE_UNITS.count}`
+            ).join('; ')}${unconvertible.length > 5 ? '; …' : '.'}`,
+            affectedRows: unconvertible.map(rowRef),
+            extractedValue: `${unconvertible[0].unitOfMeasure.trim() || 'no unit'} vs ${unconvertible[0].cost?.unitOfMeasure.trim() || BASE_UNITS.count}`,
+            recommendation: 'Price these rows by hand, or state the pack size in the unit (e.g. "BOX/100") so it converts to the price book\'s unit.',
+        });
+    }
+
+    if (priced.length === 0) return risks;
+
+    const list = (found: typeof priced) =>
+        `${found.slice(0, 5).map(({ row, pricing }) =>
+            `row ${row.rowNumber} "${row.partNumber.trim()}" at ${formatPrice(pricing.sellPrice, pricing.currency)} (${pricing.marginPercent}% margin)`
+        ).join('; ')}${found.length > 5 ? '; …' : '.'}`;
+
+    const belowCost = priced.filter(({ pricing }) => pricing.marginPercent < 0);
+    if (belowCost.length > 0) {
+        risks.push({
+            id: riskId('margin-negative'),
+            type: 'margin',
+            level: 'critical',
+            title: `Priced Below Cost (${belowCost.length} row${belowCost.length > 1 ? 's' : ''})`,
+            description: `The pricing rules sell these items for less than their price book cost: ${list(belowCost)}`,
+            affectedRows: belowCost.map(({ row }) => rowRef(row)),
+            extractedValue: `${belowCost[0].pricing.marginPercent}%`,
+            recommendation: 'Check the markup or margin of the pricing rule and the cost in the price book before the quote goes out.',
+        });
+    }
+
+    const belowMinimum = priced.filter(({ pricing }) => pricing.marginPercent >= 0 && pricing.marginPercent < minPercent);
+    if (belowMinimum.length > 0) {
+        risks.push({
+            id: riskId('margin-below'),
+            type: 'margin',
+            level: 'high',
+            title: `Margin Below ${minPercent}% (${belowMinimum.length} row${belowMinimum.length > 1 ? 's' : ''})`,
+            description: `These items are priced below the minimum margin of ${minPercent}%: ${list(belowMinimum)}`,
+            affectedRows: belowMinimum.map(({ row }) => rowRef(row)),
+            extractedValue: `${belowMinimum[0].pricing.marginPercent}%`,
+            recommendation: `Raise the price to at least a ${minPercent}% margin, or get approval for the lower margin (e.g. a strategic volume deal).`,
+        });
+    }
+
+    const uncosted = rows.filter(row => row.cost === null && row.partNumber.trim());
+    if (uncosted.length > 0) {
+        risks.push({
+            id: riskId('cost-missing'),
+            type: 'margin',
+            level: 'low',
+            title: `Parts Not in the Price Book (${uncosted.length} row${uncosted.length > 1 ? 's' : ''})`,
+            description: `These parts have no cost in the price book, so they are not priced and not in the quote total: ${uncosted.slice(0, 5).map(row => `row ${row.rowNumber} "${row.partNumber.trim()}"`).join(', ')}${uncosted.length > 5 ? ', …' : '.'}`,
+            affectedRows: uncosted.map(rowRef),
+            extractedValue: uncosted[0].partNumber.trim(),
+            recommendation: 'Get a cost for these parts (supplier quote or ERP) and add them to the price book, or price them by hand.',
+        });
+    }
+
+    return risks;
+}
+
+// Bulk packs where a very large count usually means pieces were entered as packs
+const BULK_UNITS = new Set(['REEL', 'ROLL', 'DRUM', 'PAL']);
+
+/**
+ * Check units of measure against the unit catalog: unknown units, quantities
+ * implausible for their unit, and the same part quoted in different units
+ */
+export function detectUoMConflicts(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const risks: RiskFlag[] = [];
+    const unknown: ParsedRow[] = [];
 
     for (const row of rows) {
-        if (!row.unitOfMeasure) continue;
-
-        const uom = row.unitOfMeasure.toLowerCase().trim();
-
-        // Check if quantity seems wrong for UoM
-        if (row.quantity !== null) {
-            // Very high quantities with bulk UoM might be an error
-            if (row.quantity > 10000 && ['reel', 'roll', 'drum', 'pallet'].some(u => uom.includes(u))) {
-                risks.push({
-                    id: `uom-quantity-${row.rowNumber}-${Date.now()}`,
-                    type: 'uom_conflict',
-                    level: 'medium',
-                    title: `Unusually High Quantity for UoM`,
-                    description: `Row ${row.rowNumber}: Quantity of ${row.quantity} ${row.unitOfMeasure} seems unusual. Verify this is not a unit conversion error.`,
-                    affectedRows: [row.rowNumber],
-                    extractedValue: `${row.quantity} ${row.unitOfMeasure}`,
-                    recommendation: 'Confirm with customer whether quantity is per unit or total. Check if UoM conversion is needed.',
-                });
-            }
+        if (!row.unitOfMeasure.trim()) continue;
 
-            // Fractional quantities with "each" might be an error
-            if (!Number.isInteger(row.quantity) && ['each', 'ea', 'pc', 'pcs'].some(u => uom.includes(u))) {
-                risks.push({
-                    id: `uom-fraction-${row.rowNumber}-${Date.now()}`,
-                    type: 'uom_conflict',
-                    level: 'low',
-                    title: `Fractional Quantity for Discrete UoM`,
-                    description: `Row ${row.rowNumber}: Quantity ${row.quantity} with UoM "${row.unitOfMeasure}" - fractional quantities for discrete units may indicate data entry error.`,
-                    affectedRows: [row.rowNumber],
-                    extractedValue: `${row.quantity} ${row.unitOfMeasure}`,
-                    recommendation: 'Verify quantity is correct. Round up if selling individual items.',
-                });
-            }
+        const unit = parseUnit(row.unitOfMeasure);
+        if (!unit) {
+            unknown.push(row);
+            continue;
+        }
+        if (row.quantity === null) continue;
+
+        // Very high quantities with bulk UoM might be an error
+        if (row.quantity > thresholds.uom.maxBulkQuantity && BULK_UNITS.has(unit.code)) {
+            risks.push({
+                id: riskId('uom-quantity', row.sheetName, row.rowNumber, row.unitOfMeasure),
+                type: 'uom_conflict',
+                level: 'medium',
+                title: `Unusually High Quantity for UoM`,
+                description: `Row ${row.rowNumber}: Quantity of ${row.quantity} ${row.unitOfMeasure} seems unusual. Verify this is not a unit conversion error.`,
+                affectedRows: [rowRef(row)],
+                extractedValue: `${row.quantity} ${row.unitOfMeasure}`,
+                recommendation: 'Confirm with customer whether quantity is per unit or total. Check if UoM conversion is needed.',
+            });
+        }
+
+        // Fractional quantities of pieces or packs might be an error
+        if (!Number.isInteger(row.quantity) && unit.dimension === 'count') {
+            risks.push({
+                id: riskId('uom-fraction', row.sheetName, row.rowNumber, row.unitOfMeasure),
+                type: 'uom_conflict',
+                level: 'low',
+                title: `Fractional Quantity for Discrete UoM`,
+                description: `Row ${row.rowNumber}: Quantity ${row.quantity} with UoM "${row.unitOfMeasure}" - fractional quantities for discrete units may indicate data entry error.`,
+                affectedRows: [rowRef(row)],
+                extractedValue: `${row.quantity} ${row.unitOfMeasure}`,
+                recommendation: 'Verify quantity is correct. Round up if selling individual items.',
+            });
+        }
+    }
+
+    if (unknown.length > 0) {
+        const units = [...new Set(unknown.map(row => row.unitOfMeasure.trim()))];
+        risks.push({
+            id: riskId('uom-unknown'),
+            type: 'uom_conflict',
+            level: 'low',
+            title: `Unrecognized Units of Measure (${unknown.length} rows)`,
+            description: `${units.slice(0, 5).map(unit => `"${unit}"`).join(', ')}${units.length > 5 ? ', …' : ''} ${units.length === 1 ? 'is' : 'are'} not in the unit catalog, so these quantities cannot be converted to base units or compared with other rows.`,
+            affectedRows: unknown.map(rowRef),
+            extractedValue: units.join(', '),
+            recommendation: 'Confirm the units with the customer, or add them to the mapping profile\'s unit conversions (e.g. "BX=100 EA").',
+        });
+    }
+
+    // The same part quoted in different units
+    const byPart = new Map<string, ParsedRow[]>();
+    for (const row of rows) {
+        if (!row.partNumber.trim() || !row.unitOfMeasure.trim()) continue;
+        const key = normalizePartNumber(row.partNumber, thresholds.partNumbers);
+        byPart.set(key, [...(byPart.get(key) ?? []), row]);
+    }
+    for (const [key, occurrences] of byPart) {
+        const partNumber = occurrences[0].partNumber.trim();
+        const units = occurrences
+            .map(row => ({ row, unit: parseUnit(row.unitOfMeasure) }))
+            .filter((entry): entry is { row: ParsedRow; unit: ParsedUnit } => entry.unit !== null);
+        const codes = [...new Set(units.map(({ row }) => row.unitOfMeasure.trim().toUpperCase()))];
+        if (codes.length < 2) continue;
+
+        const dimensions = [...new Set(units.map(({ unit }) => unit.dimension))];
+        const unsized = units.filter(({ unit }) => unit.factor === null);
+        const affectedRows = units.map(({ row }) => rowRef(row));
+        const stated = units.map(({ row }) => `row ${row.rowNumber} ${row.quantity ?? '?'} ${row.unitOfMeasure.trim()}`).join(', ');
+
+        if (dimensions.length > 1) {
+            risks.push({
+                id: riskId('uom-incompatible', key),
+                type: 'uom_conflict',
+                level: 'high',
+                title: `Part ${partNumber} Quoted in Incompatible Units`,
+                description: `Part number "${partNumber}" is quoted by ${dimensions.join(' and by ')}: ${stated}. These units cannot be converted into each other.`,
+                affectedRows,
+                extractedValue: codes.join(', '),
+                recommendation: 'Ask the customer for one unit of measure for this part (and the conversion, e.g. weight per meter) before pricing.',
+            });
+        } else if (unsized.length > 0) {
+            risks.push({
+                id: riskId('uom-pack-size', key),
+                type: 'uom_conflict',
+                level: 'medium',
+                title: `Part ${partNumber} Quoted in Packs of Unknown Size`,
+                description: `Part number "${partNumber}" is quoted in different units (${stated}), and the size of ${[...new Set(unsized.map(({ row }) => row.unitOfMeasure.trim()))].join(', ')} is not stated, so the rows cannot be added up.`,
+                affectedRows,
+                extractedValue: codes.join(', '),
+                recommendation: 'Confirm the pack size (e.g. "BOX/100") or add it to the mapping profile\'s unit conversions.',
+            });
+        } else {
+            const baseUnit = units.find(({ row }) => row.baseUnit)?.row.baseUnit ?? '';
+            const total = units.reduce((sum, { row }) => sum + (row.baseQuantity ?? 0), 0);
+            risks.push({
+                id: riskId('uom-mixed', key),
+                type: 'uom_conflict',
+                level: 'low',
+                title: `Part ${partNumber} Quoted in Mixed Units`,
+                description: `Part number "${partNumber}" is quoted in ${codes.join(' and ')} (${stated}). Converted, the rows add up to ${Number(total.toPrecision(12)).toLocaleString()} ${baseUnit}.`,
+                affectedRows,
+                extractedValue: codes.join(', '),
+                recommendation: 'Consolidate the rows in one unit of measure so quantities and prices are compared like for like.',
+            });
         }
     }
 
@@ -208,21 +715,22 @@ export function detectUoMConflicts(rows: ParsedRow[]): RiskFlag[] {
  */
 export function detectMissingData(rows: ParsedRow[]): RiskFlag[] {
     const risks: RiskFlag[] = [];
-    const rowsWithMissingPN: number[] = [];
-    const rowsWithMissingQty: number[] = [];
+    const rowsWithMissingPN: RowRef[] = [];
+    const rowsWithMissingQty: RowRef[] = [];
 
-    for (const row of rows) {
+    // Totals rows are not items: they have no part number by design
+    for (const row of rows.filter(row => !isTotalsRow(row))) {
         if (!row.partNumber || row.partNumber.trim() === '') {
-            rowsWithMissingPN.push(row.rowNumber);
+            rowsWithMissingPN.push(rowRef(row));
         }
         if (row.quantity === null || row.quantity === undefined) {
-            rowsWithMissingQty.push(row.rowNumber);
+            rowsWithMissingQty.push(rowRef(row));
         }
     }
 
     if (rowsWithMissingPN.length > 0) {
         risks.push({
-            id: `missing-pn-${Date.now()}`,
+            id: riskId('missing-pn'),
             type: 'missing_data',
             level: rowsWithMissingPN.length > 5 ? 'high' : 'medium',
             title: `Missing Part Numbers (${rowsWithMissingPN.length} rows)`,
@@ -234,7 +742,7 @@ export function detectMissingData(rows: ParsedRow[]): RiskFlag[] {
 
     if (rowsWithMissingQty.length > 0) {
         risks.push({
-            id: `missing-qty-${Date.now()}`,
+            id: riskId('missing-qty'),
             type: 'missing_data',
             level: 'medium',
             title: `Missing Quantities (${rowsWithMissingQty.length} rows)`,
@@ -248,16 +756,844 @@ export function detectMissingData(rows: ParsedRow[]): RiskFlag[] {
 }
 
 /**
- * Run all risk detection algorithms
+ * Detect files that quote prices in more than one currency
+ */
+export function detectCurrencyMismatch(rows: ParsedRow[]): RiskFlag[] {
+    const rowsByCurrency = new Map<string, RowRef[]>();
+
+    for (const row of rows) {
+        if (!row.currency) continue;
+        const existing = rowsByCurrency.get(row.currency) || [];
+        existing.push(rowRef(row));
+        rowsByCurrency.set(row.currency, existing);
+    }
+
+    if (rowsByCurrency.size < 2) {
+        return [];
+    }
+
+    // Rows outside the dominant currency are the ones to check
+    const ranked = [...rowsByCurrency.entries()].sort((a, b) => b[1].length - a[1].length);
+    const [primaryCurrency] = ranked[0];
+    const otherRows = ranked.slice(1).flatMap(([, refs]) => refs);
+    const breakdown = ranked.map(([code, refs]) => `${code} (${refs.length} rows)`).join(', ');
+
+    return [{
+        id: riskId('currency-mismatch', [...rowsByCurrency.keys()].sort()),
+        type: 'currency_mismatch',
+        level: 'high',
+        title: `Mixed Currencies Detected (${rowsByCurrency.size} currencies)`,
+        description: `Prices in this file are stated in more than one currency: ${breakdown}. Totals and comparisons across rows are not meaningful until prices are converted.`,
+        affectedRows: otherRows,
+        extractedValue: ranked.map(([code]) => code).join(', '),
+        recommendation: `Confirm the quote currency with the customer and convert non-${primaryCurrency} rows at an agreed exchange rate before pricing.`,
+    }];
+}
+
+/**
+ * Whether a stated amount agrees with a computed one within ARITHMETIC_TOLERANCE.
+ * `roundingUnits` widens the band for unit prices rounded to cents (qty × ±0.005).
+ */
+function amountsAgree(stated: number, computed: number, roundingUnits: number = 0): boolean {
+    const allowed = Math.max(
+        ARITHMETIC_TOLERANCE.absolute,
+        Math.abs(computed) * ARITHMETIC_TOLERANCE.relative,
+        Math.abs(roundingUnits) * 0.005
+    );
+    return Math.abs(stated - computed) <= allowed;
+}
+
+function formatAmount(value: number): string {
+    return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Detect rows where quantity × unit price disagrees with the stated extended price
+ */
+export function detectExtendedPriceMismatch(rows: ParsedRow[]): RiskFlag[] {
+    const mismatches: { row: ParsedRow; expected: number; deviation: number }[] = [];
+
+    for (const row of rows) {
+        if (row.quantity === null || row.unitPrice === null || row.extendedPrice === null) continue;
+
+        const expected = row.quantity * row.unitPrice;
+        if (amountsAgree(row.extendedPrice, expected, row.quantity)) continue;
+
+        const deviation = expected === 0 ? Infinity : Math.abs(row.extendedPrice - expected) / Math.abs(expected);
+        mismatches.push({ row, expected, deviation });
+    }
+
+    if (mismatches.length === 0) {
+        return [];
+    }
+
+    const examples = mismatches.slice(0, 3).map(({ row, expected }) =>
+        `Row ${row.rowNumber}: ${row.quantity} × ${formatAmount(row.unitPrice!)} = ${formatAmount(expected)}, stated ${formatAmount(row.extendedPrice!)}`
+    );
+    const worst = Math.max(...mismatches.map(m => m.deviation));
+
+    return [{
+        id: riskId('arithmetic-extended'),
+        type: 'arithmetic',
+        level: worst > 0.1 ? 'high' : 'medium',
+        title: `Extended Price Mismatch (${mismatches.length} rows)`,
+        description: `Quantity × unit price does not match the stated extended price. ${examples.join('; ')}${mismatches.length > 3 ? '; …' : '.'}`,
+        affectedRows: mismatches.map(m => rowRef(m.row)),
+        extractedValue: examples[0],
+        recommendation: 'Confirm with the customer whether the unit price or the extended price is authoritative (check for per-pack pricing or a missing discount).',
+    }];
+}
+
+// Labels for document totals, anchored to the start of a cell ("Grand Total:", "Sub-total")
+const TOTAL_LABEL_PATTERN = /^\s*(grand\s+total|sub-?\s*total|(?:quote|order|net)\s+total|total(?:\s+(?:amount|price|value|due|cost))?)\b\s*:?/i;
+
+/**
+ * Find totals stated in the document text, e.g. a "Grand Total" row below the line items
  */
-export function analyzeAllRisks(rawText: string, rows: ParsedRow[]): RiskFlag[] {
-    const allRisks: RiskFlag[] = [
-        ...detectIncoterms(rawText),
-        ...detectLiquidatedDamages(rawText),
-        ...detectDuplicates(rows),
-        ...detectUoMConflicts(rows),
-        ...detectMissingData(rows),
+function findStatedTotals(rawText: string): { label: string; kind: 'subtotal' | 'total' | 'grand'; value: unknown }[] {
+    const found: { label: string; kind: 'subtotal' | 'total' | 'grand'; value: unknown }[] = [];
+
+    for (const line of rawText.split('\n')) {
+        const cells = line.split('\t');
+        const labelIndex = cells.findIndex(cell => TOTAL_LABEL_PATTERN.test(cell));
+        if (labelIndex === -1) continue;
+        // A real totals row carries only the label and amounts; skip line items like "Total station"
+        if (cells.some((cell, i) => i !== labelIndex && /[a-z]{4,}/i.test(cell))) continue;
+
+        const label = cells[labelIndex].match(TOTAL_LABEL_PATTERN)![1];
+        // The amount is either inline ("Total: 1,234.00") or the last non-empty cell on the row
+        const inline = cells[labelIndex].replace(TOTAL_LABEL_PATTERN, '').trim();
+        const trailing = cells.slice(labelIndex + 1).map(cell => cell.trim()).filter(cell => /\d/.test(cell));
+        const value = /\d/.test(inline) ? inline : trailing[trailing.length - 1];
+        if (value === undefined) continue;
+
+        const lower = label.toLowerCase();
+        found.push({
+            label,
+            kind: lower.startsWith('sub') ? 'subtotal' : lower.startsWith('grand') ? 'grand' : 'total',
+            value,
+        });
+    }
+
+    return found;
+}
+
+/**
+ * A totals or subtotals row among the line items: no part number, a total label in
+ * one of its cells and nothing else worded on the row (amounts and counts only)
+ */
+export function isTotalsRow(row: ParsedRow): boolean {
+    if (row.partNumber.trim() !== '') return false;
+
+    const cells = Object.values(row.rawData).map(value => String(value ?? '').trim()).filter(Boolean);
+    const labelIndex = cells.findIndex(cell => TOTAL_LABEL_PATTERN.test(cell));
+    return labelIndex !== -1 && !cells.some((cell, i) => i !== labelIndex && /[a-z]{4,}/i.test(cell));
+}
+
+/**
+ * Compare the sum of line amounts against any subtotal / grand total stated in the document
+ */
+export function detectTotalMismatch(rawText: string, rows: ParsedRow[]): RiskFlag[] {
+    // Mixed currencies are reported separately; their sum means nothing
+    if (new Set(rows.map(row => row.currency).filter(Boolean)).size > 1) {
+        return [];
+    }
+
+    // Summary rows ("Total" in the description column) have neither a part number nor a quantity
+    const lineItems = rows.filter(row => (row.partNumber.trim() !== '' || row.quantity !== null) && !isTotalsRow(row));
+    const lineAmounts = lineItems
+        .map(row => row.extendedPrice ?? (row.quantity !== null && row.unitPrice !== null ? row.quantity * row.unitPrice : null))
+        .filter((amount): amount is number => amount !== null);
+    if (lineAmounts.length === 0) {
+        return [];
+    }
+
+    const stated = findStatedTotals(rawText);
+    if (stated.length === 0) {
+        return [];
+    }
+
+    const format = inferNumberFormat(stated.map(total => total.value));
+    const totals = stated
+        .map(total => ({ ...total, amount: parseLocaleNumber(total.value, format) }))
+        .filter((total): total is typeof total & { amount: number } => total.amount !== null);
+
+    const computed = lineAmounts.reduce((sum, amount) => sum + amount, 0);
+    if (totals.length === 0 || totals.some(total => amountsAgree(total.amount, computed))) {
+        return [];
+    }
+
+    // Prefer the pre-tax figure; a grand total may legitimately include tax or freight
+    const compared = totals.find(t => t.kind === 'subtotal') ?? totals.find(t => t.kind === 'total') ?? totals[0];
+    const hasSurcharges = compared.kind === 'grand' && /\b(tax|vat|gst|freight|shipping|handling)\b/i.test(rawText);
+
+    return [{
+        id: riskId('arithmetic-total', compared.label, String(compared.value)),
+        type: 'arithmetic',
+        level: hasSurcharges ? 'medium' : 'high',
+        title: `Stated ${compared.label} Does Not Match Line Items`,
+        description: `The document states ${compared.label} = ${formatAmount(compared.amount)}, but the ${lineAmounts.length} priced line items add up to ${formatAmount(computed)} (difference ${formatAmount(compared.amount - computed)}).${hasSurcharges ? ' The document mentions tax or freight, which may explain the difference.' : ''}`,
+        extractedValue: `${compared.label}: ${String(compared.value)}`,
+        recommendation: 'Reconcile the line items with the stated total before quoting. Look for missing, hidden or duplicated rows and unlisted charges.',
+    }];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PRICE ANOMALIES
+// ═══════════════════════════════════════════════════════════════
+
+// "box of 100", "pack of 50", "100/pk", "100 per box"
+const PACK_SIZE_PATTERN = /\b(?:box|pack|pk|pkg|case|bag|reel|carton)\s+of\s+\d+|\b\d+\s*(?:\/\s*|per\s+)(?:box|pack|pk|pkg|case|bag|reel|carton)\b/i;
+
+/**
+ * Value at quantile q of an ascending list, interpolating between neighbours
+ */
+function quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const below = Math.floor(position);
+    const above = Math.ceil(position);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+function formatPrice(value: number, currency: string | null): string {
+    // Sub-unit prices (resistors, screws) keep up to four decimals
+    const amount = Math.abs(value) < 1
+        ? value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+        : formatAmount(value);
+    return `${currency ? `${currency} ` : ''}${amount}`;
+}
+
+// Four significant digits, so ranges for sub-cent parts do not collapse to 0
+function roundPrice(value: number): number {
+    return Number(value.toPrecision(4));
+}
+
+/**
+ * Readable form of a risk's expected range: "0.05 – 583.8", "above 0", "up to 5.5"
+ */
+export function formatExpectedRange({ min, max }: NonNullable<RiskFlag['expectedRange']>): string {
+    if (min !== null && max !== null) return min === max ? String(min) : `${min} – ${max}`;
+    if (min !== null) return `above ${min}`;
+    return max !== null ? `up to ${max}` : 'any';
+}
+
+/**
+ * Flag unit prices that look wrong: zero or negative, outliers among items sold
+ * in the same unit and currency, the same part at different prices, and
+ * pack-priced rows far above the typical per-each price
+ */
+export function detectPriceAnomalies(rows: ParsedRow[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const { outlierIqrMultiplier, minGroupSize, packPriceRatio } = thresholds.prices;
+    const risks: RiskFlag[] = [];
+
+    // Summary rows ("Total" in the description column) have neither a part number nor a quantity
+    const priced = rows.filter(row => row.unitPrice !== null && (row.partNumber.trim() !== '' || row.quantity !== null));
+    const priceOf = (row: ParsedRow) => row.unitPrice as number;
+
+    // 1. Zero and negative prices
+    const negative = priced.filter(row => priceOf(row) < 0);
+    if (negative.length > 0) {
+        risks.push({
+            id: riskId('price-negative'),
+            type: 'price_anomaly',
+            level: 'high',
+            title: `Negative Unit Prices (${negative.length} rows)`,
+            description: `${negative.slice(0, 3).map(row => `Row ${row.rowNumber}: ${formatPrice(priceOf(row), row.currency)}`).join('; ')}${negative.length > 3 ? '; …' : '.'} Unit prices are expected to be above zero.`,
+            affectedRows: negative.map(rowRef),
+            extractedValue: formatPrice(priceOf(negative[0]), negative[0].currency),
+            recommendation: 'Negative lines are usually credits or discounts. Confirm them with the customer and quote them as a separate discount, not as a part.',
+            expectedRange: { min: 0, max: null },
+        });
+    }
+
+    const zero = priced.filter(row => priceOf(row) === 0);
+    if (zero.length > 0) {
+        risks.push({
+            id: riskId('price-zero'),
+            type: 'price_anomaly',
+            level: 'medium',
+            title: `Zero-Priced Line Items (${zero.length} rows)`,
+            description: `Unit price is 0 on row${zero.length > 1 ? 's' : ''} ${zero.slice(0, 10).map(row => row.rowNumber).join(', ')}${zero.length > 10 ? ', …' : ''}. Unit prices are expected to be above zero.`,
+            affectedRows: zero.map(rowRef),
+            extractedValue: '0',
+            recommendation: 'Check whether these items are free of charge, customer-supplied, or simply missing a price.',
+            expectedRange: { min: 0, max: null },
+        });
+    }
+
+    const positive = priced.filter(row => priceOf(row) > 0);
+
+    // 2. The same part at different prices (within one currency)
+    const byPart = new Map<string, ParsedRow[]>();
+    for (const row of positive) {
+        if (!row.partNumber.trim()) continue;
+        const key = `${normalizePartNumber(row.partNumber, thresholds.partNumbers)}|${row.currency ?? ''}`;
+        byPart.set(key, [...(byPart.get(key) ?? []), row]);
+    }
+    for (const [key, occurrences] of byPart) {
+        const prices = occurrences.map(priceOf);
+        const min = Math.min(...prices);
+        const max = Math.max(...prices);
+        if (occurrences.length < 2 || amountsAgree(max, min)) continue;
+
+        const partNumber = occurrences[0].partNumber.trim();
+        const currency = occurrences[0].currency;
+        const units = [...new Set(occurrences.map(row => row.unitOfMeasure?.trim()).filter(Boolean))];
+        risks.push({
+            id: riskId('price-inconsistent', key),
+            type: 'price_anomaly',
+            level: max / min >= 2 ? 'high' : 'medium',
+            title: `Part ${partNumber} Quoted at Different Prices`,
+            description: `Part number "${partNumber}" is priced between ${formatPrice(min, currency)} and ${formatPrice(max, currency)} on ${occurrences.length} rows: ${occurrences.slice(0, 5).map(row => `row ${row.rowNumber} ${formatAmount(priceOf(row))}`).join(', ')}.${units.length > 1 ? ` The rows use different units (${units.join(', ')}), which may explain the difference.` : ''}`,
+            affectedRows: occurrences.map(rowRef),
+            extractedValue: partNumber,
+            recommendation: units.length > 1
+                ? 'Convert the rows to one unit of measure and confirm the price per unit.'
+                : 'Confirm which price is current; one part should carry one price within a quote unless quantity breaks apply.',
+            expectedRange: { min: roundPrice(min), max: roundPrice(max) },
+        });
+    }
+
+    // 3. Pack-priced rows far above the typical per-each price
+    const isPackRow = (row: ParsedRow) => Boolean(parseUnit(row.unitOfMeasure)?.isPack) || PACK_SIZE_PATTERN.test(row.description);
+    const flagged = new Set<ParsedRow>();
+    const byCurrency = new Map<string, ParsedRow[]>();
+    for (const row of positive) {
+        byCurrency.set(row.currency ?? '', [...(byCurrency.get(row.currency ?? '') ?? []), row]);
+    }
+    for (const [currencyKey, currencyRows] of byCurrency) {
+        const eachPrices = currencyRows
+            .filter(row => !isPackRow(row) && (!row.unitOfMeasure.trim() || parseUnit(row.unitOfMeasure)?.code === 'EA'))
+            .map(priceOf)
+            .sort((a, b) => a - b);
+        if (eachPrices.length < 3) continue;
+
+        const typical = quantile(eachPrices, 0.5);
+        const ceiling = typical * packPriceRatio;
+        const suspects = currencyRows.filter(row => isPackRow(row) && priceOf(row) >= ceiling);
+        if (suspects.length === 0) continue;
+
+        const currency = currencyKey || null;
+        suspects.forEach(row => flagged.add(row));
+        risks.push({
+            id: riskId('price-pack', currencyKey),
+            type: 'price_anomaly',
+            level: 'high',
+            title: `Possible Per-Box vs Per-Each Pricing (${suspects.length} rows)`,
+            description: `${suspects.slice(0, 3).map(row => `Row ${row.rowNumber}: ${formatPrice(priceOf(row), currency)} per ${row.unitOfMeasure || 'pack'}`).join('; ')}${suspects.length > 3 ? '; …' : '.'} These pack-priced rows are at least ${packPriceRatio}× the median per-each price of ${formatPrice(typical, currency)}, so the price is probably per box while the quantity may be in pieces (or the reverse).`,
+            affectedRows: suspects.map(rowRef),
+            extractedValue: formatPrice(priceOf(suspects[0]), currency),
+            recommendation: 'Confirm the pack size and whether quantity and price are both per pack or both per piece before extending the line.',
+            expectedRange: { min: null, max: roundPrice(ceiling) },
+        });
+    }
+
+    // 4. Outliers among items sold in the same unit and currency, judged on a log scale
+    const groups = new Map<string, ParsedRow[]>();
+    for (const row of positive) {
+        if (flagged.has(row)) continue;
+        // Aliases of one unit ("pcs", "EA") are the same group
+        const key = `${row.currency ?? ''}|${parseUnit(row.unitOfMeasure)?.code ?? row.unitOfMeasure.trim().toLowerCase()}`;
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+    for (const group of groups.values()) {
+        if (group.length < minGroupSize) continue;
+
+        const logs = group.map(row => Math.log(priceOf(row))).sort((a, b) => a - b);
+        const q1 = quantile(logs, 0.25);
+        const q3 = quantile(logs, 0.75);
+        // A floor of one doubling keeps near-identical prices from making every other price an outlier
+        const spread = Math.max(q3 - q1, Math.LN2) * outlierIqrMultiplier;
+        const min = Math.exp(q1 - spread);
+        const max = Math.exp(q3 + spread);
+
+        const outliers = group.filter(row => priceOf(row) < min || priceOf(row) > max);
+        if (outliers.length === 0) continue;
+
+        const { currency, unitOfMeasure } = group[0];
+        const unit = unitOfMeasure?.trim() ? ` per ${unitOfMeasure.trim()}` : '';
+        const farthest = Math.max(...outliers.map(row => priceOf(row) > max ? priceOf(row) / max : min / priceOf(row)));
+        risks.push({
+            id: riskId('price-outlier', currency, unitOfMeasure?.trim().toLowerCase() ?? null),
+            type: 'price_anomaly',
+            level: farthest >= 10 ? 'high' : 'medium',
+            title: `Price Outliers (${outliers.length} rows${unit})`,
+            description: `${outliers.slice(0, 3).map(row => `Row ${row.rowNumber}: ${formatPrice(priceOf(row), currency)}`).join('; ')}${outliers.length > 3 ? '; …' : '.'} Compared with the ${group.length} items priced${unit} in this file, prices are expected between ${formatPrice(min, currency)} and ${formatPrice(max, currency)}.`,
+            affectedRows: outliers.map(rowRef),
+            extractedValue: formatPrice(priceOf(outliers[0]), currency),
+            recommendation: 'Check these prices for misplaced decimals, a wrong currency or a price for a different quantity.',
+            expectedRange: { min: roundPrice(min), max: roundPrice(max) },
+        });
+    }
+
+    return risks;
+}
+
+/**
+ * Grade payment terms found in the document and in the mapped terms column against the policy
+ */
+export function detectPaymentTerms(
+    rawText: string,
+    rows: ParsedRow[],
+    thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS,
+    termsColumns: Record<string, string | null> = {},
+    cells: TextCell[] = []
+): RiskFlag[] {
+    const risks: RiskFlag[] = [];
+    const policy = thresholds.paymentTerms;
+    const found = extractPaymentTerms(rawText);
+
+    // Per-row terms (e.g. a "Terms" column) point the flags at the rows that state them
+    const rowTerms = rows.flatMap(row => {
+        const termsColumn = termsColumns[row.sheetName];
+        return termsColumn ? [{ row, terms: extractPaymentTerms(String(row.rawData[termsColumn] ?? '')) }] : [];
+    });
+    const rowsWith = (pick: (terms: PaymentTermsExtraction) => boolean) => {
+        const refs = rowTerms.filter(({ terms }) => pick(terms)).map(({ row }) => rowRef(row));
+        return refs.length > 0 ? refs : undefined;
+    };
+
+    // Days sales outstanding: the longest stated term is what we should plan cash for
+    const allDso = [...found.dso, ...rowTerms.flatMap(({ terms }) => terms.dso)];
+    if (allDso.length > 0) {
+        const worst = allDso.reduce((max, term) => term.days > max.days ? term : max);
+        const level: RiskLevel = worst.days >= policy.criticalDays ? 'critical'
+            : worst.days >= policy.highDays ? 'high'
+                : worst.days > policy.targetDays ? 'medium'
+                    : 'low';
+        const others = [...new Set(allDso.map(term => term.text))].filter(text => text !== worst.text);
+        const discountCost = annualizedDiscountCost(worst);
+        const affectedRows = rowsWith(terms => terms.dso.some(term => term.days === worst.days));
+        const source = locateText(cells, worst.text);
+
+        risks.push({
+            id: riskId('payment-terms-dso', worst.text, source?.cellRef),
+            type: 'payment_terms',
+            level,
+            title: `Payment Terms: ${worst.text} (≈${worst.days} days DSO)`,
+            description: [
+                `Normalized to ${worst.days} days sales outstanding against a policy target of ${policy.targetDays} days.`,
+                worst.kind === 'eom' ? 'End-of-month terms add about half a month on average.' : '',
+                discountCost !== null ? `The ${worst.discountPercent}% early-payment discount costs about ${discountCost.toFixed(0)}% annualized if taken.` : '',
+                others.length > 0 ? `Other terms found: ${others.slice(0, 5).join(', ')}.` : '',
+            ].filter(Boolean).join(' '),
+            affectedRows,
+            extractedValue: worst.text,
+            recommendation: level === 'low'
+                ? 'Payment terms are within policy.'
+                : `Counter with Net ${policy.targetDays}, or price in the financing cost of ${worst.days - policy.targetDays} extra days of receivables.`,
+            source,
+        });
+    }
+
+    const retention = [...found.retention, ...rowTerms.flatMap(({ terms }) => terms.retention)];
+    if (retention.length > 0) {
+        const worst = retention.reduce((max, term) => term.percent > max.percent ? term : max);
+        const affectedRows = rowsWith(terms => terms.retention.length > 0);
+        const source = locateText(cells, worst.text);
+        risks.push({
+            id: riskId('payment-terms-retention', worst.text, source?.cellRef),
+            type: 'payment_terms',
+            level: worst.percent > policy.maxRetentionPercent ? 'high' : 'medium',
+            title: `Retention of ${worst.percent}%`,
+            description: `${worst.percent}% of the invoice value is withheld until a later milestone (policy maximum ${policy.maxRetentionPercent}%). Retention is typically released only after acceptance or the warranty period.`,
+            affectedRows,
+            extractedValue: worst.text,
+            recommendation: 'Negotiate a lower retention or replace it with a bank guarantee, and confirm the release trigger and date.',
+            source,
+        });
+    }
+
+    const conditional = [...found.conditional, ...rowTerms.flatMap(({ terms }) => terms.conditional)];
+    if (conditional.length > 0) {
+        const ifPaid = conditional.find(term => term.kind === 'pay_if_paid');
+        const term = ifPaid ?? conditional[0];
+        const affectedRows = rowsWith(terms => terms.conditional.length > 0);
+        const source = locateText(cells, term.text);
+        risks.push({
+            id: riskId('payment-terms-conditional', term.text, source?.cellRef),
+            type: 'payment_terms',
+            level: policy.conditionalPaymentLevel,
+            title: ifPaid ? 'Pay-if-Paid Clause' : 'Pay-when-Paid Clause',
+            description: ifPaid
+                ? 'Payment is conditional on the customer being paid by its own client. If they are never paid, neither are we.'
+                : 'Payment timing depends on when the customer is paid by its own client, so DSO is open-ended.',
+            affectedRows,
+            extractedValue: term.text,
+            recommendation: 'Escalate to finance/legal. Push for fixed payment terms or an outside date for payment regardless of upstream payment.',
+            source,
+        });
+    }
+
+    const milestones = [...found.milestones, ...rowTerms.flatMap(({ terms }) => terms.milestones)];
+    if (milestones.length > 0) {
+        const schedule = [...new Set(milestones.map(term => term.text))];
+        const affectedRows = rowsWith(terms => terms.milestones.length > 0);
+        const source = locateText(cells, schedule[0]);
+        risks.push({
+            id: riskId('payment-terms-milestones', schedule, source?.cellRef),
+            type: 'payment_terms',
+            level: 'medium',
+            title: 'Milestone Payment Schedule',
+            description: `Payment is split across milestones: ${schedule.slice(0, 5).join('; ')}. Cash arrives only as each milestone is accepted.`,
+            affectedRows,
+            extractedValue: schedule[0],
+            recommendation: 'Check that the schedule covers costs as they are incurred, and that acceptance criteria for each milestone are objective.',
+            source,
+        });
+    }
+
+    return risks;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CONTRACT CLAUSES
+// ═══════════════════════════════════════════════════════════════
+
+interface ClauseSegment {
+    text: string;
+    cell: TextCell;
+    start: number;
+}
+
+/**
+ * Split text cells into clause-sized segments: one per line or sentence within each cell
+ */
+function clauseSegments(cells: TextCell[]): ClauseSegment[] {
+    return cells.flatMap(cell => {
+        const segments: ClauseSegment[] = [];
+        let offset = 0;
+        for (const part of cell.text.split(/\n|(?<=[.;!?])\s+(?=[A-Z(])/)) {
+            const start = cell.text.indexOf(part, offset);
+            offset = start + part.length;
+            const text = part.trim();
+            if (text) segments.push({ text, cell, start: start + part.indexOf(text) });
+        }
+        return segments;
+    });
+}
+
+function segmentSource(segment: ClauseSegment): CellSource {
+    return cellSource(segment.cell, segment.start, segment.start + segment.text.length);
+}
+
+function clauseId(detector: string, segment: ClauseSegment): string {
+    return riskId(detector, segment.text, segmentSource(segment).cellRef);
+}
+
+function truncate(text: string, length: number = 160): string {
+    return text.length > length ? text.substring(0, length - 1) + '…' : text;
+}
+
+/**
+ * Unlimited liability, or a liability cap graded as a share of contract value
+ */
+export function detectLiabilityClauses(cells: TextCell[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const { maxLiabilityCapPercent } = thresholds.clauses;
+    let unlimited: ClauseSegment | null = null;
+    let cap: { percent: number; segment: ClauseSegment } | null = null;
+
+    for (const segment of clauseSegments(cells)) {
+        const text = segment.text;
+        if (!/liab/i.test(text)) continue;
+
+        if (/unlimited\s+liability|liability\s+(?:shall\s+be\s+|is\s+)?unlimited|no\s+(?:limitation|limit|cap)\s+(?:of|on)\s+(?:the\s+)?(?:supplier'?s?\s+|seller'?s?\s+)?liability|without\s+(?:any\s+)?limitation\s+of\s+liability/i.test(text)) {
+            unlimited ??= segment;
+            continue;
+        }
+
+        if (!/limit|cap|exceed|maximum/i.test(text)) continue;
+
+        // "100% of the contract value", "2x the order price", "twice the contract price"
+        const percentMatch = text.match(/(\d+(?:\.\d+)?)\s*%\s*of\s+(?:the\s+)?(?:total\s+)?(?:contract|order|purchase|po)\b/i);
+        const multipleMatch = text.match(/(\d+(?:\.\d+)?|one|two|three|twice)\s*(?:x|times)?\s+(?:the\s+)?(?:total\s+)?(?:contract|order|purchase)\s+(?:value|price|amount|sum)/i);
+        const words: Record<string, number> = { one: 1, two: 2, three: 3, twice: 2 };
+
+        let percent: number | null = null;
+        if (percentMatch) {
+            percent = parseFloat(percentMatch[1]);
+        } else if (multipleMatch) {
+            const factor = words[multipleMatch[1].toLowerCase()] ?? parseFloat(multipleMatch[1]);
+            percent = Number.isNaN(factor) ? null : factor * 100;
+        }
+
+        if (percent !== null && (cap === null || percent > cap.percent)) {
+            cap = { percent, segment };
+        }
+    }
+
+    if (unlimited) {
+        return [{
+            id: clauseId('clause-liability-unlimited', unlimited),
+            type: 'liability',
+            level: 'critical',
+            title: 'Unlimited Liability',
+            description: 'The document removes or excludes any limitation of liability, so exposure is not bounded by the contract value.',
+            extractedValue: truncate(unlimited.text),
+            recommendation: `🚨 Escalate to legal. Insist on an aggregate cap (typically ≤${maxLiabilityCapPercent}% of contract value) before quoting.`,
+            source: segmentSource(unlimited),
+        }];
+    }
+
+    if (cap) {
+        const withinPolicy = cap.percent <= maxLiabilityCapPercent;
+        return [{
+            id: clauseId('clause-liability-cap', cap.segment),
+            type: 'liability',
+            level: withinPolicy ? 'low' : 'high',
+            title: `Liability Capped at ${cap.percent}% of Contract Value`,
+            description: withinPolicy
+                ? `Aggregate liability is capped at ${cap.percent}% of contract value, within the ${maxLiabilityCapPercent}% policy.`
+                : `Aggregate liability is capped at ${cap.percent}% of contract value, above the ${maxLiabilityCapPercent}% policy.`,
+            extractedValue: truncate(cap.segment.text),
+            recommendation: withinPolicy
+                ? 'Confirm the cap also covers indemnities and LDs.'
+                : `Negotiate the cap down to ${maxLiabilityCapPercent}% of contract value or price the additional exposure.`,
+            source: segmentSource(cap.segment),
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Consequential / indirect damages: an exclusion protects us, an inclusion exposes us.
+ * The exclusion has to govern the damages ("in no event … liable for lost profits",
+ * "consequential damages are excluded"); "excluding VAT" elsewhere in the sentence
+ * or "are not excluded" is no exclusion.
+ */
+export function detectConsequentialDamages(cells: TextCell[]): RiskFlag[] {
+    const pattern = /consequential\s+(?:or\s+indirect\s+)?(?:damages|loss(?:es)?)|indirect\s+(?:or\s+consequential\s+)?(?:damages|loss(?:es)?)|loss\s+of\s+(?:profits?|revenue|production|use)/i;
+    // Before the damages, in the same clause: "excluding", "in no event", "shall not be liable for", "waives"
+    const exclusionBefore = /(?:exclud\w*|in\s+no\s+event|not\s+be\s+liable|shall\s+not\s+(?:be\s+)?(?:liable|responsible)|neither\s+party|waive\w*)[^;:]*$/i;
+    // After the damages: "… are excluded", "… shall be expressly excluded"
+    const exclusionAfter = /^[^;:]{0,40}?\b(?:are|is|be)\s+(?:expressly\s+|hereby\s+)?excluded\b/i;
+    const negated = /\bnot\s+(?:be\s+)?(?:expressly\s+)?exclud/i;
+
+    const isExclusion = (text: string) => {
+        const match = text.match(pattern);
+        if (!match || negated.test(text)) return false;
+        const start = match.index ?? 0;
+        return exclusionBefore.test(text.slice(0, start)) || exclusionAfter.test(text.slice(start + match[0].length));
+    };
+
+    let exposed: ClauseSegment | null = null;
+    let excluded: ClauseSegment | null = null;
+
+    for (const segment of clauseSegments(cells)) {
+        if (!pattern.test(segment.text)) continue;
+        if (isExclusion(segment.text)) {
+            excluded ??= segment;
+        } else {
+            exposed ??= segment;
+        }
+    }
+
+    if (exposed) {
+        return [{
+            id: clauseId('clause-consequential', exposed),
+            type: 'consequential_damages',
+            level: /liable|responsible|reimburse|compensate/i.test(exposed.text) ? 'critical' : 'high',
+            title: 'Consequential Damages Exposure',
+            description: 'The document refers to consequential or indirect losses (e.g. lost profits or production) without excluding them.',
+            extractedValue: truncate(exposed.text),
+            recommendation: '🚨 Require a mutual exclusion of indirect and consequential damages. Lost-profit claims can exceed the contract value many times over.',
+            source: segmentSource(exposed),
+        }];
+    }
+
+    if (excluded) {
+        return [{
+            id: clauseId('clause-consequential', excluded),
+            type: 'consequential_damages',
+            level: 'low',
+            title: 'Consequential Damages Excluded',
+            description: 'Indirect and consequential damages are excluded.',
+            extractedValue: truncate(excluded.text),
+            recommendation: 'Check the exclusion is mutual and not carved out for indemnities or gross negligence.',
+            source: segmentSource(excluded),
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Warranty period in months, graded against the standard warranty
+ */
+export function detectWarrantyTerms(cells: TextCell[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    const { warrantyStandardMonths, warrantyHighMonths, warrantyCriticalMonths } = thresholds.clauses;
+    let longest: { months: number; segment: ClauseSegment } | null = null;
+    let lifetime: ClauseSegment | null = null;
+
+    for (const segment of clauseSegments(cells)) {
+        if (!/warrant/i.test(segment.text)) continue;
+
+        if (/lifetime\s+warrant|warrant\w*\s+for\s+(?:the\s+)?(?:life|lifetime)/i.test(segment.text)) {
+            lifetime ??= segment;
+            continue;
+        }
+
+        const periods = [
+            ...segment.text.matchAll(/(\d{1,3})\s*(?:\(\w+\)\s*)?(months?|mos?\.?|years?|yrs?\.?)\b/gi),
+        ];
+        for (const period of periods) {
+            const months = /^y/i.test(period[2]) ? parseInt(period[1], 10) * 12 : parseInt(period[1], 10);
+            if (longest === null || months > longest.months) {
+                longest = { months, segment };
+            }
+        }
+    }
+
+    if (lifetime) {
+        return [{
+            id: clauseId('clause-warranty', lifetime),
+            type: 'warranty',
+            level: 'critical',
+            title: 'Lifetime Warranty Requested',
+            description: 'The document asks for a lifetime warranty, an open-ended obligation.',
+            extractedValue: truncate(lifetime.text),
+            recommendation: `🚨 Replace with a fixed warranty period (standard is ${warrantyStandardMonths} months) or price an extended-warranty reserve.`,
+            source: segmentSource(lifetime),
+        }];
+    }
+
+    if (!longest) return [];
+
+    const level: RiskLevel = longest.months >= warrantyCriticalMonths ? 'critical'
+        : longest.months >= warrantyHighMonths ? 'high'
+            : longest.months > warrantyStandardMonths ? 'medium'
+                : 'low';
+
+    return [{
+        id: clauseId('clause-warranty', longest.segment),
+        type: 'warranty',
+        level,
+        title: `Warranty Period: ${longest.months} Months`,
+        description: `A warranty of ${longest.months} months is requested against a standard of ${warrantyStandardMonths} months.`,
+        extractedValue: truncate(longest.segment.text),
+        recommendation: level === 'low'
+            ? 'Warranty period is within the standard.'
+            : `Quote the standard ${warrantyStandardMonths}-month warranty, or price the extra ${longest.months - warrantyStandardMonths} months as an extended warranty.`,
+        source: segmentSource(longest.segment),
+    }];
+}
+
+/**
+ * Indemnities, graded by breadth (mutual < standard < "any and all" / regardless of fault)
+ */
+export function detectIndemnity(cells: TextCell[]): RiskFlag[] {
+    const pattern = /indemnif(?:y|ies|ied|ication)|hold\s+(?:\w+\s+)?harmless/i;
+    const broad = /any\s+and\s+all|regardless\s+of\s+(?:fault|cause|negligence)|whether\s+or\s+not\s+caused|(?:buyer|customer|purchaser)'?s?\s+(?:own\s+)?negligence|unlimited/i;
+    const mutual = /mutual|each\s+party\s+shall\s+indemnif/i;
+
+    const found = clauseSegments(cells).filter(segment => pattern.test(segment.text));
+    if (found.length === 0) return [];
+
+    const broadest = found.find(segment => broad.test(segment.text));
+    const clause = broadest ?? found[0];
+    const isMutual = !broadest && found.every(segment => mutual.test(segment.text));
+    const level: RiskLevel = broadest ? 'high' : isMutual ? 'low' : 'medium';
+
+    return [{
+        id: clauseId('clause-indemnity', clause),
+        type: 'indemnity',
+        level,
+        title: broadest ? 'Broad Indemnity' : isMutual ? 'Mutual Indemnity' : 'Indemnity Clause',
+        description: broadest
+            ? 'The indemnity covers "any and all" claims or applies regardless of fault, possibly including the customer\'s own negligence.'
+            : isMutual
+                ? 'Each party indemnifies the other for its own acts.'
+                : 'The document asks us to indemnify the customer.',
+        extractedValue: truncate(clause.text),
+        recommendation: broadest
+            ? 'Limit the indemnity to third-party claims caused by our negligence, and bring it under the liability cap.'
+            : 'Confirm the indemnity is fault-based, limited to third-party claims and subject to the liability cap.',
+        source: segmentSource(clause),
+    }];
+}
+
+/**
+ * Termination for convenience, graded by whether costs incurred are recoverable
+ */
+export function detectTerminationForConvenience(cells: TextCell[]): RiskFlag[] {
+    const pattern = /terminat\w*\s+(?:this\s+\w+\s+|the\s+\w+\s+)?(?:\w+\s+)?for\s+(?:its\s+|their\s+)?convenience|terminat\w*[^.]{0,40}\bat\s+any\s+time\b[^.]{0,40}(?:without\s+cause|for\s+any\s+reason|without\s+reason)|cancel\w*\s+(?:the\s+)?(?:order|po|purchase\s+order)\s+at\s+any\s+time/i;
+    const compensated = /costs?\s+(?:incurred|of\s+work)|work\s+(?:performed|completed|in\s+progress)|cancellation\s+(?:fee|charge)s?|reimburs|compensat|reasonable\s+profit/i;
+
+    const clause = clauseSegments(cells).find(segment => pattern.test(segment.text));
+    if (!clause) return [];
+
+    const isCompensated = compensated.test(clause.text);
+
+    return [{
+        id: clauseId('clause-termination', clause),
+        type: 'termination',
+        level: isCompensated ? 'medium' : 'high',
+        title: 'Termination for Convenience',
+        description: isCompensated
+            ? 'The customer may terminate without cause, with compensation for work performed or costs incurred.'
+            : 'The customer may terminate without cause and the clause does not compensate work already performed or materials bought.',
+        extractedValue: truncate(clause.text),
+        recommendation: isCompensated
+            ? 'Check that compensation covers non-cancellable materials and a reasonable profit on work done.'
+            : 'Require payment for work performed, non-cancellable/non-returnable materials and demobilization costs on termination.',
+        source: segmentSource(clause),
+    }];
+}
+
+/**
+ * All commercial clause families
+ */
+export function detectContractClauses(cells: TextCell[], thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskFlag[] {
+    return [
+        ...detectLiabilityClauses(cells, thresholds),
+        ...detectConsequentialDamages(cells),
+        ...detectWarrantyTerms(cells, thresholds),
+        ...detectIndemnity(cells),
+        ...detectTerminationForConvenience(cells),
     ];
+}
+
+/**
+ * Run the built-in detectors enabled by the rule set, then its custom rules.
+ * Risk IDs follow the scheme in riskIds.ts and are unique within the result.
+ * Clause-style detectors scan `cells` so their flags carry a cell reference;
+ * `termsColumns` are the mapped terms columns by sheet, scanned per row for payment terms.
+ */
+export function analyzeAllRisks(
+    rawText: string,
+    cells: TextCell[],
+    rows: ParsedRow[],
+    ruleSet: RiskRuleSet = DEFAULT_RULE_SET,
+    termsColumns: Record<string, string | null> = {}
+): RiskFlag[] {
+    const { thresholds } = ruleSet;
+    const detectors: Record<BuiltInDetector, () => RiskFlag[]> = {
+        incoterms: () => detectIncoterms(cells, thresholds),
+        liquidated_damages: () => detectLiquidatedDamages(cells, thresholds),
+        duplicates: () => detectDuplicates(rows, thresholds),
+        uom_conflicts: () => detectUoMConflicts(rows, thresholds),
+        missing_data: () => detectMissingData(rows),
+        currency_mismatch: () => detectCurrencyMismatch(rows),
+        extended_price: () => detectExtendedPriceMismatch(rows),
+        totals: () => detectTotalMismatch(rawText, rows),
+        payment_terms: () => detectPaymentTerms(rawText, rows, thresholds, termsColumns, cells),
+        clauses: () => detectContractClauses(cells, thresholds),
+        prices: () => detectPriceAnomalies(rows, thresholds),
+        part_numbers: () => detectCorruptedPartNumbers(rows),
+        catalog: () => detectCatalogMismatches(rows, thresholds),
+        lifecycle: () => detectLifecycleIssues(rows, thresholds),
+        order_quantities: () => detectOrderQuantityIssues(rows),
+        margins: () => detectMarginIssues(rows, thresholds),
+    };
+
+    // IDs are made unique in detector order, so a regraded risk keeps its suffix
+    const allRisks: RiskFlag[] = uniqueRiskIds([
+        ...(Object.keys(detectors) as BuiltInDetector[])
+            .filter(name => !ruleSet.disabledDetectors.includes(name))
+            .flatMap(name => detectors[name]()),
+        ...evaluateRiskRules(ruleSet.rules, rawText, rows, cells),
+    ]);
 
     // Sort by risk level (critical first)
     const levelOrder: Record<RiskLevel, number> = {
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { riskId, uniqueRiskIds } from './riskIds';
+import { detectDuplicates, detectMissingData } from './riskDetector';
+import type { ParsedRow, RiskFlag } from '@/types/quote';
+
+const row = (rowNumber: number, partNumber: string, quantity: number | null = 1): ParsedRow =>
+    ({ sheetName: 'BOM', rowNumber, partNumber, quantity, level: null, parentRowNumber: null, rawData: { 'Part Number': partNumber } } as unknown as ParsedRow);
+
+describe('riskId', () => {
+    it('is the detector and a hash of the evidence', () => {
+        expect(riskId('incoterm', 'EXW')).toMatch(/^incoterm-[0-9a-f]{8}$/);
+        expect(riskId('incoterm', 'EXW')).toBe(riskId('incoterm', 'EXW'));
+        expect(riskId('incoterm', 'EXW')).not.toBe(riskId('incoterm', 'DDP'));
+    });
+});
+
+describe('group risk ids', () => {
+    it('keep a duplicate group id when a row joins or leaves the group', () => {
+        const pair = detectDuplicates([row(2, 'LM317T'), row(5, 'lm317t')]);
+        const triple = detectDuplicates([row(2, 'LM317T'), row(5, 'lm317t'), row(9, 'LM-317T')]);
+        expect(pair).toHaveLength(1);
+        expect(triple[0].id).toBe(pair[0].id);
+        expect(detectDuplicates([row(3, 'NE555'), row(4, 'NE555')])[0].id).not.toBe(pair[0].id);
+    });
+
+    it('keep a file-wide risk id whichever rows it lists', () => {
+        const before = detectMissingData([row(2, ''), row(3, 'LM317T')]);
+        const after = detectMissingData([row(3, 'LM317T'), row(4, ''), row(5, '')]);
+        expect(after[0].id).toBe(before[0].id);
+    });
+});
+
+describe('uniqueRiskIds', () => {
+    it('numbers repeated ids in list order', () => {
+        const risk = (id: string) => ({ id }) as RiskFlag;
+        expect(uniqueRiskIds([risk('a'), risk('b'), risk('a'), risk('a')]).map(r => r.id)).toEqual(['a', 'b', 'a-2', 'a-3']);
+    });
+});
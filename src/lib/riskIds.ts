@@ -0,0 +1,53 @@
+import type { RiskFlag } from '@/types/quote';
+
+/**
+ * Risk IDs
+ *
+ * A risk ID is `<detector>-<hash>`: the slug of the check that raised it
+ * ("incoterm", "duplicate", "clause-warranty", "rule-<rule id>", …) and eight
+ * hex digits of an FNV-1a hash over the evidence that anchors it, such as the
+ * term and its cell reference, or the row for a single-row risk. Risks over a
+ * group of rows hash the group key (the part number, unit or currency), not
+ * the rows in it, and risks raised once per file hash nothing: adding or
+ * deleting a row keeps the ID and the review recorded for it. Analyzing the
+ * same file twice gives the same IDs, so reviews, diffs between analyses and
+ * the chat assistant can refer to a risk by ID. Levels, titles and thresholds
+ * are not hashed: a different rule set regrades a risk without renaming it.
+ *
+ * Processing notices (error-parse, warning-row-limit, …) are one of a kind
+ * and keep fixed IDs.
+ */
+
+/**
+ * 32-bit FNV-1a over a string, as eight hex digits
+ */
+export function hashEvidence(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * ID for a risk raised by `detector` on the given evidence
+ */
+export function riskId(detector: string, ...evidence: unknown[]): string {
+    return `${detector}-${hashEvidence(JSON.stringify(evidence))}`;
+}
+
+/**
+ * Make IDs unique within a list: later repeats get "-2", "-3", … in list order
+ */
+export function uniqueRiskIds(risks: RiskFlag[]): RiskFlag[] {
+    const taken = new Set<string>();
+    return risks.map(risk => {
+        let id = risk.id;
+        for (let n = 2; taken.has(id); n++) {
+            id = `${risk.id}-${n}`;
+        }
+        taken.add(id);
+        return id === risk.id ? risk : { ...risk, id };
+    });
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { DEFAULT_RULE_SET, resolveRuleSet } from './riskRules';
+import type { RiskRuleSet } from '@/types/quote';
+
+/**
+ * Risk rule set files
+ *
+ * Every *.json, *.yaml or *.yml file in the rules directory holds one rule set.
+ * A set named "default" replaces the built-in defaults for files without a
+ * profile-specific set. Override the location with:
+ *   RISK_RULES_DIR=/path/to/risk-rules
+ */
+const RULES_DIR = process.env.RISK_RULES_DIR
+    ?? path.join(process.cwd(), 'config', 'risk-rules');
+
+const RULE_FILE_PATTERN = /\.(json|ya?ml)$/i;
+
+export interface RuleSetLoadResult {
+    ruleSets: RiskRuleSet[];
+    errors: { file: string; message: string }[];
+}
+
+/**
+ * Load and validate all rule set files. Invalid files are reported, not fatal.
+ */
+export async function loadRiskRuleSets(): Promise<RuleSetLoadResult> {
+    let files: string[];
+    try {
+        files = (await fs.readdir(RULES_DIR)).filter(file => RULE_FILE_PATTERN.test(file)).sort();
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { ruleSets: [], errors: [] };
+        }
+        throw error;
+    }
+
+    const result: RuleSetLoadResult = { ruleSets: [], errors: [] };
+
+    for (const file of files) {
+        try {
+            const content = await fs.readFile(path.join(RULES_DIR, file), 'utf-8');
+            const data: unknown = /\.json$/i.test(file) ? JSON.parse(content) : yaml.load(content);
+            const ruleSet = resolveRuleSet(data);
+
+            if (result.ruleSets.some(existing => existing.name === ruleSet.name)) {
+                throw new Error(`Duplicate rule set name "${ruleSet.name}"`);
+            }
+            result.ruleSets.push(ruleSet);
+        } catch (error) {
+            result.errors.push({ file, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Pick the rule set for an analysis: the requested one, else "default", else the built-ins
+ */
+export async function getRiskRuleSet(name: string | null): Promise<RuleSetLoadResult & { ruleSet: RiskRuleSet }> {
+    const loaded = await loadRiskRuleSets();
+    const ruleSet = (name ? loaded.ruleSets.find(set => set.name === name) : undefined)
+        ?? loaded.ruleSets.find(set => set.name === 'default')
+        ?? DEFAULT_RULE_SET;
+
+    if (name && ruleSet.name !== name) {
+        loaded.errors.push({ file: '-', message: `Rule set "${name}" was not found; using "${ruleSet.name}".` });
+    }
+
+    return { ...loaded, ruleSet };
+}
@@ -0,0 +1,246 @@
+import { INCOTERMS_DATA, riskRuleSetSchema, type RiskRuleSetInput } from './schemas';
+import { findInCells, locateText, matchSource } from './cellProvenance';
+import { riskId } from './riskIds';
+import { rowRef } from './rowRefs';
+import type { CellSource, ParsedRow, RiskFlag, RiskLevel, RiskRule, RiskRuleSet, RiskThresholds, RowCondition, RowRef, TextCell } from '@/types/quote';
+
+/**
+ * Declarative risk rules
+ *
+ * A rule set tunes the thresholds of the built-in detectors, can switch
+ * detectors off, and adds custom keyword / regex / row-predicate rules.
+ * Rule sets are authored as JSON or YAML files (see riskRuleLoader.ts) and
+ * travel with the analysis so client-side re-mapping applies the same rules.
+ */
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+    liquidatedDamages: {
+        criticalRatePercent: 1,
+        highRatePercent: 0.5,
+        criticalCapPercent: 10,
+    },
+    uom: {
+        maxBulkQuantity: 10000,
+    },
+    incotermLevels: Object.fromEntries(
+        Object.entries(INCOTERMS_DATA).map(([term, info]) => [term, info.riskLevel])
+    ),
+    paymentTerms: {
+        targetDays: 30,
+        highDays: 60,
+        criticalDays: 90,
+        maxRetentionPercent: 5,
+        conditionalPaymentLevel: 'critical',
+    },
+    clauses: {
+        warrantyStandardMonths: 12,
+        warrantyHighMonths: 36,
+        warrantyCriticalMonths: 60,
+        maxLiabilityCapPercent: 100,
+    },
+    prices: {
+        outlierIqrMultiplier: 1.5,
+        minGroupSize: 5,
+        packPriceRatio: 50,
+    },
+    partNumbers: {
+        stripSeparators: true,
+        ignoreLeadingZeros: false,
+        prefixes: [],
+    },
+    catalog: {
+        minFuzzyScore: 0.8,
+        minDescriptionScore: 0.6,
+        descriptionMismatchScore: 0.25,
+    },
+    lifecycleLevels: {
+        nrnd: 'medium',
+        last_time_buy: 'high',
+        obsolete: 'critical',
+    },
+    margins: {
+        minPercent: 15,
+    },
+    dealScore: {
+        levelPoints: { critical: 25, high: 10, medium: 4, low: 1 },
+        typeWeights: {
+            liquidated_damages: 1.5,
+            liability: 1.5,
+            consequential_damages: 1.5,
+            payment_terms: 1.25,
+            duplicate: 0.75,
+            mapping: 0.5,
+            general: 0.5,
+        },
+        affectedRowsPoints: 20,
+        incompleteRowsPoints: 20,
+        reviewAt: 25,
+        escalateAt: 60,
+    },
+};
+
+export const DEFAULT_RULE_SET: RiskRuleSet = {
+    name: 'default',
+    description: 'Built-in detectors with standard thresholds',
+    thresholds: DEFAULT_RISK_THRESHOLDS,
+    disabledDetectors: [],
+    rules: [],
+};
+
+/**
+ * Validate raw rule-set data and merge its thresholds over the defaults.
+ * Throws a readable error listing every problem when the data is invalid.
+ */
+export function resolveRuleSet(data: unknown): RiskRuleSet {
+    const parsed = riskRuleSetSchema.safeParse(data);
+    if (!parsed.success) {
+        const problems = parsed.error.issues
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid risk rule set: ${problems}`);
+    }
+
+    return mergeRuleSet(parsed.data);
+}
+
+function mergeRuleSet(input: RiskRuleSetInput): RiskRuleSet {
+    const thresholds = input.thresholds ?? {};
+    return {
+        name: input.name,
+        description: input.description,
+        thresholds: {
+            liquidatedDamages: { ...DEFAULT_RISK_THRESHOLDS.liquidatedDamages, ...thresholds.liquidatedDamages },
+            uom: { ...DEFAULT_RISK_THRESHOLDS.uom, ...thresholds.uom },
+            incotermLevels: {
+                ...DEFAULT_RISK_THRESHOLDS.incotermLevels,
+                ...Object.fromEntries(
+                    Object.entries(thresholds.incotermLevels ?? {}).map(([term, level]) => [term.toUpperCase(), level])
+                ),
+            },
+            paymentTerms: { ...DEFAULT_RISK_THRESHOLDS.paymentTerms, ...thresholds.paymentTerms },
+            clauses: { ...DEFAULT_RISK_THRESHOLDS.clauses, ...thresholds.clauses },
+            prices: { ...DEFAULT_RISK_THRESHOLDS.prices, ...thresholds.prices },
+            partNumbers: { ...DEFAULT_RISK_THRESHOLDS.partNumbers, ...thresholds.partNumbers },
+            catalog: { ...DEFAULT_RISK_THRESHOLDS.catalog, ...thresholds.catalog },
+            lifecycleLevels: { ...DEFAULT_RISK_THRESHOLDS.lifecycleLevels, ...thresholds.lifecycleLevels },
+            margins: { ...DEFAULT_RISK_THRESHOLDS.margins, ...thresholds.margins },
+            dealScore: {
+                ...DEFAULT_RISK_THRESHOLDS.dealScore,
+                ...thresholds.dealScore,
+                levelPoints: { ...DEFAULT_RISK_THRESHOLDS.dealScore.levelPoints, ...thresholds.dealScore?.levelPoints },
+                typeWeights: { ...DEFAULT_RISK_THRESHOLDS.dealScore.typeWeights, ...thresholds.dealScore?.typeWeights },
+            },
+        },
+        disabledDetectors: input.disabledDetectors,
+        rules: input.rules,
+    };
+}
+
+/**
+ * Fill {{match}} and {{count}} placeholders in rule text
+ */
+function fillTemplate(text: string, values: { match?: string; count: number }): string {
+    return text
+        .replace(/\{\{\s*match\s*\}\}/g, values.match ?? '')
+        .replace(/\{\{\s*count\s*\}\}/g, String(values.count));
+}
+
+function toFlag(
+    rule: RiskRule,
+    values: { match?: string; count: number },
+    affectedRows?: RowRef[],
+    source?: CellSource
+): RiskFlag {
+    return {
+        id: riskId(`rule-${rule.id}`, values.match, source?.cellRef),
+        type: rule.riskType,
+        level: rule.level,
+        title: fillTemplate(rule.title, values),
+        description: fillTemplate(rule.description ?? `Matched custom rule "${rule.id}".`, values),
+        affectedRows,
+        extractedValue: values.match,
+        recommendation: fillTemplate(rule.recommendation, values),
+        source,
+    };
+}
+
+/**
+ * Check one row condition. Text comparisons are case-insensitive.
+ */
+function matchesCondition(row: ParsedRow, condition: RowCondition): boolean {
+    const actual = row[condition.field];
+    const isEmpty = actual === null || actual === undefined || String(actual).trim() === '';
+
+    if (condition.op === 'empty') return isEmpty;
+    if (condition.op === 'not_empty') return !isEmpty;
+    if (isEmpty) return false;
+
+    const expected = condition.value;
+    const text = String(actual).trim().toLowerCase();
+
+    switch (condition.op) {
+        case 'eq':
+            return text === String(expected).toLowerCase();
+        case 'neq':
+            return text !== String(expected).toLowerCase();
+        case 'in':
+            return (Array.isArray(expected) ? expected : [expected]).some(v => text === String(v).toLowerCase());
+        case 'contains':
+            return text.includes(String(expected).toLowerCase());
+        case 'matches':
+            try {
+                return new RegExp(String(expected), 'i').test(String(actual));
+            } catch {
+                return false;
+            }
+        default: {
+            const a = typeof actual === 'number' ? actual : parseFloat(String(actual));
+            const b = Number(expected);
+            if (Number.isNaN(a) || Number.isNaN(b)) return false;
+            if (condition.op === 'gt') return a > b;
+            if (condition.op === 'gte') return a >= b;
+            if (condition.op === 'lt') return a < b;
+            return a <= b;
+        }
+    }
+}
+
+/**
+ * Run the custom rules of a rule set. Each rule raises at most one flag;
+ * keyword and regex flags point at the first cell that matches.
+ */
+export function evaluateRiskRules(rules: RiskRule[], rawText: string, rows: ParsedRow[], cells: TextCell[] = []): RiskFlag[] {
+    const risks: RiskFlag[] = [];
+
+    for (const rule of rules) {
+        if (rule.kind === 'keyword') {
+            const lowerText = rawText.toLowerCase();
+            const found = rule.keywords.filter(keyword => lowerText.includes(keyword.toLowerCase()));
+            if (found.length > 0) {
+                risks.push(toFlag(rule, { match: found.join(', '), count: found.length }, undefined, locateText(cells, found[0])));
+            }
+        } else if (rule.kind === 'regex') {
+            const matches = [...rawText.matchAll(new RegExp(rule.pattern, rule.flags.replace('g', '') + 'g'))];
+            if (matches.length > 0) {
+                const inCell = findInCells(cells, new RegExp(rule.pattern, rule.flags.replace('g', '')));
+                risks.push(toFlag(rule, { match: matches[0][0].trim(), count: matches.length }, undefined, inCell ? matchSource(inCell) : undefined));
+            }
+        } else {
+            const matched = rows.filter(row => rule.match === 'all'
+                ? rule.conditions.every(condition => matchesCondition(row, condition))
+                : rule.conditions.some(condition => matchesCondition(row, condition)));
+            if (matched.length > 0) {
+                risks.push(toFlag(rule, { count: matched.length }, matched.map(rowRef)));
+            }
+        }
+    }
+
+    return risks;
+}
+
+/**
+ * Level of an Incoterm under a rule set, falling back to the reference data
+ */
+export function incotermLevel(term: string, thresholds: RiskThresholds): RiskLevel {
+    return thresholds.incotermLevels[term] ?? INCOTERMS_DATA[term]?.riskLevel ?? 'medium';
+}
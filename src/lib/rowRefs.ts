@@ -0,0 +1,47 @@
+import type { RowRef } from '@/types/quote';
+
+/**
+ * Line-item references
+ *
+ * Rows of every line-item sheet are merged into one list, so an Excel row
+ * number alone is ambiguous: "row 5" exists on each sheet. Risks, AI tool
+ * calls and edits name a row by sheet and row number.
+ */
+
+/**
+ * The reference of a row (or of anything carrying a sheet name and row number)
+ */
+export function rowRef({ sheetName, rowNumber }: RowRef): RowRef {
+    return { sheetName, rowNumber };
+}
+
+/**
+ * Map and set key of a row, e.g. "BOM-12"
+ */
+export function rowKey({ sheetName, rowNumber }: RowRef): string {
+    return `${sheetName}-${rowNumber}`;
+}
+
+export function sameRow(a: RowRef, b: RowRef): boolean {
+    return a.sheetName === b.sheetName && a.rowNumber === b.rowNumber;
+}
+
+/**
+ * Keys of a list of rows, for membership tests
+ */
+export function rowKeys(refs: RowRef[]): Set<string> {
+    return new Set(refs.map(rowKey));
+}
+
+/**
+ * Rows for display, grouped by sheet: "BOM: 5, 6; BOM2: 2". At most `max` row numbers are listed.
+ */
+export function formatRowRefs(refs: RowRef[], max: number = Infinity): string {
+    const bySheet = new Map<string, number[]>();
+    for (const { sheetName, rowNumber } of refs.slice(0, max)) {
+        bySheet.set(sheetName, [...(bySheet.get(sheetName) ?? []), rowNumber]);
+    }
+
+    const listed = [...bySheet].map(([sheetName, rowNumbers]) => `${sheetName}: ${rowNumbers.join(', ')}`).join('; ');
+    return refs.length > max ? `${listed} +${refs.length - max} more` : listed;
+}
@@ -1,27 +1,60 @@
 import { z } from 'zod';
 
+// Schema for the AI's confidence in a single field mapping
+export const fieldConfidenceSchema = z.object({
+    field: z.enum(['partNumber', 'quantity', 'description', 'unitPrice', 'extendedPrice', 'currency', 'unitOfMeasure', 'manufacturer', 'leadTime', 'moq', 'packMultiple', 'notes', 'terms']),
+    confidence: z.number().min(0).max(1).describe('Confidence from 0 (guess) to 1 (certain)'),
+    rationale: z.string().describe('One short sentence explaining why this column was chosen'),
+});
+
 // Schema for AI-generated column mapping
 export const columnMappingSchema = z.object({
     partNumber: z.string().nullable().describe('Column name that contains part numbers, SKUs, or item codes'),
     quantity: z.string().nullable().describe('Column name that contains quantities or amounts'),
     description: z.string().nullable().describe('Column name that contains item descriptions'),
     unitPrice: z.string().nullable().describe('Column name that contains unit prices or costs'),
+    extendedPrice: z.string().nullable().describe('Column name that contains extended prices or line totals (quantity × unit price)'),
+    currency: z.string().nullable().describe('Column name that contains currency codes or symbols'),
     unitOfMeasure: z.string().nullable().describe('Column name that contains units (each, box, kg, etc)'),
+    manufacturer: z.string().nullable().describe('Column name that contains manufacturer or brand names'),
+    leadTime: z.string().nullable().describe('Column name that contains lead times or delivery times'),
+    moq: z.string().nullable().describe('Column name that contains minimum order quantities'),
+    packMultiple: z.string().nullable().describe('Column name that contains pack or order multiples (standard pack quantities)'),
     notes: z.string().nullable().describe('Column name that contains notes, comments, or remarks'),
     terms: z.string().nullable().describe('Column name that contains terms, conditions, or shipping info'),
     headerRow: z.number().describe('The row number (1-indexed) where headers are located'),
+    fieldConfidence: z.array(fieldConfidenceSchema).describe('Confidence and rationale for each mapped field'),
+});
+
+const cellSourceSchema = z.object({
+    sheetName: z.string(),
+    rowNumber: z.number(),
+    column: z.string(),
+    header: z.string().nullable(),
+    cellRef: z.string().describe('Sheet-qualified cell reference, e.g. Sheet1!F14'),
+    snippet: z.string().describe('Matched text with surrounding context'),
 });
 
 // Schema for risk detection results
 export const riskFlagSchema = z.object({
     id: z.string().describe('Unique identifier for this risk'),
-    type: z.enum(['incoterms', 'liquidated_damages', 'uom_conflict', 'duplicate', 'missing_data', 'general']),
+    type: z.enum(['incoterms', 'liquidated_damages', 'uom_conflict', 'duplicate', 'missing_data', 'currency_mismatch', 'mapping', 'arithmetic', 'payment_terms',
+        'liability', 'consequential_damages', 'warranty', 'indemnity', 'termination', 'price_anomaly', 'part_number', 'catalog', 'lifecycle', 'order_quantity', 'margin', 'custom', 'general']),
     level: z.enum(['low', 'medium', 'high', 'critical']),
     title: z.string().describe('Short title for the risk'),
     description: z.string().describe('Detailed description of the risk'),
-    affectedRows: z.array(z.number()).optional().describe('Row numbers affected by this risk'),
+    affectedRows: z.array(z.object({
+        sheetName: z.string(),
+        rowNumber: z.number(),
+    })).optional().describe('Rows affected by this risk, by sheet and row number'),
     extractedValue: z.string().optional().describe('The specific value that triggered this risk'),
     recommendation: z.string().describe('Recommended action to address this risk'),
+    source: cellSourceSchema.optional().describe('Cell the risk was read from'),
+    occurrences: z.array(cellSourceSchema).optional().describe('Every cell stating the same thing'),
+    expectedRange: z.object({
+        min: z.number().nullable(),
+        max: z.number().nullable(),
+    }).optional().describe('Range the flagged value was expected to fall in'),
 });
 
 // Schema for the complete AI analysis response
@@ -34,11 +67,286 @@ export const quoteAnalysisSchema = z.object({
         quantity: z.number().nullable(),
         description: z.string(),
         unitPrice: z.number().nullable(),
+        extendedPrice: z.number().nullable(),
+        currency: z.string().nullable(),
         unitOfMeasure: z.string(),
+        manufacturer: z.string(),
+        leadTime: z.string(),
         notes: z.string(),
     })),
 });
 
+// Schemas for user-authored risk rule files (JSON or YAML)
+const riskLevelSchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const rowConditionSchema = z.object({
+    field: z.enum(['partNumber', 'quantity', 'description', 'unitPrice', 'extendedPrice', 'currency',
+        'unitOfMeasure', 'manufacturer', 'leadTime', 'notes', 'level', 'sheetName']),
+    op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'matches', 'empty', 'not_empty']),
+    value: z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]).optional(),
+}).refine(
+    condition => condition.op === 'empty' || condition.op === 'not_empty' || condition.value !== undefined,
+    { message: 'value is required for this operator' }
+);
+
+const riskRuleBaseSchema = z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'use letters, digits, "-" and "_"'),
+    level: riskLevelSchema,
+    riskType: z.enum(['incoterms', 'liquidated_damages', 'uom_conflict', 'duplicate', 'missing_data',
+        'currency_mismatch', 'arithmetic', 'payment_terms', 'liability', 'consequential_damages', 'warranty',
+        'indemnity', 'termination', 'price_anomaly', 'part_number', 'catalog', 'lifecycle', 'order_quantity', 'margin', 'custom']).default('custom'),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    recommendation: z.string().min(1),
+});
+
+export const riskRuleSchema = z.discriminatedUnion('kind', [
+    riskRuleBaseSchema.extend({
+        kind: z.literal('keyword'),
+        keywords: z.array(z.string().min(1)).min(1),
+    }),
+    riskRuleBaseSchema.extend({
+        kind: z.literal('regex'),
+        pattern: z.string().min(1),
+        flags: z.string().regex(/^[imsu]*$/, 'only i, m, s and u flags are allowed').default('i'),
+    }).refine(rule => {
+        try {
+            new RegExp(rule.pattern, rule.flags);
+            return true;
+        } catch {
+            return false;
+        }
+    }, { message: 'pattern is not a valid regular expression', path: ['pattern'] }),
+    riskRuleBaseSchema.extend({
+        kind: z.literal('row'),
+        match: z.enum(['all', 'any']).default('all'),
+        conditions: z.array(rowConditionSchema).min(1),
+    }),
+]);
+
+export const riskRuleSetSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    thresholds: z.object({
+        liquidatedDamages: z.object({
+            criticalRatePercent: z.number().positive(),
+            highRatePercent: z.number().positive(),
+            criticalCapPercent: z.number().positive(),
+        }).partial().optional(),
+        uom: z.object({
+            maxBulkQuantity: z.number().positive(),
+        }).partial().optional(),
+        incotermLevels: z.record(z.string(), riskLevelSchema).optional(),
+        paymentTerms: z.object({
+            targetDays: z.number().nonnegative(),
+            highDays: z.number().nonnegative(),
+            criticalDays: z.number().nonnegative(),
+            maxRetentionPercent: z.number().nonnegative(),
+            conditionalPaymentLevel: riskLevelSchema,
+        }).partial().optional(),
+        clauses: z.object({
+            warrantyStandardMonths: z.number().nonnegative(),
+            warrantyHighMonths: z.number().nonnegative(),
+            warrantyCriticalMonths: z.number().nonnegative(),
+            maxLiabilityCapPercent: z.number().positive(),
+        }).partial().optional(),
+        prices: z.object({
+            outlierIqrMultiplier: z.number().positive(),
+            minGroupSize: z.number().int().min(4),
+            packPriceRatio: z.number().gt(1),
+        }).partial().optional(),
+        partNumbers: z.object({
+            stripSeparators: z.boolean(),
+            ignoreLeadingZeros: z.boolean(),
+            prefixes: z.array(z.string().trim().min(1)),
+        }).partial().optional(),
+        catalog: z.object({
+            minFuzzyScore: z.number().min(0).max(1),
+            minDescriptionScore: z.number().min(0).max(1),
+            descriptionMismatchScore: z.number().min(0).max(1),
+        }).partial().optional(),
+        lifecycleLevels: z.object({
+            nrnd: riskLevelSchema,
+            last_time_buy: riskLevelSchema,
+            obsolete: riskLevelSchema,
+        }).partial().optional(),
+        margins: z.object({
+            minPercent: z.number().lt(100),
+        }).partial().optional(),
+        dealScore: z.object({
+            levelPoints: z.object({
+                critical: z.number().nonnegative(),
+                high: z.number().nonnegative(),
+                medium: z.number().nonnegative(),
+                low: z.number().nonnegative(),
+            }).partial(),
+            typeWeights: z.partialRecord(riskFlagSchema.shape.type, z.number().nonnegative()),
+            affectedRowsPoints: z.number().nonnegative(),
+            incompleteRowsPoints: z.number().nonnegative(),
+            reviewAt: z.number().min(0).max(100),
+            escalateAt: z.number().min(0).max(100),
+        }).partial().refine(
+            weights => weights.reviewAt === undefined || weights.escalateAt === undefined || weights.reviewAt <= weights.escalateAt,
+            { message: 'reviewAt must not exceed escalateAt', path: ['reviewAt'] }
+        ).optional(),
+    }).optional(),
+    disabledDetectors: z.array(z.enum(['incoterms', 'liquidated_damages', 'duplicates', 'uom_conflicts',
+        'missing_data', 'currency_mismatch', 'extended_price', 'totals', 'payment_terms', 'clauses', 'prices', 'part_numbers', 'catalog', 'lifecycle', 'order_quantities', 'margins'])).default([]),
+    rules: z.array(riskRuleSchema).default([]),
+}).refine(
+    ruleSet => new Set(ruleSet.rules.map(rule => rule.id)).size === ruleSet.rules.length,
+    { message: 'rule ids must be unique within a rule set', path: ['rules'] }
+);
+
+// Stored part catalog (see partCatalog.ts)
+export const partCatalogSchema = z.object({
+    fileName: z.string(),
+    importedAt: z.string(),
+    partCount: z.number().int().nonnegative(),
+    entries: z.array(z.object({
+        partNumber: z.string().min(1),
+        description: z.string(),
+        listPrice: z.number().nullable(),
+        currency: z.string().nullable(),
+        unitOfMeasure: z.string(),
+        moq: z.number().nullable(),
+        packMultiple: z.number().nullable(),
+        leadTime: z.string(),
+        lifecycleStatus: z.string(),
+    })),
+});
+
+// Saved mapping profiles file (see mappingProfiles.ts); fields added after a profile was saved default to unmapped
+const mappedColumn = z.string().nullable().default(null);
+
+export const mappingProfileSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    headerSignature: z.string().min(1),
+    headers: z.array(z.string()),
+    columnMapping: z.object({
+        partNumber: mappedColumn,
+        quantity: mappedColumn,
+        description: mappedColumn,
+        unitPrice: mappedColumn,
+        extendedPrice: mappedColumn,
+        currency: mappedColumn,
+        unitOfMeasure: mappedColumn,
+        manufacturer: mappedColumn,
+        leadTime: mappedColumn,
+        moq: mappedColumn,
+        packMultiple: mappedColumn,
+        notes: mappedColumn,
+        terms: mappedColumn,
+        quantityBreaks: z.array(z.string()).default([]),
+        headerRow: z.number().int().positive(),
+    }),
+    headerRow: z.number().int().positive(),
+    sheetName: z.string().nullable().default(null),
+    unitConversions: z.record(z.string(), z.object({
+        unit: z.string().min(1),
+        factor: z.number().positive(),
+    })).default({}),
+    ruleSet: z.string().nullable().default(null),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+// Pricing rules file (see pricingLoader.ts)
+export const pricingRuleSchema = z.object({
+    id: z.string().min(1).optional(),
+    family: z.string().trim().min(1).optional(),
+    tier: z.string().trim().min(1).optional(),
+    minQuantity: z.number().nonnegative().default(0),
+    markupPercent: z.number().gt(-100).optional(),
+    marginPercent: z.number().lt(100).optional(),
+}).refine(
+    rule => (rule.markupPercent === undefined) !== (rule.marginPercent === undefined),
+    { message: 'give either markupPercent or marginPercent' }
+);
+
+export const pricingConfigSchema = z.object({
+    name: z.string().min(1).default('default'),
+    tiers: z.array(z.string().trim().min(1)).default([]),
+    defaultTier: z.string().trim().min(1).nullable().default(null),
+    precedence: z.enum(['tier', 'family']).default('tier'),
+    defaultMarginPercent: z.number().lt(100).default(25),
+    rules: z.array(pricingRuleSchema).default([]),
+}).refine(
+    config => config.defaultTier === null || config.tiers.includes(config.defaultTier),
+    { message: 'defaultTier must be one of the tiers', path: ['defaultTier'] }
+).refine(
+    config => config.rules.every(rule => !rule.tier || config.tiers.includes(rule.tier)),
+    { message: 'every rule tier must be one of the tiers', path: ['rules'] }
+);
+
+const isLocale = (locale: string) => {
+    try {
+        new Intl.NumberFormat(locale);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const quoteDocumentSettingsSchema = z.object({
+    company: z.object({
+        name: z.string().trim().min(1),
+        address: z.array(z.string()).default([]),
+        phone: z.string().default(''),
+        email: z.string().default(''),
+        website: z.string().default(''),
+        taxId: z.string().default(''),
+    }),
+    quoteNumberPrefix: z.string().default('Q-'),
+    validityDays: z.number().int().positive().default(30),
+    incoterm: z.string().default(''),
+    paymentTerms: z.string().default(''),
+    terms: z.array(z.string().trim().min(1)).default([]),
+    signatory: z.object({
+        name: z.string().default(''),
+        title: z.string().default(''),
+    }).default({ name: '', title: '' }),
+    locale: z.string().refine(isLocale, { message: 'must be a locale such as en-US or de-DE' }).default('en-US'),
+});
+
+// What the user enters for a quote document; missing fields are empty
+export const quoteDocumentDetailsSchema = z.object({
+    customerName: z.string().default(''),
+    customerAddress: z.string().default(''),
+    customerReference: z.string().default(''),
+    quoteNumber: z.string().default(''),
+    validUntil: z.union([z.literal(''), z.iso.date()]).default(''),
+    incoterm: z.string().default(''),
+    paymentTerms: z.string().default(''),
+    notes: z.string().default(''),
+});
+
+const rowPricingSchema = z.object({
+    sellPrice: z.number(),
+    extendedSell: z.number().nullable(),
+    marginPercent: z.number(),
+    currency: z.string().nullable(),
+    ruleId: z.string().nullable(),
+});
+
+// The fields of an analyzed row a quote document is built from; other fields are dropped
+export const quoteDocumentRowSchema = z.object({
+    partNumber: z.string(),
+    manufacturer: z.string(),
+    description: z.string(),
+    unitOfMeasure: z.string(),
+    leadTime: z.string(),
+    quantity: z.number().nullable(),
+    quotedQuantity: z.number().nullable(),
+    currency: z.string().nullable(),
+    pricing: rowPricingSchema.nullable(),
+    quantityTiers: z.array(z.object({
+        quotedQuantity: z.number(),
+        pricing: rowPricingSchema.nullable(),
+    })),
+});
+
 // Incoterms reference data
 export const INCOTERMS_DATA: Record<string, { riskLevel: 'low' | 'medium' | 'high' | 'critical'; description: string }> = {
     'EXW': { riskLevel: 'low', description: 'Ex Works - Minimal seller responsibility' },
@@ -54,6 +362,35 @@ export const INCOTERMS_DATA: Record<string, { riskLevel: 'low' | 'medium' | 'hig
     'DDP': { riskLevel: 'critical', description: 'Delivered Duty Paid - Seller pays ALL costs including duties' },
 };
 
+// Display names of risk types
+export const RISK_TYPE_LABELS: Record<RiskFlagType['type'], string> = {
+    incoterms: 'Incoterms',
+    liquidated_damages: 'Liquidated Damages',
+    uom_conflict: 'UoM Conflict',
+    duplicate: 'Duplicate',
+    missing_data: 'Missing Data',
+    currency_mismatch: 'Currency',
+    mapping: 'Column Mapping',
+    arithmetic: 'Arithmetic',
+    payment_terms: 'Payment Terms',
+    liability: 'Liability',
+    consequential_damages: 'Consequential Damages',
+    warranty: 'Warranty',
+    indemnity: 'Indemnity',
+    termination: 'Termination',
+    price_anomaly: 'Pricing',
+    part_number: 'Part Number',
+    catalog: 'Catalog',
+    lifecycle: 'Lifecycle',
+    order_quantity: 'Order Quantity',
+    margin: 'Margin',
+    custom: 'Custom Rule',
+    general: 'General',
+};
+
 export type ColumnMappingType = z.infer<typeof columnMappingSchema>;
 export type RiskFlagType = z.infer<typeof riskFlagSchema>;
 export type QuoteAnalysisType = z.infer<typeof quoteAnalysisSchema>;
+export type RiskRuleSetInput = z.infer<typeof riskRuleSetSchema>;
+export type PricingConfigInput = z.infer<typeof pricingConfigSchema>;
+export type QuoteDocumentSettingsInput = z.infer<typeof quoteDocumentSettingsSchema>;
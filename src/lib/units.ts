@@ -0,0 +1,176 @@
+import type { ParsedRow } from '@/types/quote';
+
+/**
+ * Units of measure
+ *
+ * A catalog of canonical units with their aliases, dimension and conversion
+ * factor to the base unit of that dimension (EA, M, KG, L). Pack units
+ * (BOX, REEL, …) count in pieces, but only convert once their size is known,
+ * either stated in the unit ("BOX/100", "100/PK", "REEL 500 M") or set by a
+ * mapping profile's unit conversions.
+ */
+
+export type UnitDimension = 'count' | 'length' | 'mass' | 'volume';
+
+export const BASE_UNITS: Record<UnitDimension, string> = {
+    count: 'EA',
+    length: 'M',
+    mass: 'KG',
+    volume: 'L',
+};
+
+interface UnitDefinition {
+    code: string;
+    dimension: UnitDimension;
+    // Base units per one of this unit; null for packs of unknown size
+    factor: number | null;
+    aliases: string[];
+}
+
+export const UNIT_CATALOG: UnitDefinition[] = [
+    // Count
+    { code: 'EA', dimension: 'count', factor: 1, aliases: ['each', 'ea', 'pc', 'pcs', 'piece', 'pieces', 'unit', 'units', 'st', 'stk', 'no', 'nos', 'qty'] },
+    { code: 'PR', dimension: 'count', factor: 2, aliases: ['pr', 'pair', 'pairs'] },
+    { code: 'DZ', dimension: 'count', factor: 12, aliases: ['dz', 'doz', 'dozen'] },
+    { code: 'GRO', dimension: 'count', factor: 144, aliases: ['gro', 'gross'] },
+    // Packs
+    { code: 'BOX', dimension: 'count', factor: null, aliases: ['box', 'boxes', 'bx'] },
+    { code: 'PK', dimension: 'count', factor: null, aliases: ['pk', 'pack', 'packs', 'pkg', 'package', 'packet'] },
+    { code: 'CS', dimension: 'count', factor: null, aliases: ['cs', 'case', 'cases'] },
+    { code: 'CTN', dimension: 'count', factor: null, aliases: ['ctn', 'carton', 'cartons'] },
+    { code: 'BAG', dimension: 'count', factor: null, aliases: ['bag', 'bags'] },
+    { code: 'REEL', dimension: 'count', factor: null, aliases: ['reel', 'reels', 'rl', 'spool', 'spools'] },
+    { code: 'ROLL', dimension: 'count', factor: null, aliases: ['roll', 'rolls', 'ro'] },
+    { code: 'TRAY', dimension: 'count', factor: null, aliases: ['tray', 'trays'] },
+    { code: 'TUBE', dimension: 'count', factor: null, aliases: ['tube', 'tubes'] },
+    { code: 'DRUM', dimension: 'count', factor: null, aliases: ['drum', 'drums'] },
+    { code: 'PAL', dimension: 'count', factor: null, aliases: ['pal', 'pallet', 'pallets', 'plt'] },
+    // Length
+    { code: 'M', dimension: 'length', factor: 1, aliases: ['m', 'meter', 'meters', 'metre', 'metres', 'mtr', 'mtrs', 'lm'] },
+    { code: 'MM', dimension: 'length', factor: 0.001, aliases: ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'] },
+    { code: 'CM', dimension: 'length', factor: 0.01, aliases: ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'] },
+    { code: 'KM', dimension: 'length', factor: 1000, aliases: ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres'] },
+    { code: 'IN', dimension: 'length', factor: 0.0254, aliases: ['in', 'inch', 'inches', '"'] },
+    { code: 'FT', dimension: 'length', factor: 0.3048, aliases: ['ft', 'foot', 'feet', "'", 'lf', 'lin ft'] },
+    { code: 'YD', dimension: 'length', factor: 0.9144, aliases: ['yd', 'yds', 'yard', 'yards'] },
+    // Mass
+    { code: 'KG', dimension: 'mass', factor: 1, aliases: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+    { code: 'G', dimension: 'mass', factor: 0.001, aliases: ['g', 'gm', 'gram', 'grams'] },
+    { code: 'T', dimension: 'mass', factor: 1000, aliases: ['t', 'mt', 'tonne', 'tonnes', 'metric ton', 'metric tons'] },
+    { code: 'LB', dimension: 'mass', factor: 0.45359237, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+    { code: 'OZ', dimension: 'mass', factor: 0.028349523125, aliases: ['oz', 'ounce', 'ounces'] },
+    // Volume
+    { code: 'L', dimension: 'volume', factor: 1, aliases: ['l', 'ltr', 'ltrs', 'liter', 'liters', 'litre', 'litres'] },
+    { code: 'ML', dimension: 'volume', factor: 0.001, aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+    { code: 'M3', dimension: 'volume', factor: 1000, aliases: ['m3', 'm³', 'cbm', 'cubic meter', 'cubic meters', 'cubic metre', 'cubic metres'] },
+    { code: 'GAL', dimension: 'volume', factor: 3.785411784, aliases: ['gal', 'gals', 'gallon', 'gallons', 'us gal'] },
+    { code: 'QT', dimension: 'volume', factor: 0.946352946, aliases: ['qt', 'quart', 'quarts'] },
+];
+
+export interface ParsedUnit {
+    code: string;
+    dimension: UnitDimension;
+    // Base units per one of this unit; null for a pack whose size is unknown
+    factor: number | null;
+    isPack: boolean;
+    // Stated pack content ("BOX/100" → 100, "REEL 500 M" → 500)
+    packSize: number | null;
+}
+
+const UNITS_BY_ALIAS = new Map(UNIT_CATALOG.flatMap(unit => unit.aliases.map(alias => [alias, unit] as const)));
+
+const PACK_CODES = new Set(UNIT_CATALOG.filter(unit => unit.factor === null).map(unit => unit.code));
+
+function normalizeUnitText(text: string): string {
+    return text.toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function lookup(text: string): UnitDefinition | undefined {
+    const normalized = normalizeUnitText(text);
+    // Plurals and dotted abbreviations not listed as aliases ("Pcs.", "Boxes")
+    return UNITS_BY_ALIAS.get(normalized) ?? UNITS_BY_ALIAS.get(normalized.replace(/s$/, ''));
+}
+
+function packOf(pack: UnitDefinition, size: number, inner: string | undefined): ParsedUnit | null {
+    const content = inner ? lookup(inner) : undefined;
+    if (inner && (!content || content.factor === null)) return null;
+    return {
+        code: pack.code,
+        dimension: content?.dimension ?? 'count',
+        factor: size * (content?.factor ?? 1),
+        isPack: true,
+        packSize: size,
+    };
+}
+
+// "BOX/100", "BOX OF 100", "BX100", "PK (10)", "REEL 500 M", "ROLL/50M"
+const PACK_FIRST_PATTERN = /^([a-z]+)\s*(?:\/|of|x|-|:)?\s*\(?\s*(\d+(?:[.,]\d+)?)\s*([a-z"'³0-9 ]*?)\s*\)?$/;
+// "100/BOX", "100 PCS/BOX", "100 per pack", "50 M/ROLL"
+const SIZE_FIRST_PATTERN = /^(\d+(?:[.,]\d+)?)\s*([a-z"'³ ]*?)\s*(?:\/|per)\s*([a-z]+)$/;
+
+/**
+ * Recognize a unit of measure, including pack units with a stated size; null when unknown
+ */
+export function parseUnit(text: string | null | undefined): ParsedUnit | null {
+    if (!text || !text.trim()) return null;
+
+    const unit = lookup(text);
+    if (unit) {
+        return { code: unit.code, dimension: unit.dimension, factor: unit.factor, isPack: unit.factor === null, packSize: null };
+    }
+
+    const normalized = normalizeUnitText(text);
+    const packFirst = normalized.match(PACK_FIRST_PATTERN);
+    if (packFirst) {
+        const pack = lookup(packFirst[1]);
+        if (pack && PACK_CODES.has(pack.code)) {
+            return packOf(pack, parseFloat(packFirst[2].replace(',', '.')), packFirst[3].trim() || undefined);
+        }
+    }
+
+    const sizeFirst = normalized.match(SIZE_FIRST_PATTERN);
+    if (sizeFirst) {
+        const pack = lookup(sizeFirst[3]);
+        if (pack && PACK_CODES.has(pack.code)) {
+            return packOf(pack, parseFloat(sizeFirst[1].replace(',', '.')), sizeFirst[2].trim() || undefined);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Quantity expressed in the base unit of its dimension, or null when it cannot be converted.
+ * Rows without a unit are counted in pieces.
+ */
+export function toBaseQuantity(quantity: number | null, unitOfMeasure: string): { quantity: number; unit: string } | null {
+    if (quantity === null) return null;
+    if (!unitOfMeasure.trim()) return { quantity, unit: BASE_UNITS.count };
+
+    const unit = parseUnit(unitOfMeasure);
+    if (!unit || unit.factor === null) return null;
+
+    // Round away floating-point noise from the factors (0.3048 × 10 = 3.0480000000000005)
+    return { quantity: Number((quantity * unit.factor).toPrecision(12)), unit: BASE_UNITS[unit.dimension] };
+}
+
+/**
+ * How many of one unit make up one of another, through base units ("BOX/100" to EA is 100);
+ * null when either is unknown or they measure different things
+ */
+export function unitFactor(from: string, to: string): number | null {
+    const fromBase = toBaseQuantity(1, from);
+    const toBase = toBaseQuantity(1, to);
+    if (!fromBase || !toBase || fromBase.unit !== toBase.unit) return null;
+    return fromBase.quantity / toBase.quantity;
+}
+
+/**
+ * Fill baseQuantity / baseUnit from each row's quantity and unit of measure
+ */
+export function withBaseQuantities(rows: ParsedRow[]): ParsedRow[] {
+    return rows.map(row => {
+        const base = toBaseQuantity(row.quantity, row.unitOfMeasure);
+        return { ...row, baseQuantity: base?.quantity ?? null, baseUnit: base?.unit ?? null };
+    });
+}
@@ -7,32 +7,315 @@ export interface ColumnMapping {
     quantity: string | null;
     description: string | null;
     unitPrice: string | null;
+    extendedPrice: string | null;
+    currency: string | null;
     unitOfMeasure: string | null;
+    manufacturer: string | null;
+    leadTime: string | null;
+    moq: string | null;
+    packMultiple: string | null;
     notes: string | null;
     terms: string | null;
+    // Quantity-break columns ("Qty 100", "Qty 500", …), lowest break first
+    quantityBreaks: string[];
     headerRow: number;
 }
 
+export type MappableField = Exclude<keyof ColumnMapping, 'headerRow' | 'quantityBreaks'>;
+
 export interface ParsedRow {
     rowNumber: number;
+    sheetName: string;
     partNumber: string;
     quantity: number | null;
     description: string;
     unitPrice: number | null;
+    extendedPrice: number | null;
+    currency: string | null;
     unitOfMeasure: string;
+    manufacturer: string;
+    leadTime: string;
     notes: string;
+    // Minimum order quantity and pack multiple from mapped columns (the catalog's apply when these are null)
+    moq: number | null;
+    packMultiple: number | null;
+    // Requested quantity rounded up to the MOQ and pack multiple; null without a quantity
+    quotedQuantity: number | null;
+    // Quantities the customer wants prices at, one per quantity-break column with a quantity
+    quantityTiers: QuantityTier[];
+    level: number | null;
+    parentRowNumber: number | null;
+    rolledUpQuantity: number | null;
+    // Quantity in the base unit of its dimension (EA, M, KG, L); null when the unit or pack size is unknown
+    baseQuantity: number | null;
+    baseUnit: string | null;
+    // How Excel stored the part number cell, when it was a number or date rather than text
+    partNumberCell: TypedCell | null;
+    // Part catalog lookup; null when the row was not looked up (no catalog, or re-mapped since)
+    catalogMatch: CatalogMatch | null;
+    // Lifecycle list entry for the part; null when it is not on the list (or re-mapped since)
+    lifecycle: LifecycleEntry | null;
+    // Price book entry for the part; null when it is not in the price book (or re-mapped since)
+    cost: PriceBookEntry | null;
+    // Sell price from the pricing rules; null without a cost
+    pricing: RowPricing | null;
     rawData: Record<string, unknown>;
+    // Source cells Excel stored as numbers or dates, by header
+    rawCellTypes: Record<string, TypedCell>;
+}
+
+// A line item's place in the workbook; row numbers repeat across line-item sheets
+export interface RowRef {
+    sheetName: string;
+    rowNumber: number;
+}
+
+// A quantity the customer asks a price for ("Qty 500")
+export interface QuantityTier {
+    // Quantity-break column the tier comes from
+    header: string;
+    // The cell value, else the quantity in the header
+    quantity: number;
+    // Rounded up to the MOQ and pack multiple like the row's own quantity
+    quotedQuantity: number;
+    // Sell price at the quoted quantity; null without a cost
+    pricing: RowPricing | null;
+}
+
+// An item of the local part master catalog
+export interface CatalogEntry {
+    partNumber: string;
+    description: string;
+    listPrice: number | null;
+    currency: string | null;
+    unitOfMeasure: string;
+    moq: number | null;
+    packMultiple: number | null;
+    leadTime: string;
+    lifecycleStatus: string;
+}
+
+export type CatalogMatchMethod = 'exact' | 'normalized' | 'fuzzy' | 'description';
+
+// Result of looking a row up in the part catalog
+export interface CatalogMatch {
+    // null when no catalog item is close enough
+    entry: CatalogEntry | null;
+    method: CatalogMatchMethod | null;
+    // 0–1; 1 for an exact part number match
+    confidence: number;
+    // Similarity (0–1) of the row and catalog descriptions, when both have one
+    descriptionSimilarity: number | null;
+}
+
+export interface PartCatalogInfo {
+    fileName: string;
+    importedAt: string;
+    partCount: number;
+}
+
+export interface PartCatalog extends PartCatalogInfo {
+    entries: CatalogEntry[];
+}
+
+export type LifecycleStatus = 'active' | 'nrnd' | 'last_time_buy' | 'obsolete';
+
+// A part on the lifecycle (end-of-life) list
+export interface LifecycleEntry {
+    partNumber: string;
+    status: LifecycleStatus;
+    // Successor part to offer instead, when there is one
+    replacement: string | null;
+    // Last date orders are accepted, for last-time-buy parts (as written in the list)
+    lastTimeBuyDate: string | null;
+    note: string;
+}
+
+export interface LifecycleListInfo {
+    fileName: string;
+    partCount: number;
+}
+
+// A part's cost in the local price book
+export interface PriceBookEntry {
+    partNumber: string;
+    // Cost at the lowest break
+    unitCost: number;
+    currency: string | null;
+    // Product family the pricing rules are chosen by; empty when the price book has none
+    family: string;
+    // Volume costs, lowest quantity first; the first break is unitCost from quantity 0
+    costBreaks: CostBreak[];
+    // Unit the costs and break quantities are per; empty for pieces
+    unitOfMeasure: string;
+}
+
+export interface CostBreak {
+    minQuantity: number;
+    unitCost: number;
+}
+
+export interface PriceBookInfo {
+    fileName: string;
+    partCount: number;
+}
+
+// Markup or margin for the rows a rule matches; rules without family or tier match any
+export interface PricingRule {
+    id: string;
+    family: string | null;
+    tier: string | null;
+    // Quantity break: applies from this quoted quantity up
+    minQuantity: number;
+    // Exactly one of the two is set: markup on cost, or margin on the sell price
+    markupPercent: number | null;
+    marginPercent: number | null;
+}
+
+export interface PricingConfig {
+    name: string;
+    // Customer tiers to choose from, and the one a new analysis is priced for
+    tiers: string[];
+    defaultTier: string | null;
+    // Whether a customer tier rule or a product family rule wins when both match a row
+    precedence: 'tier' | 'family';
+    // Margin for rows no rule matches
+    defaultMarginPercent: number;
+    rules: PricingRule[];
+}
+
+// A row's price as quoted
+export interface RowPricing {
+    sellPrice: number;
+    // Sell price × quoted quantity; null without a quantity
+    extendedSell: number | null;
+    // (sell − cost) / sell, in percent
+    marginPercent: number;
+    currency: string | null;
+    // Rule the price came from; null for the default margin
+    ruleId: string | null;
+}
+
+// Our company as it appears on quote documents
+export interface CompanyInfo {
+    name: string;
+    address: string[];
+    phone: string;
+    email: string;
+    website: string;
+    // VAT or other tax registration number
+    taxId: string;
+}
+
+export interface QuoteDocumentSettings {
+    company: CompanyInfo;
+    // Generated quote numbers are the prefix plus the issue date and time
+    quoteNumberPrefix: string;
+    validityDays: number;
+    // Our standard terms, for quotes that do not state others
+    incoterm: string;
+    paymentTerms: string;
+    // Terms and conditions, one paragraph each
+    terms: string[];
+    signatory: { name: string; title: string };
+    // Number and date formats, e.g. en-US or de-DE
+    locale: string;
+}
+
+// What is entered for one quote document; empty fields take the defaults from the settings
+export interface QuoteDocumentDetails {
+    customerName: string;
+    customerAddress: string;
+    customerReference: string;
+    quoteNumber: string;
+    // yyyy-mm-dd
+    validUntil: string;
+    incoterm: string;
+    paymentTerms: string;
+    notes: string;
+}
+
+export type QuoteDocumentFormat = 'html' | 'pdf';
+
+export interface QuoteDocumentLine {
+    position: number;
+    partNumber: string;
+    manufacturer: string;
+    description: string;
+    // Quoted quantity; null when the row has none
+    quantity: number | null;
+    unit: string;
+    // Sell price, else the row's own unit price; null when the item is quoted on request
+    unitPrice: number | null;
+    amount: number | null;
+    currency: string | null;
+    leadTime: string;
+    // Unit prices at the customer's quantity breaks
+    breaks: { quantity: number; unitPrice: number }[];
+}
+
+// A customer-facing quotation, ready to render
+export interface QuoteDocument {
+    company: CompanyInfo;
+    customer: { name: string; address: string[]; reference: string };
+    quoteNumber: string;
+    // yyyy-mm-dd
+    issueDate: string;
+    validUntil: string;
+    incoterm: string;
+    paymentTerms: string;
+    lines: QuoteDocumentLine[];
+    // Sum of the priced lines per currency
+    totals: { currency: string | null; amount: number }[];
+    notes: string[];
+    terms: string[];
+    signatory: { name: string; title: string };
+    locale: string;
+}
+
+// A cell Excel stored as a number or date: rawData holds its displayed text, this the value behind it
+export interface TypedCell {
+    type: 'number' | 'date';
+    // The number, or the date serial (days since 1899-12-30)
+    value: number;
+    // Excel number format, e.g. "0.00E+00" or "d-mmm"
+    format: string | null;
 }
 
 export interface RiskFlag {
     id: string;
-    type: 'incoterms' | 'liquidated_damages' | 'uom_conflict' | 'duplicate' | 'missing_data' | 'general';
+    type: 'incoterms' | 'liquidated_damages' | 'uom_conflict' | 'duplicate' | 'missing_data' | 'currency_mismatch' | 'mapping' | 'arithmetic' | 'payment_terms'
+        | 'liability' | 'consequential_damages' | 'warranty' | 'indemnity' | 'termination' | 'price_anomaly' | 'part_number' | 'catalog' | 'lifecycle' | 'order_quantity' | 'margin' | 'custom' | 'general';
     level: RiskLevel;
     title: string;
     description: string;
-    affectedRows?: number[];
+    affectedRows?: RowRef[];
     extractedValue?: string;
     recommendation: string;
+    // Cell the risk was read from, for text-derived risks
+    source?: CellSource;
+    // Every cell stating the same thing, when there is more than one
+    occurrences?: CellSource[];
+    // Range a flagged value was expected to fall in, for numeric risks such as prices
+    expectedRange?: { min: number | null; max: number | null };
+}
+
+// A non-empty cell holding text, as scanned by the text-based risk detectors
+export interface TextCell {
+    sheetName: string;
+    rowNumber: number;
+    column: string; // Excel column letter
+    header: string | null; // Table header above the cell, when it sits in a table's data area
+    text: string;
+}
+
+export interface CellSource {
+    sheetName: string;
+    rowNumber: number;
+    column: string;
+    header: string | null;
+    cellRef: string; // e.g. Sheet1!F14, or 'Terms & Conditions'!B3
+    snippet: string; // The matched text with surrounding context
 }
 
 export interface IncotermInfo {
@@ -42,32 +325,313 @@ export interface IncotermInfo {
     sellerResponsibility: string;
 }
 
+export type MappingSource = 'profile' | 'ai' | 'fallback';
+
+export interface FieldAssessment {
+    field: MappableField;
+    header: string | null;
+    confidence: number;
+    rationale: string;
+    source: 'ai' | 'heuristic' | 'user';
+}
+
+export interface UnitConversion {
+    unit: string;
+    factor: number;
+}
+
+export interface MappingProfile {
+    id: string;
+    name: string;
+    headerSignature: string;
+    headers: string[];
+    columnMapping: ColumnMapping;
+    headerRow: number;
+    sheetName: string | null;
+    unitConversions: Record<string, UnitConversion>;
+    ruleSet: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Column mapping of one line-item sheet; sheets of a workbook often name the same column differently
+export interface SheetMapping {
+    columnMapping: ColumnMapping;
+    mappingAssessment: FieldAssessment[];
+}
+
 export interface QuoteAnalysis {
     success: boolean;
     fileName: string;
     processedAt: string;
+    // Mapping of the primary (first included) line-item sheet, the one profiles are saved for
     columnMapping: ColumnMapping;
+    mappingSource: MappingSource;
+    mappingAssessment: FieldAssessment[];
+    // Mapping of every included line-item sheet by sheet name, the primary sheet's included
+    sheetMappings: Record<string, SheetMapping>;
+    mappingProfile: { id: string; name: string; unitConversions: Record<string, UnitConversion> } | null;
+    headers: string[];
+    rawText: string;
+    cells: TextCell[];
+    currency: string | null;
+    sheets: SheetInfo[];
     rows: ParsedRow[];
+    bom: BomStructure | null;
+    // Part catalog the rows were matched against; null when none is loaded
+    catalog: PartCatalogInfo | null;
+    // Lifecycle list the rows were checked against; null when there is none
+    lifecycleList: LifecycleListInfo | null;
+    // Price book the rows were costed from; null when there is none
+    priceBook: PriceBookInfo | null;
+    // Pricing rules and the customer tier the rows are priced for; they travel with the analysis like the risk rules
+    pricing: PricingConfig;
+    customerTier: string | null;
+    riskRules: RiskRuleSet;
     risks: RiskFlag[];
+    // Review decisions keyed by risk id; risks without one are open
+    reviews: Record<string, RiskReview>;
     summary: {
         totalRows: number;
         validRows: number;
+        // Risk counts cover open risks only
         totalRisks: number;
         criticalRisks: number;
         highRisks: number;
         mediumRisks: number;
         lowRisks: number;
+        reviewedRisks: number;
+        // Weighted roll-up of the open risks; null when the file could not be analyzed
+        dealScore: DealScore | null;
+    };
+}
+
+export type DealRecommendation = 'go' | 'review' | 'escalate';
+
+export interface DealScoreFactor {
+    // Risk type, or 'affected_rows' / 'incomplete_rows'
+    key: string;
+    label: string;
+    points: number;
+    detail: string;
+}
+
+export interface DealScore {
+    // 0 (clean) to 100 (worst)
+    score: number;
+    recommendation: DealRecommendation;
+    // Largest contribution first
+    factors: DealScoreFactor[];
+}
+
+export type RiskStatus = 'open' | 'acknowledged' | 'waived' | 'resolved';
+
+export interface RiskReview {
+    riskId: string;
+    status: Exclude<RiskStatus, 'open'>;
+    reviewer: string;
+    justification: string;
+    reviewedAt: string;
+}
+
+// Built-in detectors a rule set can switch off
+export type BuiltInDetector =
+    | 'incoterms'
+    | 'liquidated_damages'
+    | 'duplicates'
+    | 'uom_conflicts'
+    | 'missing_data'
+    | 'currency_mismatch'
+    | 'extended_price'
+    | 'totals'
+    | 'payment_terms'
+    | 'clauses'
+    | 'prices'
+    | 'part_numbers'
+    | 'catalog'
+    | 'lifecycle'
+    | 'order_quantities'
+    | 'margins';
+
+export interface RiskThresholds {
+    liquidatedDamages: {
+        criticalRatePercent: number;
+        highRatePercent: number;
+        criticalCapPercent: number;
+    };
+    uom: {
+        maxBulkQuantity: number;
+    };
+    incotermLevels: Record<string, RiskLevel>;
+    paymentTerms: {
+        // DSO up to targetDays is within policy; above it medium, from highDays high, from criticalDays critical
+        targetDays: number;
+        highDays: number;
+        criticalDays: number;
+        maxRetentionPercent: number;
+        conditionalPaymentLevel: RiskLevel;
+    };
+    clauses: {
+        // Warranty up to standardMonths is low risk; from highMonths high, from criticalMonths critical
+        warrantyStandardMonths: number;
+        warrantyHighMonths: number;
+        warrantyCriticalMonths: number;
+        // Liability caps above this share of contract value are high risk
+        maxLiabilityCapPercent: number;
+    };
+    prices: {
+        // Prices outside the quartiles ± this many interquartile ranges (on a log scale) are outliers
+        outlierIqrMultiplier: number;
+        // Fewest priced rows of one unit and currency to look for outliers in
+        minGroupSize: number;
+        // A pack-priced row this many times the median each price suggests per-box vs per-each confusion
+        packPriceRatio: number;
     };
+    partNumbers: PartNumberRules;
+    catalog: {
+        // Lowest part number similarity (0–1) accepted as a fuzzy catalog match
+        minFuzzyScore: number;
+        // Lowest description similarity accepted when matching on the description alone
+        minDescriptionScore: number;
+        // Matched rows whose description is less similar than this to the catalog's are flagged
+        descriptionMismatchScore: number;
+    };
+    // Risk level per lifecycle status; active parts are never flagged
+    lifecycleLevels: Record<Exclude<LifecycleStatus, 'active'>, RiskLevel>;
+    margins: {
+        // Priced rows below this margin (in percent) are flagged; rows sold below cost are critical
+        minPercent: number;
+    };
+    dealScore: DealScoreWeights;
+}
+
+// How part numbers are normalized before rows are compared ("ABC-123" = "abc 123")
+export interface PartNumberRules {
+    // Drop spaces, dashes, dots, slashes and underscores
+    stripSeparators: boolean;
+    // Treat "00123" and "123" as the same part
+    ignoreLeadingZeros: boolean;
+    // Manufacturer or distributor prefixes to drop, e.g. "TI-" or "MOL:"
+    prefixes: string[];
+}
+
+export interface DealScoreWeights {
+    // Points per open risk of each level, multiplied by the weight of its type (default 1)
+    levelPoints: Record<RiskLevel, number>;
+    typeWeights: Partial<Record<RiskFlag['type'], number>>;
+    // Points when every line item is affected by an open risk / is missing a part number or quantity
+    affectedRowsPoints: number;
+    incompleteRowsPoints: number;
+    // Scores from reviewAt need a review, from escalateAt an escalation
+    reviewAt: number;
+    escalateAt: number;
+}
+
+// Risk types a custom rule may raise ('general' and 'mapping' are reserved for processing)
+export type CustomRiskType = Exclude<RiskFlag['type'], 'general' | 'mapping'>;
+
+export type RuleRowField = 'partNumber' | 'quantity' | 'description' | 'unitPrice' | 'extendedPrice'
+    | 'currency' | 'unitOfMeasure' | 'manufacturer' | 'leadTime' | 'notes' | 'level' | 'sheetName';
+
+export interface RowCondition {
+    field: RuleRowField;
+    op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'matches' | 'empty' | 'not_empty';
+    value?: string | number | (string | number)[];
+}
+
+interface RiskRuleBase {
+    id: string;
+    level: RiskLevel;
+    riskType: CustomRiskType;
+    title: string;
+    description?: string;
+    recommendation: string;
+}
+
+export type RiskRule = RiskRuleBase & (
+    | { kind: 'keyword'; keywords: string[] }
+    | { kind: 'regex'; pattern: string; flags: string }
+    | { kind: 'row'; match: 'all' | 'any'; conditions: RowCondition[] }
+);
+
+export interface RiskRuleSet {
+    name: string;
+    description?: string;
+    thresholds: RiskThresholds;
+    disabledDetectors: BuiltInDetector[];
+    rules: RiskRule[];
+}
+
+export interface BomSource {
+    column: string;
+    kind: 'level' | 'item_number';
+}
+
+export interface BomNode {
+    sheetName: string;
+    rowNumber: number;
+    level: number;
+    children: BomNode[];
+}
+
+export interface BomStructure extends BomSource {
+    maxDepth: number;
+    roots: BomNode[];
+}
+
+export type SheetKind = 'line_items' | 'terms' | 'ignore';
+
+export interface SheetInfo {
+    name: string;
+    index: number;
+    kind: SheetKind;
+    included: boolean;
+    headers: string[];
+    headerRow: number;
+    headerRowCount: number;
+    rowCount: number;
+}
+
+export interface SheetRow {
+    sheetName: string;
+    rowNumber: number;
+    data: Record<string, unknown>;
+    // Cells stored as numbers or dates, by header
+    cellTypes?: Record<string, TypedCell>;
+}
+
+export interface HeaderDetection {
+    rowIndex: number;
+    rowCount: number;
+    score: number;
+}
+
+export interface SheetTable {
+    headers: string[];
+    headerRow: number;
+    headerRowCount: number;
+    rows: Omit<SheetRow, 'sheetName'>[];
 }
 
 export interface ExcelParseResult {
     success: boolean;
     headers: string[];
-    rows: Record<string, unknown>[];
+    rows: SheetRow[];
     rawText: string;
+    cells: TextCell[];
+    sheets: SheetInfo[];
     error?: string;
 }
 
+export interface ParseOptions {
+    excludedSheets?: string[];
+}
+
+export interface NumberFormat {
+    decimal: '.' | ',';
+    thousands: ',' | '.' | ' ' | "'";
+}
+
 export interface AIAnalysisRequest {
     headers: string[];
     sampleRows: Record<string, unknown>[];
@@ -81,8 +645,9 @@ export interface StreamingState {
 }
 
 export interface RowRemediation {
+    sheetName: string;
     rowNumber: number;
-    field: 'quantity' | 'unitPrice' | 'description';
+    field: 'quantity' | 'unitPrice' | 'description' | 'partNumber';
     oldValue: unknown;
     newValue: unknown;
     reason: string;